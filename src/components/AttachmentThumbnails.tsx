@@ -0,0 +1,50 @@
+import { useState, useEffect } from "react";
+import { FileText } from "lucide-react";
+import { isImageAttachment, signAttachmentUrls, type MessageAttachment } from '@/lib/attachments';
+
+interface AttachmentThumbnailsProps {
+  attachments: MessageAttachment[];
+  size?: "sm" | "md";
+}
+
+export const AttachmentThumbnails = ({ attachments, size = "sm" }: AttachmentThumbnailsProps) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const paths = attachments.map(attachment => attachment.storage_path).join("|");
+
+  useEffect(() => {
+    if (!paths) return;
+
+    signAttachmentUrls(paths.split("|"))
+      .then(setUrls)
+      .catch(error => console.error('Error signing attachment URLs:', error));
+  }, [paths]);
+
+  if (attachments.length === 0) return null;
+
+  const dimensions = size === "sm" ? "h-10 w-10" : "h-16 w-16";
+
+  return (
+    <div className="flex gap-1 flex-wrap">
+      {attachments.map(attachment => {
+        const url = urls[attachment.storage_path];
+        return (
+          <a
+            key={attachment.id}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={attachment.file_name}
+            className={`${dimensions} rounded border overflow-hidden bg-muted flex items-center justify-center shrink-0`}
+            onClick={(e) => !url && e.preventDefault()}
+          >
+            {isImageAttachment(attachment) && url ? (
+              <img src={url} alt={attachment.file_name} className="h-full w-full object-cover" />
+            ) : (
+              <FileText className="h-4 w-4 text-muted-foreground" />
+            )}
+          </a>
+        );
+      })}
+    </div>
+  );
+};
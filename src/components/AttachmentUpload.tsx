@@ -0,0 +1,324 @@
+import { useState, useRef, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Upload, Image, X, Camera, ScanText, FileText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+  deleteAttachment,
+  isImageAttachment,
+  signAttachmentUrls,
+  uploadAttachment,
+  validateAttachmentFile,
+  type MessageAttachment
+} from '@/lib/attachments';
+
+interface AttachmentUploadProps {
+  attachments: MessageAttachment[];
+  onAttachmentsChange: (attachments: MessageAttachment[]) => void;
+  onTextExtracted?: (text: string) => void;
+}
+
+export const AttachmentUpload = ({
+  attachments,
+  onAttachmentsChange,
+  onTextExtracted
+}: AttachmentUploadProps) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const [dragActive, setDragActive] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // The paste listener lives on window, so it reads the latest list through a ref
+  const attachmentsRef = useRef(attachments);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  attachmentsRef.current = attachments;
+
+  const paths = attachments.map(attachment => attachment.storage_path).join("|");
+
+  useEffect(() => {
+    if (!paths) {
+      setPreviewUrls({});
+      return;
+    }
+
+    signAttachmentUrls(paths.split("|"))
+      .then(setPreviewUrls)
+      .catch(error => console.error('Error signing attachment previews:', error));
+  }, [paths]);
+
+  const uploadFiles = async (files: File[]) => {
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to upload attachments.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const current = attachmentsRef.current;
+    const room = MAX_ATTACHMENTS - current.length;
+    if (room <= 0) {
+      toast({
+        title: "Attachment limit reached",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files per message.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const accepted: File[] = [];
+    for (const file of files.slice(0, room)) {
+      const problem = validateAttachmentFile(file);
+      if (problem) {
+        toast({
+          title: "File skipped",
+          description: problem,
+          variant: "destructive"
+        });
+      } else {
+        accepted.push(file);
+      }
+    }
+    if (accepted.length === 0) return;
+
+    setIsUploading(true);
+
+    try {
+      const uploaded = await Promise.all(accepted.map(file => uploadAttachment(user.id, file)));
+      onAttachmentsChange([...attachmentsRef.current, ...uploaded]);
+
+      toast({
+        title: uploaded.length === 1 ? "Attachment uploaded" : `${uploaded.length} attachments uploaded`,
+        description: files.length > room
+          ? `Only the first ${room} file${room !== 1 ? 's were' : ' was'} added (limit ${MAX_ATTACHMENTS}).`
+          : "They'll be analyzed with your message."
+      });
+    } catch (error) {
+      console.error('Error uploading attachments:', error);
+      toast({
+        title: "Upload failed",
+        description: "Failed to upload attachments. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Screenshots pasted anywhere on the page (Ctrl+V) are attached; plain text pastes are left alone
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []);
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      uploadFiles(files);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  const removeAttachment = async (attachment: MessageAttachment) => {
+    onAttachmentsChange(attachments.filter(a => a.id !== attachment.id));
+
+    try {
+      await deleteAttachment(attachment);
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+    }
+  };
+
+  const extractText = async () => {
+    if (attachments.length === 0 || !onTextExtracted) return;
+
+    setIsExtracting(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('gemini-chat', {
+        body: {
+          action: 'extract_screenshot_text',
+          attachmentIds: attachments.map(attachment => attachment.id)
+        }
+      });
+
+      if (error) throw error;
+
+      if (!data.extractedText) {
+        toast({
+          title: "No message found",
+          description: "Couldn't find a client message in these attachments.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      onTextExtracted(data.extractedText);
+    } catch (error) {
+      console.error('Error extracting attachment text:', error);
+      toast({
+        title: "Extraction failed",
+        description: "Failed to read text from the attachments. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === "dragenter" || e.type === "dragover") {
+      setDragActive(true);
+    } else if (e.type === "dragleave") {
+      setDragActive(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+
+    if (e.dataTransfer.files?.length) {
+      uploadFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.length) {
+      uploadFiles(Array.from(e.target.files));
+    }
+    // Allow selecting the same file again after removing it
+    e.target.value = "";
+  };
+
+  const triggerFileSelect = () => {
+    fileInputRef.current?.click();
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Camera className="h-5 w-5" />
+          Attachments
+          {attachments.length > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {attachments.length}/{MAX_ATTACHMENTS}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {attachments.length > 0 && (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              {attachments.map(attachment => (
+                <div key={attachment.id} className="relative border rounded-lg overflow-hidden" title={attachment.file_name}>
+                  {isImageAttachment(attachment) ? (
+                    previewUrls[attachment.storage_path] ? (
+                      <img
+                        src={previewUrls[attachment.storage_path]}
+                        alt={attachment.file_name}
+                        className="w-full h-20 object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-20 bg-muted animate-pulse" />
+                    )
+                  ) : (
+                    <div className="w-full h-20 bg-muted flex flex-col items-center justify-center gap-1 px-1">
+                      <FileText className="h-6 w-6 text-muted-foreground" />
+                      <span className="text-xs text-muted-foreground truncate max-w-full">{attachment.file_name}</span>
+                    </div>
+                  )}
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    className="absolute top-1 right-1 h-6 w-6 p-0"
+                    onClick={() => removeAttachment(attachment)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <Badge variant="default" className="text-xs">
+                Attachments will be analyzed with your message
+              </Badge>
+              {onTextExtracted && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={extractText}
+                  disabled={isExtracting}
+                  title="Read the client's message from the attachments"
+                >
+                  <ScanText className="h-4 w-4 mr-2" />
+                  {isExtracting ? "Reading..." : "Extract Message"}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {attachments.length < MAX_ATTACHMENTS && (
+          <div
+            className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+              dragActive ? 'border-primary bg-primary/5' : 'border-border'
+            }`}
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_ATTACHMENT_TYPES}
+              multiple
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+
+            <div className="space-y-3">
+              <Upload className="h-8 w-8 mx-auto text-muted-foreground" />
+              <div>
+                <p className="text-sm font-medium">Upload Screenshots or PDFs</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Drag & drop, paste from clipboard, or click to upload
+                </p>
+              </div>
+
+              <Button
+                onClick={triggerFileSelect}
+                disabled={isUploading}
+                size="sm"
+                variant="outline"
+              >
+                <Image className="h-4 w-4 mr-2" />
+                {isUploading ? "Uploading..." : "Choose Files"}
+              </Button>
+
+              <div className="text-xs text-muted-foreground">
+                <p>• JPG, PNG, GIF up to 5MB; PDF up to 10MB</p>
+                <p>• Up to {MAX_ATTACHMENTS} files per message</p>
+                <p>• AI will analyze every attachment</p>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
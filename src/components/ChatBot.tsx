@@ -1,26 +1,62 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Send, Sparkles, MessageCircle, FileText, History, Settings, Edit, Save } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Copy, Send, Sparkles, MessageCircle, FileText, History, Settings, Edit, Save, Square, Wand2, Languages } from "lucide-react";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { useClients } from '@/hooks/useClients';
+import { useTemplateAnalytics } from '@/hooks/useTemplateAnalytics';
+import { readEventStream } from '@/lib/eventStream';
+import { queueEmbeddingBackfill } from '@/lib/embeddings';
+import { findUnfilledPlaceholders } from '@/lib/templateVariables';
+import { checkCompliance, type PolicyViolation } from '@/lib/policyCompliance';
+import type { MessageAttachment } from '@/lib/attachments';
+import type { Quote } from '@/lib/pricing';
+import { getKnowledgeSourceLabel } from '@/lib/knowledgeBase';
+import { DEFAULT_LANGUAGE, detectLanguage, getLanguageLabel, translateToEnglish } from '@/lib/languages';
+import type { PromptTemplateRef } from '@/lib/promptTemplates';
+import { getGenerationErrorTitle, toGenerationError, type GenerationError, type GenerationErrorCode } from '@/lib/generationErrors';
+import {
+  classifyClientMessage,
+  getMessageTypeLabel,
+  isEscalationRisk,
+  LOW_CONFIDENCE,
+  messageTypes,
+  MIN_CLASSIFY_LENGTH,
+  type MessageClassification
+} from '@/lib/messageClassification';
 import { TemplateManager } from './TemplateManager';
-import { ScreenshotUpload } from './ScreenshotUpload';
+import { QuoteBuilder } from './QuoteBuilder';
+import { AttachmentUpload } from './AttachmentUpload';
+import { AttachmentThumbnails } from './AttachmentThumbnails';
 import { ConversationAnalytics } from './ConversationAnalytics';
 import { ConversationSearch } from './ConversationSearch';
 import { ExportData } from './ExportData';
+import { ClientThreads, type ClientThread } from './ClientThreads';
+import { ClientManager } from './ClientManager';
+import { GigManager } from './GigManager';
+import { KnowledgeBaseManager } from './KnowledgeBaseManager';
+import { RefinementsManager } from './RefinementsManager';
+import { PromptTemplateManager } from './PromptTemplateManager';
+import { DraftComparison, type DraftSelection, type ResponseDraft } from './DraftComparison';
+import { TemplateOutcomePrompt } from './TemplateOutcomePrompt';
+import { PolicyCompliancePanel, PolicyHighlightedText } from './PolicyCompliancePanel';
+import { GenerationErrorPanel } from './GenerationErrorPanel';
+import { EscalationRiskBanner } from './EscalationRiskBanner';
+import { RewriteToolbar } from './RewriteToolbar';
 
 interface ChatMessage {
   id: string;
   clientMessage: string;
   generatedResponse: string;
   timestamp: Date;
-  screenshotUrl?: string;
+  attachments: MessageAttachment[];
 }
 
 interface DatabaseConversation {
@@ -29,25 +65,111 @@ interface DatabaseConversation {
   bot_response: string;
   message_type: string;
   created_at: string;
-  screenshot_url?: string;
+  conversation_attachments?: MessageAttachment[];
 }
 
+interface KnowledgeSource {
+  documentId: string;
+  title: string;
+  sourceType: string;
+  chunkIndex: number;
+  score: number;
+}
+
+interface ResponseContext {
+  knowledgeSources?: KnowledgeSource[];
+  promptTemplate?: PromptTemplateRef;
+}
+
+interface GeminiStreamEvent {
+  text?: string;
+  done?: boolean;
+  error?: string;
+  code?: GenerationErrorCode;
+  retryable?: boolean;
+  context?: ResponseContext;
+}
+
+// Message types where a priced quote belongs in the reply
+const QUOTE_MESSAGE_TYPES = ['custom_offer', 'pricing'];
+
 const FiverrChatBot = () => {
   const [clientMessage, setClientMessage] = useState("");
   const [generatedResponse, setGeneratedResponse] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
+  // Why the last generation produced no response; shown instead of a draft
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
   const [conversations, setConversations] = useState<ChatMessage[]>([]);
-  const [screenshotUrl, setScreenshotUrl] = useState<string>("");
+  // Uploaded but not yet linked to a conversation; linked when the conversation is saved
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
   const [messageType, setMessageType] = useState("custom_offer");
+  const [quote, setQuote] = useState<Quote | null>(null);
   const [showTemplates, setShowTemplates] = useState(false);
   const [showAnalytics, setShowAnalytics] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [showExport, setShowExport] = useState(false);
+  const [showClients, setShowClients] = useState(false);
+  const [showGigs, setShowGigs] = useState(false);
+  const [showKnowledge, setShowKnowledge] = useState(false);
+  const [showRefinements, setShowRefinements] = useState(false);
+  const [showPrompts, setShowPrompts] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editedResponse, setEditedResponse] = useState("");
+  const [draftCount, setDraftCount] = useState(1);
+  const [drafts, setDrafts] = useState<ResponseDraft[]>([]);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [threadRefreshKey, setThreadRefreshKey] = useState(0);
+  // Bumped whenever a reply is logged, so the outcome prompt picks up replies that are now due
+  const [usageRefreshKey, setUsageRefreshKey] = useState(0);
+  const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
+  const [responseTemplateIds, setResponseTemplateIds] = useState<string[]>([]);
+  // Detected labels together with the message text they were computed for
+  const [classification, setClassification] = useState<{ message: string; result: MessageClassification } | null>(null);
+  const [isClassifying, setIsClassifying] = useState(false);
+  // Set when the user picks the type by hand, so a later classification doesn't override it
+  const messageTypeChosenRef = useRef(false);
+  const [deescalationMode, setDeescalationMode] = useState(false);
+  // Same for de-escalation mode: a manual toggle wins over the detected risk
+  const deescalationChosenRef = useRef(false);
+  const [replyInClientLanguage, setReplyInClientLanguage] = useState(true);
+  // English translation of a non-English response, keyed by the text it translates
+  const [backTranslation, setBackTranslation] = useState<{ source: string; text: string } | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  // Knowledge base passages the current response was grounded in
+  const [responseSources, setResponseSources] = useState<KnowledgeSource[]>([]);
+  // Prompt version that generated the current response, stored with the saved conversation
+  const [responsePromptTemplate, setResponsePromptTemplate] = useState<PromptTemplateRef | null>(null);
+  // Exact text the user reviewed despite policy flags; any further change needs a new review
+  const [acknowledgedText, setAcknowledgedText] = useState<string | null>(null);
+  const [isRewriting, setIsRewriting] = useState(false);
+  // Earlier and undone versions of the response, for undo/redo across rewrites
+  const [responseHistory, setResponseHistory] = useState<{ past: string[]; future: string[] }>({ past: [], future: [] });
+  const [activeRewrite, setActiveRewrite] = useState<string | null>(null);
+  const { clients, refreshClients } = useClients();
+  const { logUsage, linkConversation } = useTemplateAnalytics();
+  // Set once the current response has been logged as used, so copy-then-save counts once
+  const usageGroupRef = useRef<string | null>(null);
+  // Response text the user already chose to copy despite unfilled {{placeholders}}
+  const confirmedUnfilledRef = useRef<string | null>(null);
+  const streamReaderRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
+  const stoppedByUserRef = useRef(false);
   const { toast } = useToast();
   const { user } = useAuth();
 
+  const violations = useMemo(() => checkCompliance(generatedResponse), [generatedResponse]);
+  const editViolations = useMemo(() => checkCompliance(editedResponse), [editedResponse]);
+  const policyBlocked = violations.length > 0 && acknowledgedText !== generatedResponse;
+  const editPolicyBlocked = editViolations.length > 0 && acknowledgedText !== editedResponse;
+  // Whichever text the panel is currently showing: the edit box or the generated response
+  const activeText = isEditing ? editedResponse : generatedResponse;
+  const activeViolations = isEditing ? editViolations : violations;
+  const activePolicyBlocked = isEditing ? editPolicyBlocked : policyBlocked;
+  // A toolbar rewrite replaces the response when it lands, so nothing else may act on the draft meanwhile
+  const draftBusy = isRewriting || activeRewrite !== null;
+
+  const clientLanguage = classification?.result.language || null;
+  const replyLanguage = replyInClientLanguage && clientLanguage ? clientLanguage : DEFAULT_LANGUAGE;
+
   // Load conversation history on component mount
   useEffect(() => {
     if (user) {
@@ -55,13 +177,74 @@ const FiverrChatBot = () => {
     }
   }, [user]);
 
+  // Classify the client message once typing pauses and pre-select the detected type
+  useEffect(() => {
+    const message = clientMessage.trim();
+    if (message.length < MIN_CLASSIFY_LENGTH) {
+      setClassification(null);
+      if (!message) {
+        messageTypeChosenRef.current = false;
+        deescalationChosenRef.current = false;
+        setDeescalationMode(false);
+      }
+      return;
+    }
+    if (classification?.message === message) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsClassifying(true);
+      const result = await classifyClientMessage(message);
+      if (cancelled) return;
+      setIsClassifying(false);
+      setClassification({ message, result });
+      if (!messageTypeChosenRef.current) {
+        setMessageType(result.messageType);
+      }
+      if (!deescalationChosenRef.current) {
+        setDeescalationMode(isEscalationRisk(result.riskScore));
+      }
+    }, 1000);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsClassifying(false);
+    };
+  }, [clientMessage]);
+
+  // Translate non-English responses back to English once generation settles
+  useEffect(() => {
+    const text = generatedResponse.trim();
+    if (!text || isGenerating || drafts.length > 0 || backTranslation?.source === text) return;
+    if (detectLanguage(text) === DEFAULT_LANGUAGE) {
+      setBackTranslation(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsTranslating(true);
+      const translation = await translateToEnglish(text);
+      if (cancelled) return;
+      setIsTranslating(false);
+      setBackTranslation(translation ? { source: text, text: translation } : null);
+    }, 800);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsTranslating(false);
+    };
+  }, [generatedResponse, isGenerating, drafts.length]);
+
   const loadConversationHistory = async () => {
     if (!user) return;
 
     try {
       const { data, error } = await supabase
         .from('conversations')
-        .select('*')
+        .select('*, conversation_attachments(id, storage_path, file_name, mime_type, size_bytes)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false })
         .limit(20);
@@ -76,7 +259,7 @@ const FiverrChatBot = () => {
         clientMessage: conv.client_message,
         generatedResponse: conv.bot_response,
         timestamp: new Date(conv.created_at),
-        screenshotUrl: conv.screenshot_url,
+        attachments: conv.conversation_attachments || [],
       }));
 
       setConversations(formattedHistory);
@@ -85,29 +268,63 @@ const FiverrChatBot = () => {
     }
   };
 
-  const saveConversationToDb = async (clientMsg: string, botResp: string, msgType: string, screenshotUrl?: string) => {
+  const saveConversationToDb = async (clientMsg: string, botResp: string, msgType: string, attachmentIds: string[] = []) => {
     if (!user) return;
 
+    // Labels are only stored when they were computed for the message being saved
+    const detected = classification?.message === clientMsg.trim() ? classification.result : null;
+
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('conversations')
         .insert({
           user_id: user.id,
           client_message: clientMsg,
           bot_response: botResp,
           message_type: msgType,
-          screenshot_url: screenshotUrl,
-        });
+          thread_id: selectedThreadId,
+          deescalation_mode: deescalationMode,
+          prompt_template_id: responsePromptTemplate?.id ?? null,
+          prompt_template_version: responsePromptTemplate?.version ?? null,
+          ...(detected && {
+            detected_message_type: detected.messageType,
+            classification_confidence: detected.confidence,
+            classification_source: detected.source,
+            detected_intent: detected.intent,
+            urgency: detected.urgency,
+            sentiment: detected.sentiment,
+            requested_deliverables: detected.deliverables,
+            risk_score: detected.riskScore,
+            risk_signals: detected.riskSignals,
+            language: detected.language
+          })
+        })
+        .select('id')
+        .single();
 
       if (error) {
         console.error('Error saving conversation:', error);
       } else {
-        // Reload conversation history
+        if (attachmentIds.length > 0) {
+          const { error: linkError } = await supabase
+            .from('conversation_attachments')
+            .update({ conversation_id: data.id })
+            .in('id', attachmentIds)
+            .eq('user_id', user.id);
+
+          if (linkError) console.error('Error linking attachments:', linkError);
+        }
+
+        // Reload conversation history and the active thread
         loadConversationHistory();
+        setThreadRefreshKey(key => key + 1);
+        queueEmbeddingBackfill('conversations');
+        return data.id;
       }
     } catch (error) {
       console.error('Error saving conversation:', error);
     }
+    return null;
   };
 
   const responseTemplates = {
@@ -118,6 +335,26 @@ const FiverrChatBot = () => {
     timeline: "I appreciate your patience with the timeline. I want to ensure I deliver the highest quality work for you. I'll have this completed by [specific date] and will keep you updated on the progress."
   };
 
+  const buildRequestBody = () => ({
+    clientMessage,
+    messageType,
+    attachmentIds: attachments.map(attachment => attachment.id),
+    quote: QUOTE_MESSAGE_TYPES.includes(messageType) ? quote : null,
+    threadId: selectedThreadId,
+    clientId: selectedClientId,
+    deescalate: deescalationMode,
+    clientLanguage,
+    replyLanguage,
+    riskSignals: classification?.result.riskSignals || []
+  });
+
+  const selectThread = (threadId: string | null, thread: ClientThread | null) => {
+    setSelectedThreadId(threadId);
+    if (thread?.client_id) {
+      setSelectedClientId(thread.client_id);
+    }
+  };
+
   const generateResponse = async (template?: string) => {
     if (!clientMessage.trim()) {
       toast({
@@ -129,22 +366,53 @@ const FiverrChatBot = () => {
     }
 
     setIsGenerating(true);
+    setGenerationError(null);
+    setDrafts([]);
+    // Generated replies are logged without a template: the matched templates only inform the
+    // response context, they are not part of the prompt, so their ratings must not move with it
+    setResponseTemplateIds([]);
+    setResponseSources([]);
+    setResponsePromptTemplate(null);
+    setResponseHistory({ past: [], future: [] });
+    usageGroupRef.current = null;
+    stoppedByUserRef.current = false;
+    let streamedResponse = "";
     
     try {
       if (template) {
         // Use template response
         const response = responseTemplates[template as keyof typeof responseTemplates];
         setGeneratedResponse(response);
+      } else if (draftCount > 1) {
+        // Ask for several alternative drafts in different tones to compare side by side
+        setGeneratedResponse("");
+        const { data, error } = await supabase.functions.invoke('gemini-chat', {
+          body: {
+            ...buildRequestBody(),
+            variants: draftCount
+          }
+        });
+
+        if (error) {
+          console.error('Error calling Gemini API:', error);
+          throw error;
+        }
+
+        setResponseSources(data.context?.knowledgeSources || []);
+        setResponsePromptTemplate(data.context?.promptTemplate || null);
+
+        if (data.drafts?.length > 1) {
+          setDrafts(data.drafts);
+        } else {
+          setGeneratedResponse(data.generatedResponse);
+        }
       } else {
-        // Call Gemini API via edge function
+        // Call Gemini API via edge function, streaming tokens into the response panel
+        setGeneratedResponse("");
         const { data, error } = await supabase.functions.invoke('gemini-chat', {
           body: {
-            clientMessage,
-            messageType,
-            screenshotUrl: screenshotUrl || null,
-            userContext: {
-              timestamp: new Date().toISOString()
-            }
+            ...buildRequestBody(),
+            stream: true
           }
         });
 
@@ -153,23 +421,68 @@ const FiverrChatBot = () => {
           throw error;
         }
 
-        setGeneratedResponse(data.generatedResponse || data.fallback);
+        const reader = (data as Response).body.getReader();
+        streamReaderRef.current = reader;
+        if (stoppedByUserRef.current) {
+          // Stop was pressed before the first byte arrived
+          reader.cancel();
+        }
+
+        await readEventStream<GeminiStreamEvent>(reader, (event) => {
+          if (event.error) {
+            // Same { error, code, retryable } shape as an error response
+            throw Object.assign(new Error(event.error), event);
+          }
+          if (event.text) {
+            streamedResponse += event.text;
+            setGeneratedResponse(streamedResponse);
+          }
+          if (event.done) {
+            setResponseSources(event.context?.knowledgeSources || []);
+            setResponsePromptTemplate(event.context?.promptTemplate || null);
+          }
+        });
+
+        if (stoppedByUserRef.current) {
+          toast({
+            title: "Generation stopped",
+            description: "Kept the part of the response generated so far.",
+          });
+        }
       }
     } catch (error) {
       console.error('Error generating response:', error);
+      const failure = await toGenerationError(error);
+
+      if (streamedResponse) {
+        // Keep the partial response; it is real model output, just cut short
+        toast({
+          title: "Generation interrupted",
+          description: `${failure.message} The response was cut short. You can edit it or generate again.`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // No draft at all: the panel explains why and offers a retry instead of a canned reply
+      setGeneratedResponse("");
+      setGenerationError(failure);
       toast({
-        title: "Generation failed",
-        description: "Failed to generate response. Using fallback.",
+        title: getGenerationErrorTitle(failure.code),
+        description: failure.message,
         variant: "destructive"
       });
-      
-      // Fallback response
-      setGeneratedResponse("Thank you for your message! I understand your requirements and I'm here to help. Let me review the details and get back to you with a comprehensive response shortly.");
     } finally {
+      streamReaderRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const stopGeneration = () => {
+    stoppedByUserRef.current = true;
+    streamReaderRef.current?.cancel();
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -178,6 +491,39 @@ const FiverrChatBot = () => {
     });
   };
 
+  // Copying or saving the current response counts as sending it; the outcome is asked for later
+  const trackResponseUse = async (conversationId?: string | null) => {
+    if (usageGroupRef.current) {
+      if (conversationId) {
+        await linkConversation(usageGroupRef.current, conversationId);
+      }
+      return;
+    }
+
+    usageGroupRef.current = await logUsage({
+      templateIds: responseTemplateIds,
+      clientMessage,
+      conversationId
+    });
+    setUsageRefreshKey(key => key + 1);
+  };
+
+  const copyResponse = () => {
+    const unfilled = findUnfilledPlaceholders(generatedResponse);
+    if (unfilled.length > 0 && confirmedUnfilledRef.current !== generatedResponse) {
+      confirmedUnfilledRef.current = generatedResponse;
+      toast({
+        title: "Unfilled placeholders",
+        description: `${unfilled.map(name => `{{${name}}}`).join(', ')} still need values. Click copy again to copy anyway.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    copyToClipboard(generatedResponse);
+    trackResponseUse();
+  };
+
   const saveConversation = async () => {
     if (clientMessage && generatedResponse) {
       const newConversation: ChatMessage = {
@@ -185,17 +531,28 @@ const FiverrChatBot = () => {
         clientMessage,
         generatedResponse,
         timestamp: new Date(),
-        screenshotUrl,
+        attachments,
       };
       
       setConversations([newConversation, ...conversations]);
       
       // Save to database
-      await saveConversationToDb(clientMessage, generatedResponse, messageType, screenshotUrl);
+      const conversationId = await saveConversationToDb(
+        clientMessage,
+        generatedResponse,
+        messageType,
+        attachments.map(attachment => attachment.id)
+      );
+      await trackResponseUse(conversationId);
+      usageGroupRef.current = null;
+      setResponseTemplateIds([]);
+      setResponseSources([]);
+      setResponsePromptTemplate(null);
+      setResponseHistory({ past: [], future: [] });
       
       setClientMessage("");
       setGeneratedResponse("");
-      setScreenshotUrl("");
+      setAttachments([]);
       
       toast({
         title: "Conversation saved",
@@ -216,12 +573,14 @@ const FiverrChatBot = () => {
           original_response: generatedResponse,
           refined_response: editedResponse,
           message_type: messageType,
-          similarity_keywords: clientMessage.toLowerCase().split(' ').filter(word => word.length > 3)
+          similarity_keywords: clientMessage.toLowerCase().split(' ').filter(word => word.length > 3),
+          language: clientLanguage
         });
 
       if (error) throw error;
+      queueEmbeddingBackfill('refined_responses');
 
-      setGeneratedResponse(editedResponse);
+      replaceResponse(generatedResponse, editedResponse);
       setIsEditing(false);
       setEditedResponse("");
 
@@ -239,6 +598,137 @@ const FiverrChatBot = () => {
     }
   };
 
+  const selectDraft = async (selection: DraftSelection) => {
+    const defaultDraft = drafts[0]?.text || "";
+    const alternatives = drafts.map(draft => draft.text).filter(text => text !== selection.text);
+
+    setGeneratedResponse(selection.text);
+    setDrafts([]);
+
+    // The pick is stored as a refined response so it steers future generations
+    try {
+      const { error } = await supabase
+        .from('refined_responses')
+        .insert({
+          user_id: user?.id,
+          original_client_message: clientMessage,
+          original_response: defaultDraft,
+          refined_response: selection.text,
+          message_type: messageType,
+          similarity_keywords: clientMessage.toLowerCase().split(' ').filter(word => word.length > 3),
+          refinement_source: selection.source,
+          chosen_tone: selection.tone,
+          rejected_alternatives: alternatives,
+          language: clientLanguage
+        });
+
+      if (error) throw error;
+      queueEmbeddingBackfill('refined_responses');
+
+      toast({
+        title: selection.source === 'draft_merge' ? "Merged draft applied" : "Draft selected",
+        description: "Your choice will guide the style of similar future responses.",
+      });
+    } catch (error) {
+      console.error('Error recording draft preference:', error);
+    }
+  };
+
+  // Swap in a new version of the response, keeping the previous one for undo
+  const replaceResponse = (previous: string, next: string) => {
+    setResponseHistory(history => ({ past: [...history.past, previous], future: [] }));
+    setGeneratedResponse(next);
+  };
+
+  const undoResponse = () => {
+    if (responseHistory.past.length === 0) return;
+    setResponseHistory({
+      past: responseHistory.past.slice(0, -1),
+      future: [generatedResponse, ...responseHistory.future]
+    });
+    setGeneratedResponse(responseHistory.past[responseHistory.past.length - 1]);
+  };
+
+  const redoResponse = () => {
+    if (responseHistory.future.length === 0) return;
+    setResponseHistory({
+      past: [...responseHistory.past, generatedResponse],
+      future: responseHistory.future.slice(1)
+    });
+    setGeneratedResponse(responseHistory.future[0]);
+  };
+
+  const rewriteResponse = async (rewrite: string) => {
+    const text = generatedResponse;
+    setActiveRewrite(rewrite);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('gemini-chat', {
+        body: {
+          action: 'rewrite_draft',
+          rewrite,
+          draft: text
+        }
+      });
+
+      if (error) throw error;
+      if (!data.generatedResponse) throw new Error('Empty rewrite returned');
+
+      replaceResponse(text, data.generatedResponse);
+    } catch (error) {
+      console.error('Error rewriting response:', error);
+      toast({
+        title: "Rewrite failed",
+        description: "Could not rewrite the response. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setActiveRewrite(null);
+    }
+  };
+
+  const rewriteForCompliance = async (text: string, flagged: PolicyViolation[]) => {
+    setIsRewriting(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('gemini-chat', {
+        body: {
+          action: 'compliance_rewrite',
+          clientMessage,
+          draft: text,
+          violations: flagged.map(({ label, match }) => ({ label, match }))
+        }
+      });
+
+      if (error) throw error;
+
+      const rewritten: string = data.generatedResponse || text;
+      if (isEditing) {
+        setEditedResponse(rewritten);
+      } else {
+        replaceResponse(text, rewritten);
+      }
+
+      const remaining = checkCompliance(rewritten).length;
+      toast({
+        title: remaining === 0 ? "Response rewritten" : "Rewrite still has issues",
+        description: remaining === 0
+          ? "The flagged content was removed. Please review before sending."
+          : `${remaining} item${remaining !== 1 ? 's' : ''} still flagged. Edit manually or acknowledge.`,
+        variant: remaining === 0 ? undefined : "destructive"
+      });
+    } catch (error) {
+      console.error('Error rewriting response for compliance:', error);
+      toast({
+        title: "Rewrite failed",
+        description: "Could not rewrite the response. Please edit it manually.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
   const startEditing = () => {
     setEditedResponse(generatedResponse);
     setIsEditing(true);
@@ -249,20 +739,25 @@ const FiverrChatBot = () => {
     setEditedResponse("");
   };
 
-  const useTemplate = (content: string) => {
+  const useTemplate = (content: string, templateId?: string) => {
     setGeneratedResponse(content);
+    setResponseHistory({ past: [], future: [] });
+    setResponseTemplateIds(templateId ? [templateId] : []);
+    setResponseSources([]);
+    setResponsePromptTemplate(null);
+    usageGroupRef.current = null;
     toast({
       title: "Template applied",
       description: "Template content has been loaded.",
     });
   };
 
-  const handleScreenshotUploaded = (url: string) => {
-    setScreenshotUrl(url);
-  };
-
-  const removeScreenshot = () => {
-    setScreenshotUrl("");
+  const handleScreenshotText = (text: string) => {
+    setClientMessage(text);
+    toast({
+      title: "Client message extracted",
+      description: "Review the text read from the attachments before generating.",
+    });
   };
 
   return (
@@ -286,38 +781,125 @@ const FiverrChatBot = () => {
           {/* Left Column - Input and Templates */}
           <div className="lg:col-span-2 space-y-6">
           
-          {/* Message Type and Screenshot Upload */}
+          {/* Message Settings and Attachments */}
           <div className="grid md:grid-cols-2 gap-4">
             <Card className="shadow-soft">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Settings className="h-5 w-5" />
-                  Message Type
+                  Message Settings
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                <label className="text-sm font-medium mb-2 block">Client</label>
+                <select
+                  className="w-full p-2 border rounded-md"
+                  value={selectedClientId || ""}
+                  onChange={(e) => setSelectedClientId(e.target.value || null)}
+                >
+                  <option value="">No client profile</option>
+                  {clients.map(client => (
+                    <option key={client.id} value={client.id}>
+                      {client.name}{client.fiverr_username ? ` (@${client.fiverr_username})` : ''}
+                    </option>
+                  ))}
+                </select>
+                <label className="text-sm font-medium mt-4 mb-2 block">Message Type</label>
                 <select 
+
                   className="w-full p-2 border rounded-md"
                   value={messageType}
-                  onChange={(e) => setMessageType(e.target.value)}
+                  onChange={(e) => {
+                    messageTypeChosenRef.current = true;
+                    setMessageType(e.target.value);
+                  }}
+                >
+                  {messageTypes.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+                {isClassifying ? (
+                  <p className="text-xs text-muted-foreground mt-2">Detecting message type...</p>
+                ) : classification && (
+                  <div className="mt-2 space-y-1">
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge
+                        variant={classification.result.confidence >= LOW_CONFIDENCE ? "secondary" : "outline"}
+                        className="text-xs"
+                        title={classification.result.source === "llm" ? "Detected by the AI model" : "Detected by keyword rules"}
+                      >
+                        <Wand2 className="h-3 w-3 mr-1" />
+                        {getMessageTypeLabel(classification.result.messageType)} · {Math.round(classification.result.confidence * 100)}%
+                      </Badge>
+                      {classification.result.messageType !== messageType && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => setMessageType(classification.result.messageType)}
+                        >
+                          Use detected type
+                        </Button>
+                      )}
+                    </div>
+                    {classification.result.confidence < LOW_CONFIDENCE && (
+                      <p className="text-xs text-muted-foreground">Low confidence - check the type before generating.</p>
+                    )}
+                    {classification.result.intent && (
+                      <p className="text-xs text-muted-foreground">{classification.result.intent}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {classification.result.urgency !== "normal" && (
+                        <Badge variant={classification.result.urgency === "high" ? "destructive" : "outline"} className="text-xs">
+                          {classification.result.urgency === "high" ? "Urgent" : "No rush"}
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className="text-xs capitalize">{classification.result.sentiment}</Badge>
+                      <Badge variant="outline" className="text-xs">{getLanguageLabel(classification.result.language)}</Badge>
+                      {classification.result.deliverables.map(deliverable => (
+                        <Badge key={deliverable} variant="outline" className="text-xs font-normal">{deliverable}</Badge>
+                      ))}
+                    </div>
+                    {classification.result.language !== DEFAULT_LANGUAGE && (
+                      <label className="flex items-center gap-2 pt-1">
+                        <Switch checked={replyInClientLanguage} onCheckedChange={setReplyInClientLanguage} />
+                        <span className="text-xs">
+                          Reply in {getLanguageLabel(classification.result.language)} (you'll see an English translation)
+                        </span>
+                      </label>
+                    )}
+                  </div>
+                )}
+                <label className="text-sm font-medium mt-4 mb-2 block">Drafts to Generate</label>
+                <select
+                  className="w-full p-2 border rounded-md"
+                  value={draftCount}
+                  onChange={(e) => setDraftCount(Number(e.target.value))}
                 >
-                  <option value="greeting">Greeting</option>
-                  <option value="custom_offer">Custom Offer</option>
-                  <option value="revision">Revision Request</option>
-                  <option value="delivery">Delivery</option>
-                  <option value="timeline">Timeline Discussion</option>
-                  <option value="pricing">Pricing Question</option>
-                  <option value="question">General Question</option>
+                  <option value={1}>1 draft (streamed)</option>
+                  <option value={2}>2 drafts to compare</option>
+                  <option value={3}>3 drafts to compare</option>
+                  <option value={4}>4 drafts to compare</option>
                 </select>
               </CardContent>
             </Card>
             
-            <ScreenshotUpload 
-              onScreenshotUploaded={handleScreenshotUploaded}
-              currentScreenshot={screenshotUrl}
-              onRemoveScreenshot={removeScreenshot}
+            <AttachmentUpload
+              attachments={attachments}
+              onAttachmentsChange={setAttachments}
+              onTextExtracted={handleScreenshotText}
             />
           </div>
+          {QUOTE_MESSAGE_TYPES.includes(messageType) && (
+            <QuoteBuilder onQuoteChange={setQuote} />
+          )}
+          <ClientThreads
+            selectedThreadId={selectedThreadId}
+            onSelectThread={selectThread}
+            selectedClientId={selectedClientId}
+            refreshKey={threadRefreshKey}
+          />
+
           {/* Input Panel */}
           <Card className="shadow-soft transition-all duration-300 hover:shadow-elegant">
             <CardHeader>
@@ -334,6 +916,18 @@ const FiverrChatBot = () => {
                 className="min-h-[200px] resize-none"
               />
               
+              {(deescalationMode || (classification && isEscalationRisk(classification.result.riskScore))) && (
+                <EscalationRiskBanner
+                  riskScore={classification?.result.riskScore ?? 0}
+                  riskSignals={classification?.result.riskSignals || []}
+                  deescalationMode={deescalationMode}
+                  onDeescalationModeChange={(enabled) => {
+                    deescalationChosenRef.current = true;
+                    setDeescalationMode(enabled);
+                  }}
+                />
+              )}
+
               <div className="flex flex-wrap gap-2">
                 <Badge variant="secondary" className="text-xs">Tip: Copy entire client message</Badge>
                 <Badge variant="outline" className="text-xs">Maintain context</Badge>
@@ -365,6 +959,7 @@ const FiverrChatBot = () => {
                 <Sparkles className="h-5 w-5" />
                 Generated Response
                 {isEditing && <Badge variant="secondary" className="ml-2">Editing</Badge>}
+                {isGenerating && generatedResponse && <Badge variant="secondary" className="ml-2">Streaming</Badge>}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -376,30 +971,108 @@ const FiverrChatBot = () => {
                     className="min-h-[200px] resize-none border-0 bg-transparent p-0 focus-visible:ring-0"
                     placeholder="Edit and refine your response..."
                   />
+                ) : drafts.length > 0 ? (
+                  <DraftComparison
+                    drafts={drafts}
+                    onSelect={selectDraft}
+                    onDismiss={() => setDrafts([])}
+                  />
+                ) : generatedResponse && policyBlocked && !isGenerating ? (
+                  <PolicyHighlightedText text={generatedResponse} violations={violations} />
                 ) : generatedResponse ? (
                   <div className="text-foreground leading-relaxed prose prose-sm max-w-none prose-headings:text-foreground prose-p:text-foreground prose-strong:text-foreground prose-ul:text-foreground prose-ol:text-foreground prose-li:text-foreground prose-code:text-foreground prose-pre:bg-background prose-pre:text-foreground">
                     <ReactMarkdown remarkPlugins={[remarkGfm]}>
                       {generatedResponse}
                     </ReactMarkdown>
                   </div>
+                ) : generationError && !isGenerating ? (
+                  <GenerationErrorPanel
+                    error={generationError}
+                    onRetry={() => generateResponse()}
+                    onCopyFallback={copyToClipboard}
+                  />
                 ) : (
                   <p className="text-muted-foreground italic">
-                    {isGenerating ? "Generating professional response..." : "Your generated response will appear here"}
+                    {isGenerating
+                      ? draftCount > 1 ? `Generating ${draftCount} alternative drafts...` : "Generating professional response..."
+                      : "Your generated response will appear here"}
                   </p>
                 )}
               </div>
+
+              {generatedResponse && !isEditing && !isGenerating && drafts.length === 0 && (
+                <RewriteToolbar
+                  activeRewrite={activeRewrite}
+                  disabled={isRewriting}
+                  canUndo={responseHistory.past.length > 0}
+                  canRedo={responseHistory.future.length > 0}
+                  onRewrite={rewriteResponse}
+                  onUndo={undoResponse}
+                  onRedo={redoResponse}
+                />
+              )}
               
               <div className="flex flex-wrap gap-2">
-                <Badge variant="default" className="text-xs">Fiverr Policy Compliant</Badge>
+                {activeText && (
+                  activeViolations.length === 0 ? (
+                    <Badge variant="default" className="text-xs">Fiverr Policy Compliant</Badge>
+                  ) : activePolicyBlocked ? (
+                    <Badge variant="destructive" className="text-xs">
+                      {activeViolations.length} Policy Issue{activeViolations.length !== 1 ? 's' : ''}
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary" className="text-xs">Policy Flags Reviewed</Badge>
+                  )
+                )}
                 <Badge variant="outline" className="text-xs">Professional Tone</Badge>
                 {isEditing && <Badge variant="secondary" className="text-xs">Fine-tuning Mode</Badge>}
               </div>
+
+              {generatedResponse && drafts.length === 0 && (isTranslating || backTranslation?.source === generatedResponse.trim()) && (
+                <div className="border rounded-lg p-3 bg-muted/30 space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                    <Languages className="h-3 w-3" />
+                    English translation (for you, not sent to the client)
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap">
+                    {isTranslating ? "Translating..." : backTranslation?.text}
+                  </p>
+                </div>
+              )}
+
+              {responseSources.length > 0 && generatedResponse && drafts.length === 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Sources used</p>
+                  <div className="flex flex-wrap gap-1">
+                    {responseSources.map((source, idx) => (
+                      <Badge
+                        key={`${source.documentId}-${source.chunkIndex}`}
+                        variant="outline"
+                        className="text-xs font-normal"
+                        title={`${getKnowledgeSourceLabel(source.sourceType)} - ${Math.round(source.score * 100)}% match`}
+                      >
+                        [{idx + 1}] {source.title}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {activeViolations.length > 0 && !isGenerating && drafts.length === 0 && (
+                <PolicyCompliancePanel
+                  violations={activeViolations}
+                  acknowledged={!activePolicyBlocked}
+                  isRewriting={draftBusy}
+                  onRewrite={() => rewriteForCompliance(activeText, activeViolations)}
+                  onAcknowledge={() => setAcknowledgedText(activeText)}
+                />
+              )}
               
               {isEditing ? (
                 <div className="flex gap-2">
                   <Button
                     onClick={saveRefinedResponse}
-                    disabled={!editedResponse.trim()}
+                    disabled={!editedResponse.trim() || editPolicyBlocked}
                     className="flex-1 bg-success hover:bg-success/90 text-success-foreground"
                   >
                     <Save className="h-4 w-4 mr-2" />
@@ -414,19 +1087,30 @@ const FiverrChatBot = () => {
                 </div>
               ) : (
                 <div className="flex gap-2">
-                  <Button
-                    onClick={() => generateResponse()}
-                    disabled={!clientMessage || isGenerating}
-                    className="flex-1"
-                  >
-                    <Send className="h-4 w-4 mr-2" />
-                    {isGenerating ? "Generating..." : "Generate Response"}
-                  </Button>
+                  {isGenerating && draftCount === 1 ? (
+                    <Button
+                      variant="destructive"
+                      onClick={stopGeneration}
+                      className="flex-1"
+                    >
+                      <Square className="h-4 w-4 mr-2" />
+                      Stop Generating
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => generateResponse()}
+                      disabled={!clientMessage || isGenerating || draftBusy}
+                      className="flex-1"
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      {isGenerating ? "Generating..." : draftCount > 1 ? `Generate ${draftCount} Drafts` : "Generate Response"}
+                    </Button>
+                  )}
                   
                   <Button
                     variant="outline"
                     onClick={startEditing}
-                    disabled={!generatedResponse}
+                    disabled={!generatedResponse || isGenerating || draftBusy}
                     title="Fine-tune this response"
                   >
                     <Edit className="h-4 w-4" />
@@ -434,8 +1118,9 @@ const FiverrChatBot = () => {
                   
                   <Button
                     variant="outline"
-                    onClick={() => copyToClipboard(generatedResponse)}
-                    disabled={!generatedResponse}
+                    onClick={copyResponse}
+                    disabled={!generatedResponse || policyBlocked || draftBusy}
+                    title={policyBlocked ? "Resolve or acknowledge policy issues first" : undefined}
                   >
                     <Copy className="h-4 w-4" />
                   </Button>
@@ -443,7 +1128,8 @@ const FiverrChatBot = () => {
                   <Button
                     variant="default"
                     onClick={saveConversation}
-                    disabled={!clientMessage || !generatedResponse}
+                    disabled={!clientMessage || !generatedResponse || isGenerating || policyBlocked || draftBusy}
+                    title={policyBlocked ? "Resolve or acknowledge policy issues first" : undefined}
                     className="bg-success hover:bg-success/90 text-success-foreground"
                   >
                     Save
@@ -498,13 +1184,56 @@ const FiverrChatBot = () => {
                   >
                     Export
                   </Button>
+                  <Button
+                    variant={showClients ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setShowClients(!showClients)}
+                    className="text-xs"
+                  >
+                    Clients
+                  </Button>
+                  <Button
+                    variant={showGigs ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setShowGigs(!showGigs)}
+                    className="text-xs"
+                  >
+                    Gigs
+                  </Button>
+                  <Button
+                    variant={showKnowledge ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setShowKnowledge(!showKnowledge)}
+                    className="text-xs"
+                  >
+                    Knowledge
+                  </Button>
+                  <Button
+                    variant={showRefinements ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setShowRefinements(!showRefinements)}
+                    className="text-xs"
+                  >
+                    Refinements
+                  </Button>
+                  <Button
+                    variant={showPrompts ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setShowPrompts(!showPrompts)}
+                    className="text-xs"
+                  >
+                    Prompts
+                  </Button>
                 </div>
               </CardContent>
             </Card>
 
+            {/* Outcome follow-up for replies sent earlier */}
+            <TemplateOutcomePrompt refreshKey={usageRefreshKey} />
+
             {/* Template Manager */}
             {showTemplates && (
-              <TemplateManager onUseTemplate={useTemplate} />
+              <TemplateManager onUseTemplate={useTemplate} selectedClientId={selectedClientId} />
             )}
 
             {/* Conversation Search */}
@@ -521,6 +1250,34 @@ const FiverrChatBot = () => {
             {showExport && (
               <ExportData />
             )}
+
+            {/* Client CRM */}
+            {showClients && (
+              <ClientManager
+                onSelectClient={setSelectedClientId}
+                onClientsChanged={refreshClients}
+              />
+            )}
+
+            {/* Gig Catalogue */}
+            {showGigs && (
+              <GigManager />
+            )}
+
+            {/* Knowledge Base */}
+            {showKnowledge && (
+              <KnowledgeBaseManager />
+            )}
+
+            {/* Refinements and Style Rules */}
+            {showRefinements && (
+              <RefinementsManager />
+            )}
+
+            {/* Prompt Templates */}
+            {showPrompts && (
+              <PromptTemplateManager />
+            )}
             
             <Card className="shadow-soft">
               <CardHeader>
@@ -552,6 +1309,7 @@ const FiverrChatBot = () => {
                         <div className="text-xs line-clamp-3">
                           <strong>Response:</strong> {conversation.generatedResponse.substring(0, 120)}...
                         </div>
+                        <AttachmentThumbnails attachments={conversation.attachments} />
                       </div>
                     ))}
                   </div>
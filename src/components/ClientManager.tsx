@@ -0,0 +1,492 @@
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, Plus, Search, Edit, Trash2, ArrowLeft, MapPin, Clock, Wallet, MessageSquarePlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useClients, type ClientProfile, type ClientProfileInput, type PastOrder } from '@/hooks/useClients';
+import { toneStyles, getToneLabel } from '@/lib/toneStyles';
+
+interface ClientManagerProps {
+  onSelectClient?: (clientId: string) => void;
+  onClientsChanged?: () => void;
+}
+
+const clientTypes = [
+  { value: "business", label: "Business" },
+  { value: "startup", label: "Startup" },
+  { value: "individual", label: "Individual" },
+  { value: "agency", label: "Agency" },
+  { value: "enterprise", label: "Enterprise" }
+];
+
+const NOT_SET = "not_set";
+
+const emptyForm: ClientProfileInput = {
+  name: "",
+  fiverr_username: null,
+  country: null,
+  timezone: null,
+  client_type: null,
+  budget_min: null,
+  budget_max: null,
+  currency: "USD",
+  preferred_tone: null,
+  notes: null,
+  past_orders: []
+};
+
+const emptyOrder: PastOrder = { order_id: "", title: "", amount: null, status: "completed", date: "" };
+
+const formatBudget = (client: Pick<ClientProfile, 'budget_min' | 'budget_max' | 'currency'>) => {
+  if (client.budget_min == null && client.budget_max == null) return null;
+  if (client.budget_min != null && client.budget_max != null) {
+    return `${client.budget_min}–${client.budget_max} ${client.currency}`;
+  }
+  return client.budget_min != null
+    ? `from ${client.budget_min} ${client.currency}`
+    : `up to ${client.budget_max} ${client.currency}`;
+};
+
+const localTime = (timezone: string) => {
+  try {
+    return new Date().toLocaleTimeString([], { timeZone: timezone, hour: '2-digit', minute: '2-digit' });
+  } catch {
+    // Free-text timezone that Intl doesn't recognise
+    return null;
+  }
+};
+
+export const ClientManager = ({ onSelectClient, onClientsChanged }: ClientManagerProps) => {
+  const { clients, loading, saveClient, deleteClient } = useClients();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [viewingClientId, setViewingClientId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingClientId, setEditingClientId] = useState<string | null>(null);
+  const [form, setForm] = useState<ClientProfileInput>(emptyForm);
+  const { toast } = useToast();
+
+  const viewingClient = clients.find(client => client.id === viewingClientId) || null;
+
+  const filteredClients = useMemo(() => {
+    if (!searchQuery.trim()) return clients;
+
+    const query = searchQuery.toLowerCase();
+    return clients.filter(client =>
+      client.name.toLowerCase().includes(query) ||
+      client.fiverr_username?.toLowerCase().includes(query) ||
+      client.country?.toLowerCase().includes(query) ||
+      client.notes?.toLowerCase().includes(query)
+    );
+  }, [clients, searchQuery]);
+
+  const updateForm = <K extends keyof ClientProfileInput>(key: K, value: ClientProfileInput[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const updateOrder = (index: number, updates: Partial<PastOrder>) => {
+    updateForm('past_orders', form.past_orders.map((order, i) => i === index ? { ...order, ...updates } : order));
+  };
+
+  const openNewClient = () => {
+    setEditingClientId(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditClient = (client: ClientProfile) => {
+    const { id, user_id, created_at, updated_at, template_values, ...input } = client;
+    setEditingClientId(id);
+    setForm(input);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Missing name",
+        description: "Please enter the client's name.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const saved = await saveClient({
+      ...form,
+      name: form.name.trim(),
+      past_orders: form.past_orders.filter(order => order.order_id.trim() || order.title.trim())
+    }, editingClientId || undefined);
+
+    if (!saved) {
+      toast({
+        title: "Error",
+        description: "Failed to save client.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: editingClientId ? "Client updated" : "Client added",
+      description: `${saved.name} has been saved.`
+    });
+    setIsDialogOpen(false);
+    setViewingClientId(saved.id);
+    onClientsChanged?.();
+  };
+
+  const handleDelete = async (client: ClientProfile) => {
+    if (!(await deleteClient(client.id))) {
+      toast({
+        title: "Error",
+        description: "Failed to delete client.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Client deleted",
+      description: `${client.name} has been removed.`
+    });
+    setViewingClientId(null);
+    onClientsChanged?.();
+  };
+
+  const renderDetail = (client: ClientProfile) => {
+    const orderAmounts = client.past_orders.map(order => order.amount).filter((amount): amount is number => amount != null);
+    const averageOrder = orderAmounts.length > 0
+      ? Math.round(orderAmounts.reduce((sum, amount) => sum + amount, 0) / orderAmounts.length)
+      : null;
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => setViewingClientId(null)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All clients
+          </Button>
+          <div className="flex gap-1">
+            {onSelectClient && (
+              <Button variant="ghost" size="sm" onClick={() => onSelectClient(client.id)} title="Use in chat">
+                <MessageSquarePlus className="h-3 w-3" />
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => openEditClient(client)} title="Edit client">
+              <Edit className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(client)}
+              title="Delete client"
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-medium">{client.name}</h4>
+          {client.fiverr_username && <p className="text-xs text-muted-foreground">@{client.fiverr_username}</p>}
+        </div>
+
+        <div className="flex gap-2 flex-wrap">
+          {client.client_type && <Badge variant="outline" className="text-xs capitalize">{client.client_type}</Badge>}
+          {client.preferred_tone && <Badge variant="secondary" className="text-xs">{getToneLabel(client.preferred_tone)}</Badge>}
+        </div>
+
+        <div className="space-y-1 text-sm">
+          {(client.country || client.timezone) && (
+            <p className="flex items-center gap-2">
+              <MapPin className="h-3 w-3 text-muted-foreground" />
+              {[client.country, client.timezone].filter(Boolean).join(' · ')}
+            </p>
+          )}
+          {client.timezone && localTime(client.timezone) && (
+            <p className="flex items-center gap-2">
+              <Clock className="h-3 w-3 text-muted-foreground" />
+              Local time: {localTime(client.timezone)}
+            </p>
+          )}
+          {formatBudget(client) && (
+            <p className="flex items-center gap-2">
+              <Wallet className="h-3 w-3 text-muted-foreground" />
+              Budget: {formatBudget(client)}
+            </p>
+          )}
+        </div>
+
+        {client.notes && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Notes</p>
+            <p className="text-sm bg-muted p-2 rounded whitespace-pre-wrap">{client.notes}</p>
+          </div>
+        )}
+
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">
+            Order History ({client.past_orders.length}{averageOrder != null ? ` · avg ${averageOrder} ${client.currency}` : ''})
+          </p>
+          {client.past_orders.length > 0 ? (
+            <div className="space-y-1">
+              {client.past_orders.map((order, index) => (
+                <div key={index} className="flex items-center justify-between text-xs border rounded p-2">
+                  <span className="truncate">
+                    {order.title || order.order_id}
+                    {order.date && <span className="text-muted-foreground"> · {order.date}</span>}
+                  </span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    {order.amount != null && <span>{order.amount} {client.currency}</span>}
+                    <Badge variant="outline" className="text-xs">{order.status}</Badge>
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">No past orders recorded</p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Clients
+            <Badge variant="secondary" className="ml-2">
+              {clients.length}
+            </Badge>
+          </CardTitle>
+          <Button size="sm" onClick={openNewClient}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Client
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {viewingClient ? renderDetail(viewingClient) : (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, username, country or notes..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Loading clients...</p>
+            ) : filteredClients.length > 0 ? (
+              <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                {filteredClients.map(client => (
+                  <button
+                    key={client.id}
+                    onClick={() => setViewingClientId(client.id)}
+                    className="w-full text-left border rounded-lg p-3 hover:bg-muted/30 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm">{client.name}</span>
+                      {client.client_type && <Badge variant="outline" className="text-xs capitalize">{client.client_type}</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {[client.fiverr_username && `@${client.fiverr_username}`, client.country, formatBudget(client)]
+                        .filter(Boolean)
+                        .join(' · ') || 'No details yet'}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <Users className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">{searchQuery ? "No clients match your search" : "No clients yet"}</p>
+                <p className="text-xs mt-1">Client profiles personalise every generated response</p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingClientId ? "Edit Client" : "New Client"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Name</label>
+                <Input value={form.name} onChange={(e) => updateForm('name', e.target.value)} placeholder="Client name" />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Fiverr Username</label>
+                <Input
+                  value={form.fiverr_username || ""}
+                  onChange={(e) => updateForm('fiverr_username', e.target.value || null)}
+                  placeholder="e.g., acme_marketing"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Country</label>
+                <Input value={form.country || ""} onChange={(e) => updateForm('country', e.target.value || null)} placeholder="e.g., Germany" />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Timezone</label>
+                <Input
+                  value={form.timezone || ""}
+                  onChange={(e) => updateForm('timezone', e.target.value || null)}
+                  placeholder="e.g., Europe/Berlin"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Client Type</label>
+                <Select
+                  value={form.client_type || NOT_SET}
+                  onValueChange={(value) => updateForm('client_type', value === NOT_SET ? null : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_SET}>Not set</SelectItem>
+                    {clientTypes.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Preferred Tone</label>
+                <Select
+                  value={form.preferred_tone || NOT_SET}
+                  onValueChange={(value) => updateForm('preferred_tone', value === NOT_SET ? null : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_SET}>Not set</SelectItem>
+                    {toneStyles.map(tone => (
+                      <SelectItem key={tone.value} value={tone.value}>{tone.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Budget Min</label>
+                <Input
+                  type="number"
+                  value={form.budget_min ?? ""}
+                  onChange={(e) => updateForm('budget_min', e.target.value ? Number(e.target.value) : null)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Budget Max</label>
+                <Input
+                  type="number"
+                  value={form.budget_max ?? ""}
+                  onChange={(e) => updateForm('budget_max', e.target.value ? Number(e.target.value) : null)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Currency</label>
+                <Input value={form.currency} onChange={(e) => updateForm('currency', e.target.value.toUpperCase())} maxLength={3} />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-2 block">Notes</label>
+              <Textarea
+                value={form.notes || ""}
+                onChange={(e) => updateForm('notes', e.target.value || null)}
+                placeholder="Communication preferences, past issues, what they care about..."
+                className="min-h-[80px]"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Past Orders</label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateForm('past_orders', [...form.past_orders, { ...emptyOrder }])}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Order
+                </Button>
+              </div>
+              {form.past_orders.map((order, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <Input
+                    className="col-span-3"
+                    placeholder="Order ID"
+                    value={order.order_id}
+                    onChange={(e) => updateOrder(index, { order_id: e.target.value })}
+                  />
+                  <Input
+                    className="col-span-4"
+                    placeholder="Title"
+                    value={order.title}
+                    onChange={(e) => updateOrder(index, { title: e.target.value })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    placeholder="Amount"
+                    value={order.amount ?? ""}
+                    onChange={(e) => updateOrder(index, { amount: e.target.value ? Number(e.target.value) : null })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="date"
+                    value={order.date}
+                    onChange={(e) => updateOrder(index, { date: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1 text-destructive hover:text-destructive"
+                    onClick={() => updateForm('past_orders', form.past_orders.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave}>
+                {editingClientId ? "Update" : "Save"} Client
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
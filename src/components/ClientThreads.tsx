@@ -0,0 +1,301 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessagesSquare, Plus, User, Bot } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ClientThread {
+  id: string;
+  client_name: string;
+  fiverr_order_id: string | null;
+  client_id: string | null;
+  status: string;
+  updated_at: string;
+}
+
+interface ThreadMessage {
+  id: string;
+  client_message: string;
+  bot_response: string;
+  created_at: string;
+}
+
+interface ClientThreadsProps {
+  selectedThreadId: string | null;
+  onSelectThread: (threadId: string | null, thread: ClientThread | null) => void;
+  selectedClientId?: string | null;
+  refreshKey?: number;
+}
+
+const NO_THREAD = "none";
+
+const threadStatuses = [
+  { value: "open", label: "Open" },
+  { value: "in_progress", label: "In Progress" },
+  { value: "delivered", label: "Delivered" },
+  { value: "completed", label: "Completed" },
+  { value: "cancelled", label: "Cancelled" }
+];
+
+export const ClientThreads = ({ selectedThreadId, onSelectThread, selectedClientId = null, refreshKey = 0 }: ClientThreadsProps) => {
+  const [threads, setThreads] = useState<ClientThread[]>([]);
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [clientName, setClientName] = useState("");
+  const [orderId, setOrderId] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const selectedThread = threads.find(thread => thread.id === selectedThreadId) || null;
+
+  useEffect(() => {
+    if (user) {
+      loadThreads();
+    }
+  }, [user, refreshKey]);
+
+  useEffect(() => {
+    if (selectedThreadId) {
+      loadThreadMessages(selectedThreadId);
+    } else {
+      setMessages([]);
+    }
+  }, [selectedThreadId, refreshKey]);
+
+  const loadThreads = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('client_threads')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading client threads:', error);
+        return;
+      }
+
+      setThreads(data || []);
+    } catch (error) {
+      console.error('Error loading client threads:', error);
+    }
+  };
+
+  const loadThreadMessages = async (threadId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('id, client_message, bot_response, created_at')
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading thread messages:', error);
+        return;
+      }
+
+      setMessages(data || []);
+    } catch (error) {
+      console.error('Error loading thread messages:', error);
+    }
+  };
+
+  const createThread = async () => {
+    if (!user || !clientName.trim()) {
+      toast({
+        title: "Missing client name",
+        description: "Please enter the client's name.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('client_threads')
+        .insert({
+          user_id: user.id,
+          client_name: clientName.trim(),
+          fiverr_order_id: orderId.trim() || null,
+          client_id: selectedClientId
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setClientName("");
+      setOrderId("");
+      setIsDialogOpen(false);
+      await loadThreads();
+      onSelectThread(data.id, data);
+
+      toast({
+        title: "Thread created",
+        description: `New thread started with ${data.client_name}.`
+      });
+    } catch (error) {
+      console.error('Error creating client thread:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create thread.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateStatus = async (status: string) => {
+    if (!selectedThread) return;
+
+    try {
+      const { error } = await supabase
+        .from('client_threads')
+        .update({ status })
+        .eq('id', selectedThread.id);
+
+      if (error) throw error;
+
+      setThreads(threads.map(thread => thread.id === selectedThread.id ? { ...thread, status } : thread));
+    } catch (error) {
+      console.error('Error updating thread status:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update thread status.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MessagesSquare className="h-5 w-5" />
+            Client Thread
+            {messages.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {messages.length} message{messages.length !== 1 ? 's' : ''}
+              </Badge>
+            )}
+          </CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" variant="outline">
+                <Plus className="h-4 w-4 mr-2" />
+                New Thread
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Start a Client Thread</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Client Name</label>
+                  <Input
+                    placeholder="e.g., Sarah from Acme Co."
+                    value={clientName}
+                    onChange={(e) => setClientName(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Fiverr Order ID (optional)</label>
+                  <Input
+                    placeholder="e.g., FO81A2B3C4D5"
+                    value={orderId}
+                    onChange={(e) => setOrderId(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={createThread}>
+                    Create Thread
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Select
+            value={selectedThreadId || NO_THREAD}
+            onValueChange={(value) => onSelectThread(
+              value === NO_THREAD ? null : value,
+              threads.find(thread => thread.id === value) || null
+            )}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_THREAD}>No thread (one-off message)</SelectItem>
+              {threads.map(thread => (
+                <SelectItem key={thread.id} value={thread.id}>
+                  {thread.client_name}{thread.fiverr_order_id ? ` · #${thread.fiverr_order_id}` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {selectedThread && (
+            <Select value={selectedThread.status} onValueChange={updateStatus}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {threadStatuses.map(status => (
+                  <SelectItem key={status.value} value={status.value}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {selectedThread && (
+          messages.length > 0 ? (
+            <div className="space-y-3 max-h-[400px] overflow-y-auto">
+              {messages.map((message) => (
+                <div key={message.id} className="space-y-2">
+                  <div className="flex gap-2 items-start">
+                    <User className="h-4 w-4 mt-1 text-muted-foreground shrink-0" />
+                    <div className="text-sm bg-muted p-2 rounded whitespace-pre-wrap flex-1">
+                      {message.client_message}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 items-start">
+                    <Bot className="h-4 w-4 mt-1 text-primary shrink-0" />
+                    <div className="text-sm bg-primary/5 p-2 rounded whitespace-pre-wrap flex-1">
+                      {message.bot_response}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground text-right">
+                    {new Date(message.created_at).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No messages in this thread yet. Saved replies will appear here and be used as context.
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
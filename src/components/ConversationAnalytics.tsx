@@ -1,10 +1,39 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { TrendingUp, MessageCircle, Clock, Target } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
+import { TrendingUp, MessageCircle, Clock, Target, Star, AlertTriangle } from "lucide-react";
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { templateOutcomes } from '@/lib/templateOutcomes';
+import { isEscalationRisk } from '@/lib/messageClassification';
+
+interface TemplatePerformance {
+  name: string;
+  uses: number;
+  order_won: number;
+  revision: number;
+  no_reply: number;
+  conversionRate: number | null;
+  successRating: number | null;
+}
+
+interface RiskyConversation {
+  id: string;
+  clientMessage: string;
+  riskScore: number;
+  riskSignals: string[];
+  deescalated: boolean;
+  date: string;
+}
+
+interface EscalationRisk {
+  daily: { date: string; risky: number; other: number }[];
+  signals: { name: string; count: number }[];
+  recent: RiskyConversation[];
+  // Conversations that were scored at all; older ones predate risk detection
+  scored: number;
+}
 
 interface AnalyticsData {
   totalConversations: number;
@@ -12,6 +41,8 @@ interface AnalyticsData {
   dailyActivity: { date: string; conversations: number }[];
   averageResponseLength: number;
   mostActiveHour: number;
+  templatePerformance: TemplatePerformance[];
+  escalationRisk: EscalationRisk;
 }
 
 const MESSAGE_TYPE_COLORS = {
@@ -24,6 +55,91 @@ const MESSAGE_TYPE_COLORS = {
   question: '#6366F1'
 };
 
+const TEMPLATE_WINDOW_DAYS = 90;
+const MAX_TEMPLATES_CHARTED = 8;
+const MAX_RISKY_LISTED = 5;
+
+type TemplateUsageRow = {
+  template_id: string | null;
+  conversion_outcome: string | null;
+  message_templates: { title: string; success_rating: number | null } | null;
+};
+
+const summarizeTemplateUsage = (rows: TemplateUsageRow[]): TemplatePerformance[] => {
+  const byTemplate = new Map<string, TemplatePerformance>();
+
+  rows.forEach(row => {
+    const key = row.template_id || 'generated';
+    const entry = byTemplate.get(key) || {
+      name: row.message_templates?.title || 'Generated (no template)',
+      uses: 0,
+      order_won: 0,
+      revision: 0,
+      no_reply: 0,
+      conversionRate: null,
+      successRating: row.message_templates?.success_rating ?? null
+    };
+    entry.uses += 1;
+    if (row.conversion_outcome === 'order_won' || row.conversion_outcome === 'revision' || row.conversion_outcome === 'no_reply') {
+      entry[row.conversion_outcome] += 1;
+    }
+    byTemplate.set(key, entry);
+  });
+
+  return [...byTemplate.values()]
+    .map(entry => {
+      const withOutcome = entry.order_won + entry.revision + entry.no_reply;
+      return { ...entry, conversionRate: withOutcome > 0 ? Math.round((entry.order_won / withOutcome) * 100) : null };
+    })
+    .sort((a, b) => b.uses - a.uses)
+    .slice(0, MAX_TEMPLATES_CHARTED);
+};
+
+type RiskRow = {
+  id: string;
+  client_message: string;
+  created_at: string;
+  risk_score: number | null;
+  risk_signals: string[];
+  deescalation_mode: boolean;
+};
+
+const summarizeEscalationRisk = (rows: RiskRow[]): EscalationRisk => {
+  const daily = new Map<string, { risky: number; other: number }>();
+  const signalCounts: Record<string, number> = {};
+  const risky = rows.filter(row => isEscalationRisk(row.risk_score));
+
+  rows.filter(row => row.risk_score !== null).forEach(row => {
+    const date = new Date(row.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const entry = daily.get(date) || { risky: 0, other: 0 };
+    if (isEscalationRisk(row.risk_score)) {
+      entry.risky += 1;
+      row.risk_signals.forEach(signal => {
+        signalCounts[signal] = (signalCounts[signal] || 0) + 1;
+      });
+    } else {
+      entry.other += 1;
+    }
+    daily.set(date, entry);
+  });
+
+  return {
+    daily: [...daily.entries()].map(([date, counts]) => ({ date, ...counts })),
+    signals: Object.entries(signalCounts)
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count),
+    recent: risky.slice(-MAX_RISKY_LISTED).reverse().map(row => ({
+      id: row.id,
+      clientMessage: row.client_message,
+      riskScore: Number(row.risk_score),
+      riskSignals: row.risk_signals,
+      deescalated: row.deescalation_mode,
+      date: new Date(row.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    })),
+    scored: rows.filter(row => row.risk_score !== null).length
+  };
+};
+
 export const ConversationAnalytics = () => {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -45,25 +161,43 @@ export const ConversationAnalytics = () => {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
       
-      const { data: conversations, error } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('created_at', thirtyDaysAgo.toISOString())
-        .order('created_at', { ascending: true });
+      const templateWindowStart = new Date();
+      templateWindowStart.setDate(templateWindowStart.getDate() - TEMPLATE_WINDOW_DAYS);
+
+      const [{ data: conversations, error }, { data: templateUsage, error: templateUsageError }] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('*')
+          .eq('user_id', user.id)
+          .gte('created_at', thirtyDaysAgo.toISOString())
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('template_analytics')
+          .select('template_id, conversion_outcome, message_templates(title, success_rating)')
+          .eq('user_id', user.id)
+          .gte('used_at', templateWindowStart.toISOString())
+      ]);
 
       if (error) {
         console.error('Error loading analytics:', error);
         return;
       }
 
+      if (templateUsageError) {
+        console.error('Error loading template analytics:', templateUsageError);
+      }
+
+      const templatePerformance = summarizeTemplateUsage(templateUsage || []);
+
       if (!conversations) {
         setAnalytics({
           totalConversations: 0,
           messageTypes: [],
           dailyActivity: [],
           averageResponseLength: 0,
-          mostActiveHour: 0
+          mostActiveHour: 0,
+          templatePerformance,
+          escalationRisk: summarizeEscalationRisk([])
         });
         return;
       }
@@ -118,7 +252,9 @@ export const ConversationAnalytics = () => {
         messageTypes,
         dailyActivity,
         averageResponseLength,
-        mostActiveHour
+        mostActiveHour,
+        templatePerformance,
+        escalationRisk: summarizeEscalationRisk(conversations)
       });
 
     } catch (error) {
@@ -268,6 +404,112 @@ export const ConversationAnalytics = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Escalation Risk */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+            Escalation Risk (Last 30 Days)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {analytics.escalationRisk.scored > 0 ? (
+            <div className="space-y-4">
+              <ResponsiveContainer width="100%" height={200}>
+                <BarChart data={analytics.escalationRisk.daily}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Bar dataKey="risky" name="Risky" stackId="risk" fill="hsl(var(--destructive))" />
+                  <Bar dataKey="other" name="Calm" stackId="risk" fill="hsl(var(--muted-foreground))" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+              {analytics.escalationRisk.signals.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {analytics.escalationRisk.signals.map(signal => (
+                    <Badge key={signal.name} variant="outline" className="text-xs">
+                      {signal.name} ({signal.count})
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {analytics.escalationRisk.recent.length > 0 ? (
+                <div className="space-y-2">
+                  {analytics.escalationRisk.recent.map(conversation => (
+                    <div key={conversation.id} className="border rounded-lg p-2 text-xs space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-muted-foreground">{conversation.date}</span>
+                        <div className="flex gap-1">
+                          {conversation.deescalated && <Badge variant="secondary" className="text-xs">De-escalated</Badge>}
+                          <Badge variant="destructive" className="text-xs">{Math.round(conversation.riskScore * 100)}% risk</Badge>
+                        </div>
+                      </div>
+                      <p className="line-clamp-2">{conversation.clientMessage}</p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No risky conversations in this period.</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Risk is scored for new client messages. Saved conversations will show up here.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Template Effectiveness */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Template Outcomes (Last {TEMPLATE_WINDOW_DAYS} Days)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {analytics.templatePerformance.length > 0 ? (
+            <div className="space-y-4">
+              <ResponsiveContainer width="100%" height={Math.max(160, analytics.templatePerformance.length * 40)}>
+                <BarChart data={analytics.templatePerformance} layout="vertical" margin={{ left: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+                  <Tooltip />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {templateOutcomes.map(outcome => (
+                    <Bar key={outcome.value} dataKey={outcome.value} name={outcome.label} stackId="outcomes" fill={outcome.color} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+              <div className="space-y-2">
+                {analytics.templatePerformance.map((template, index) => (
+                  <div key={index} className="flex items-center justify-between text-xs">
+                    <span className="truncate mr-2">{template.name}</span>
+                    <div className="flex gap-2 shrink-0">
+                      <Badge variant="outline" className="text-xs">{template.uses} uses</Badge>
+                      <Badge variant="outline" className="text-xs">
+                        {template.conversionRate !== null ? `${template.conversionRate}% won` : 'No outcomes yet'}
+                      </Badge>
+                      {template.successRating !== null && (
+                        <Badge variant="secondary" className="text-xs">
+                          <Star className="h-3 w-3 mr-1" />
+                          {Number(template.successRating).toFixed(1)}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Copy or save replies to start tracking outcomes. You'll be asked how each one went.
+            </p>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
\ No newline at end of file
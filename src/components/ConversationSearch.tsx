@@ -8,6 +8,9 @@ import { Search, Filter, Copy, Calendar, MessageCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import type { MessageAttachment } from '@/lib/attachments';
+import { DEFAULT_LANGUAGE, getLanguageLabel } from '@/lib/languages';
+import { AttachmentThumbnails } from './AttachmentThumbnails';
 
 interface SearchableConversation {
   id: string;
@@ -16,6 +19,8 @@ interface SearchableConversation {
   message_type: string;
   created_at: string;
   screenshot_url?: string;
+  language?: string | null;
+  conversation_attachments?: MessageAttachment[];
 }
 
 interface ConversationSearchProps {
@@ -28,6 +33,8 @@ export const ConversationSearch = ({ onUseResponse }: ConversationSearchProps) =
   const [messageTypeFilter, setMessageTypeFilter] = useState<string>("all");
   const [dateFilter, setDateFilter] = useState<string>("all");
   const [loading, setLoading] = useState(true);
+  // Ids matched by full-text search, which stems words in each conversation's language
+  const [textMatchIds, setTextMatchIds] = useState<Set<string>>(new Set());
   const { user } = useAuth();
   const { toast } = useToast();
 
@@ -44,7 +51,7 @@ export const ConversationSearch = ({ onUseResponse }: ConversationSearchProps) =
       setLoading(true);
       const { data, error } = await supabase
         .from('conversations')
-        .select('*')
+        .select('*, conversation_attachments(id, storage_path, file_name, mime_type, size_bytes)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -61,6 +68,33 @@ export const ConversationSearch = ({ onUseResponse }: ConversationSearchProps) =
     }
   };
 
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!user || query.length < 3) {
+      setTextMatchIds(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('search_conversations', {
+        user_id_param: user.id,
+        query_param: query
+      });
+      if (cancelled) return;
+      if (error) {
+        console.error('Error searching conversations:', error);
+        return;
+      }
+      setTextMatchIds(new Set((data || []).map(match => match.id)));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, user]);
+
   const filteredConversations = useMemo(() => {
     return conversations.filter(conv => {
       // Search query filter
@@ -68,7 +102,7 @@ export const ConversationSearch = ({ onUseResponse }: ConversationSearchProps) =
         const query = searchQuery.toLowerCase();
         const matchesClientMessage = conv.client_message.toLowerCase().includes(query);
         const matchesBotResponse = conv.bot_response.toLowerCase().includes(query);
-        if (!matchesClientMessage && !matchesBotResponse) {
+        if (!matchesClientMessage && !matchesBotResponse && !textMatchIds.has(conv.id)) {
           return false;
         }
       }
@@ -100,7 +134,7 @@ export const ConversationSearch = ({ onUseResponse }: ConversationSearchProps) =
 
       return true;
     });
-  }, [conversations, searchQuery, messageTypeFilter, dateFilter]);
+  }, [conversations, searchQuery, messageTypeFilter, dateFilter, textMatchIds]);
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -204,6 +238,9 @@ export const ConversationSearch = ({ onUseResponse }: ConversationSearchProps) =
                     <Badge variant="outline" className="text-xs">
                       {conversation.message_type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
                     </Badge>
+                    {conversation.language && conversation.language !== DEFAULT_LANGUAGE && (
+                      <Badge variant="secondary" className="text-xs">{getLanguageLabel(conversation.language)}</Badge>
+                    )}
                     <span className="text-xs text-muted-foreground">
                       {new Date(conversation.created_at).toLocaleDateString()}
                     </span>
@@ -246,6 +283,13 @@ export const ConversationSearch = ({ onUseResponse }: ConversationSearchProps) =
                       {highlightText(conversation.bot_response, searchQuery)}
                     </p>
                   </div>
+
+                  {conversation.conversation_attachments?.length > 0 && (
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">Attachments:</p>
+                      <AttachmentThumbnails attachments={conversation.conversation_attachments} size="md" />
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
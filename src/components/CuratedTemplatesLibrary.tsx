@@ -9,6 +9,10 @@ import { Library, Search, Copy, Plus, Star, Filter } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { toneStyles } from '@/lib/toneStyles';
+import { queueEmbeddingBackfill } from '@/lib/embeddings';
+import { parseTemplateVariables, previewTemplate } from '@/lib/templateVariables';
+import { TemplateVariableDialog } from './TemplateVariableDialog';
 
 interface CuratedTemplate {
   id: string;
@@ -27,10 +31,12 @@ interface CuratedTemplate {
 interface CuratedTemplatesLibraryProps {
   onUseTemplate: (content: string) => void;
   onAddToPersonal: (template: CuratedTemplate) => void;
+  selectedClientId?: string | null;
 }
 
-export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: CuratedTemplatesLibraryProps) => {
+export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal, selectedClientId = null }: CuratedTemplatesLibraryProps) => {
   const [templates, setTemplates] = useState<CuratedTemplate[]>([]);
+  const [fillingTemplate, setFillingTemplate] = useState<CuratedTemplate | null>(null);
   const [filteredTemplates, setFilteredTemplates] = useState<CuratedTemplate[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
@@ -50,14 +56,9 @@ export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: Cura
     { value: "issue_resolution", label: "Issue Resolution" }
   ];
 
-  const toneStyles = [
+  const toneFilters = [
     { value: "all", label: "All Tones" },
-    { value: "professional", label: "Professional" },
-    { value: "warm", label: "Warm & Friendly" },
-    { value: "consultative", label: "Consultative" },
-    { value: "collaborative", label: "Collaborative" },
-    { value: "efficient", label: "Direct & Efficient" },
-    { value: "premium", label: "Premium Service" }
+    ...toneStyles
   ];
 
   const complexityLevels = [
@@ -172,6 +173,7 @@ export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: Cura
       });
 
       onAddToPersonal(template);
+      queueEmbeddingBackfill('message_templates');
     } catch (error) {
       console.error('Error adding template to personal library:', error);
       toast({
@@ -182,17 +184,21 @@ export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: Cura
     }
   };
 
-  const processTemplateVariables = (content: string, variables: any) => {
-    let processed = content;
-    
-    // Replace template variables with placeholder text
-    Object.keys(variables).forEach(key => {
-      const placeholder = `{{${key}}}`;
-      const replacement = `[${key.replace(/_/g, ' ').toUpperCase()}]`;
-      processed = processed.replace(new RegExp(placeholder, 'g'), replacement);
-    });
-    
-    return processed;
+  // Templates with {{placeholders}} open the fill-in form; the rest are used as-is
+  const insertTemplate = (template: CuratedTemplate) => {
+    if (parseTemplateVariables(template.template_content, template.template_variables).length > 0) {
+      setFillingTemplate(template);
+    } else {
+      onUseTemplate(template.template_content);
+    }
+  };
+
+  const copyTemplate = (template: CuratedTemplate) => {
+    if (parseTemplateVariables(template.template_content, template.template_variables).length > 0) {
+      setFillingTemplate(template);
+    } else {
+      copyToClipboard(template.template_content);
+    }
   };
 
   const getIndustryColor = (tags: string[]) => {
@@ -265,7 +271,7 @@ export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: Cura
                 <SelectValue placeholder="Tone" />
               </SelectTrigger>
               <SelectContent>
-                {toneStyles.map(tone => (
+                {toneFilters.map(tone => (
                   <SelectItem key={tone.value} value={tone.value}>
                     {tone.label}
                   </SelectItem>
@@ -329,7 +335,7 @@ export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: Cura
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => onUseTemplate(processTemplateVariables(template.template_content, template.template_variables))}
+                      onClick={() => insertTemplate(template)}
                       title="Use template"
                     >
                       <Copy className="h-3 w-3" />
@@ -337,7 +343,7 @@ export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: Cura
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => copyToClipboard(processTemplateVariables(template.template_content, template.template_variables))}
+                      onClick={() => copyTemplate(template)}
                       title="Copy to clipboard"
                     >
                       <Copy className="h-3 w-3" />
@@ -355,7 +361,7 @@ export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: Cura
                 
                 <div className="bg-muted/50 rounded p-3">
                   <p className="text-xs text-muted-foreground line-clamp-3">
-                    {processTemplateVariables(template.template_content, template.template_variables)}
+                    {previewTemplate(template.template_content)}
                   </p>
                 </div>
                 
@@ -383,6 +389,13 @@ export const CuratedTemplatesLibrary = ({ onUseTemplate, onAddToPersonal }: Cura
           </div>
         )}
       </CardContent>
+
+      <TemplateVariableDialog
+        template={fillingTemplate}
+        defaultClientId={selectedClientId}
+        onClose={() => setFillingTemplate(null)}
+        onUse={onUseTemplate}
+      />
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Check, Combine, X } from "lucide-react";
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { getToneLabel } from '@/lib/toneStyles';
+
+export interface ResponseDraft {
+  tone: string;
+  text: string;
+}
+
+export interface DraftSelection {
+  text: string;
+  source: 'draft_pick' | 'draft_merge';
+  tone: string | null;
+}
+
+interface DraftComparisonProps {
+  drafts: ResponseDraft[];
+  onSelect: (selection: DraftSelection) => void;
+  onDismiss: () => void;
+}
+
+const splitParagraphs = (text: string) =>
+  text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+
+export const DraftComparison = ({ drafts, onSelect, onDismiss }: DraftComparisonProps) => {
+  // Keys are `${draftIndex}:${paragraphIndex}` so merged text keeps draft-then-paragraph order
+  const [selectedParagraphs, setSelectedParagraphs] = useState<string[]>([]);
+
+  const toggleParagraph = (key: string) => {
+    setSelectedParagraphs(current =>
+      current.includes(key) ? current.filter(k => k !== key) : [...current, key]
+    );
+  };
+
+  const mergeSelected = () => {
+    const ordered = [...selectedParagraphs].sort((a, b) => {
+      const [draftA, paraA] = a.split(':').map(Number);
+      const [draftB, paraB] = b.split(':').map(Number);
+      return draftA - draftB || paraA - paraB;
+    });
+
+    const text = ordered
+      .map(key => {
+        const [draftIndex, paragraphIndex] = key.split(':').map(Number);
+        return splitParagraphs(drafts[draftIndex].text)[paragraphIndex];
+      })
+      .join('\n\n');
+
+    const usedTones = [...new Set(ordered.map(key => drafts[Number(key.split(':')[0])].tone))];
+
+    onSelect({
+      text,
+      source: 'draft_merge',
+      tone: usedTones.length === 1 ? usedTones[0] : null
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Pick a draft, or tick paragraphs from several drafts and merge them.
+        </p>
+        <Button variant="ghost" size="sm" onClick={onDismiss} title="Discard drafts">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className={`grid gap-3 ${drafts.length > 2 ? 'xl:grid-cols-3' : ''} md:grid-cols-2`}>
+        {drafts.map((draft, draftIndex) => (
+          <div key={draftIndex} className="border rounded-lg p-3 space-y-3 bg-background flex flex-col">
+            <div className="flex items-center justify-between">
+              <Badge variant="secondary" className="text-xs">
+                Draft {draftIndex + 1} · {getToneLabel(draft.tone)}
+              </Badge>
+              <span className="text-xs text-muted-foreground">{draft.text.length} chars</span>
+            </div>
+
+            <div className="space-y-2 flex-1">
+              {splitParagraphs(draft.text).map((paragraph, paragraphIndex) => {
+                const key = `${draftIndex}:${paragraphIndex}`;
+                return (
+                  <label
+                    key={key}
+                    className={`flex gap-2 items-start rounded p-2 cursor-pointer transition-colors ${
+                      selectedParagraphs.includes(key) ? 'bg-primary/10' : 'hover:bg-muted/50'
+                    }`}
+                  >
+                    <Checkbox
+                      checked={selectedParagraphs.includes(key)}
+                      onCheckedChange={() => toggleParagraph(key)}
+                      className="mt-1"
+                    />
+                    <div className="text-sm prose prose-sm max-w-none prose-p:my-0 prose-p:text-foreground">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{paragraph}</ReactMarkdown>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onSelect({ text: draft.text, source: 'draft_pick', tone: draft.tone })}
+            >
+              <Check className="h-4 w-4 mr-2" />
+              Use this draft
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        onClick={mergeSelected}
+        disabled={selectedParagraphs.length === 0}
+        className="w-full"
+      >
+        <Combine className="h-4 w-4 mr-2" />
+        Merge selected paragraphs ({selectedParagraphs.length})
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, HeartHandshake } from "lucide-react";
+import { isEscalationRisk } from '@/lib/messageClassification';
+
+interface EscalationRiskBannerProps {
+  riskScore: number;
+  riskSignals: string[];
+  deescalationMode: boolean;
+  onDeescalationModeChange: (enabled: boolean) => void;
+}
+
+// Shown above the generate controls when the client message looks like it could escalate
+export const EscalationRiskBanner = ({ riskScore, riskSignals, deescalationMode, onDeescalationModeChange }: EscalationRiskBannerProps) => {
+  const risky = isEscalationRisk(riskScore);
+
+  return (
+    <Alert variant={risky ? "destructive" : "default"}>
+      {risky ? <AlertTriangle className="h-4 w-4" /> : <HeartHandshake className="h-4 w-4" />}
+      <AlertTitle>
+        {risky ? `Escalation risk ${Math.round(riskScore * 100)}%` : "De-escalation mode"}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        {riskSignals.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {riskSignals.map(signal => (
+              <Badge key={signal} variant={risky ? "destructive" : "outline"} className="text-xs">{signal}</Badge>
+            ))}
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-foreground">
+          <Switch checked={deescalationMode} onCheckedChange={onDeescalationModeChange} />
+          <span className="text-xs">
+            De-escalation mode: acknowledge, take ownership and offer concrete remedies instead of the usual tone
+          </span>
+        </label>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, Copy, RotateCcw, ShieldAlert } from "lucide-react";
+import { getGenerationErrorHint, getGenerationErrorTitle, type GenerationError } from '@/lib/generationErrors';
+
+interface GenerationErrorPanelProps {
+  error: GenerationError;
+  onRetry: () => void;
+  onCopyFallback: (text: string) => void;
+}
+
+// Takes the place of the draft when generation fails. The generic holding reply stays visibly
+// separate from real drafts: it can be copied, but not edited, saved or used as a refinement.
+export const GenerationErrorPanel = ({ error, onRetry, onCopyFallback }: GenerationErrorPanelProps) => (
+  <div className="space-y-3">
+    <Alert variant="destructive">
+      {error.code === 'safety_blocked' ? <ShieldAlert className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+      <AlertTitle>No response was generated: {getGenerationErrorTitle(error.code)}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p className="text-xs mt-1">{error.message}</p>
+        <p className="text-xs">{getGenerationErrorHint(error.code)}</p>
+        {error.retryable && (
+          <Button size="sm" variant="outline" onClick={onRetry} className="text-foreground">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Retry
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+
+    {error.fallback && (
+      <div className="border rounded-lg p-3 bg-background space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-2">
+            <Badge variant="outline" className="text-xs">Fallback</Badge>
+            Generic holding reply, not written for this message
+          </p>
+          <Button size="sm" variant="ghost" onClick={() => onCopyFallback(error.fallback!)} title="Copy holding reply">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground italic whitespace-pre-wrap">{error.fallback}</p>
+      </div>
+    )}
+  </div>
+);
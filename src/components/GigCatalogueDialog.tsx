@@ -0,0 +1,220 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Package, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { GigCatalogue, GigExtra, GigPackage } from '@/lib/pricing';
+
+interface GigCatalogueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalogue: GigCatalogue;
+  onSave: (catalogue: GigCatalogue) => Promise<boolean>;
+}
+
+export const GigCatalogueDialog = ({ open, onOpenChange, catalogue, onSave }: GigCatalogueDialogProps) => {
+  const [draft, setDraft] = useState<GigCatalogue>(catalogue);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setDraft(catalogue);
+  }, [open, catalogue]);
+
+  const updatePackage = (index: number, updates: Partial<GigPackage>) => {
+    setDraft({
+      ...draft,
+      packages: draft.packages.map((pkg, i) => i === index ? { ...pkg, ...updates } : pkg)
+    });
+  };
+
+  const updateExtra = (index: number, updates: Partial<GigExtra>) => {
+    setDraft({
+      ...draft,
+      extras: draft.extras.map((extra, i) => i === index ? { ...extra, ...updates } : extra)
+    });
+  };
+
+  const addExtra = () => {
+    setDraft({
+      ...draft,
+      extras: [...draft.extras, { id: crypto.randomUUID(), name: "", price: 0, extra_days: 0 }]
+    });
+  };
+
+  const removeExtra = (index: number) => {
+    setDraft({ ...draft, extras: draft.extras.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const success = await onSave({
+        ...draft,
+        currency: draft.currency.trim().toUpperCase() || "USD",
+        extras: draft.extras.filter(extra => extra.name.trim())
+      });
+
+      if (success) {
+        toast({
+          title: "Gig packages saved",
+          description: "Quotes and custom offers will use these prices."
+        });
+        onOpenChange(false);
+      } else {
+        throw new Error('Profile update failed');
+      }
+    } catch (error) {
+      console.error('Error saving gig catalogue:', error);
+      toast({
+        title: "Save failed",
+        description: "Failed to save your gig packages. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Gig Packages & Rates
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Currency</label>
+              <Input
+                value={draft.currency}
+                maxLength={3}
+                placeholder="USD"
+                onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Hourly Rate (custom work)</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.hourly_rate || ""}
+                onChange={(e) => setDraft({ ...draft, hourly_rate: Number(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            {draft.packages.map((pkg, index) => (
+              <div key={pkg.tier} className="border rounded-lg p-3 space-y-3">
+                <p className="text-xs font-semibold uppercase text-muted-foreground">{pkg.tier}</p>
+                <Input
+                  placeholder="Package name"
+                  value={pkg.name}
+                  onChange={(e) => updatePackage(index, { name: e.target.value })}
+                />
+                <Textarea
+                  placeholder="What's included"
+                  value={pkg.description}
+                  onChange={(e) => updatePackage(index, { description: e.target.value })}
+                  className="min-h-[80px]"
+                />
+                <div>
+                  <label className="text-xs text-muted-foreground mb-1 block">Price ({draft.currency || "USD"})</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={pkg.price || ""}
+                    onChange={(e) => updatePackage(index, { price: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-xs text-muted-foreground mb-1 block">Delivery days</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={pkg.delivery_days || ""}
+                      onChange={(e) => updatePackage(index, { delivery_days: Math.round(Number(e.target.value)) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-muted-foreground mb-1 block">Revisions</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={pkg.revisions || ""}
+                      onChange={(e) => updatePackage(index, { revisions: Math.round(Number(e.target.value)) || 0 })}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave a package's price empty to keep it out of quotes.
+          </p>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Gig Extras</label>
+              <Button size="sm" variant="outline" onClick={addExtra}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Extra
+              </Button>
+            </div>
+            {draft.extras.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No extras yet, e.g. "Source files" or "Extra fast delivery".</p>
+            ) : (
+              draft.extras.map((extra, index) => (
+                <div key={extra.id} className="grid grid-cols-[1fr_120px_120px_auto] gap-2 items-center">
+                  <Input
+                    placeholder="Extra name"
+                    value={extra.name}
+                    onChange={(e) => updateExtra(index, { name: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Price"
+                    value={extra.price || ""}
+                    onChange={(e) => updateExtra(index, { price: Number(e.target.value) || 0 })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="+ days"
+                    value={extra.extra_days || ""}
+                    onChange={(e) => updateExtra(index, { extra_days: Math.round(Number(e.target.value)) || 0 })}
+                  />
+                  <Button size="sm" variant="ghost" onClick={() => removeExtra(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Packages"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
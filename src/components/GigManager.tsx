@@ -0,0 +1,562 @@
+import { useState, useMemo, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Briefcase, Plus, Search, Edit, Trash2, ArrowLeft, Upload, ExternalLink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useGigs, type Gig } from '@/hooks/useGigs';
+import { emptyGig, detectImportFormat, parseGigImport, type GigFaq, type GigInput } from '@/lib/gigs';
+import { formatPrice, packageTiers, type GigPackage } from '@/lib/pricing';
+
+const emptyFaq: GigFaq = { question: "", answer: "" };
+
+// The form always shows all three tiers; tiers left without a price are dropped on save
+const withAllTiers = (packages: GigPackage[]): GigPackage[] =>
+  packageTiers.map(({ value, label }) =>
+    packages.find(pkg => pkg.tier === value) || { tier: value, name: label, description: "", price: 0, delivery_days: 0, revisions: 0 }
+  );
+
+const IMPORT_EXAMPLE = `[
+  {
+    "title": "I will design a modern minimalist logo",
+    "description": "...",
+    "tags": ["logo", "branding"],
+    "packages": [{ "tier": "basic", "price": 50, "delivery_days": 3, "revisions": 2 }],
+    "faqs": [{ "question": "Do I get source files?", "answer": "Yes, in the Standard package." }],
+    "requirements": ["Business name", "Preferred colors"]
+  }
+]`;
+
+export const GigManager = () => {
+  const { gigs, loading, saveGig, importGigs, deleteGig } = useGigs();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [viewingGigId, setViewingGigId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingGigId, setEditingGigId] = useState<string | null>(null);
+  const [form, setForm] = useState<GigInput>(emptyGig);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importFileName, setImportFileName] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const viewingGig = gigs.find(gig => gig.id === viewingGigId) || null;
+
+  const filteredGigs = useMemo(() => {
+    if (!searchQuery.trim()) return gigs;
+
+    const query = searchQuery.toLowerCase();
+    return gigs.filter(gig =>
+      gig.title.toLowerCase().includes(query) ||
+      gig.category?.toLowerCase().includes(query) ||
+      gig.tags.some(tag => tag.toLowerCase().includes(query)) ||
+      gig.description.toLowerCase().includes(query)
+    );
+  }, [gigs, searchQuery]);
+
+  // Parsed live so the dialog can show what will be imported before anything is written
+  const importPreview = useMemo(() => {
+    if (!importText.trim()) return { gigs: [] as GigInput[], error: null as string | null };
+
+    try {
+      return { gigs: parseGigImport(importText, detectImportFormat(importFileName, importText)), error: null };
+    } catch (error) {
+      return { gigs: [] as GigInput[], error: error instanceof Error ? error.message : "Could not parse the file" };
+    }
+  }, [importText, importFileName]);
+
+  const updateForm = <K extends keyof GigInput>(key: K, value: GigInput[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const updatePackage = (index: number, updates: Partial<GigPackage>) => {
+    updateForm('packages', form.packages.map((pkg, i) => i === index ? { ...pkg, ...updates } : pkg));
+  };
+
+  const updateFaq = (index: number, updates: Partial<GigFaq>) => {
+    updateForm('faqs', form.faqs.map((faq, i) => i === index ? { ...faq, ...updates } : faq));
+  };
+
+  const openNewGig = () => {
+    setEditingGigId(null);
+    setForm({ ...emptyGig, packages: withAllTiers([]) });
+    setIsDialogOpen(true);
+  };
+
+  const openEditGig = (gig: Gig) => {
+    const { id, user_id, created_at, updated_at, ...input } = gig;
+    setEditingGigId(id);
+    setForm({ ...input, packages: withAllTiers(input.packages) });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      toast({
+        title: "Missing title",
+        description: "Please enter the gig title.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const saved = await saveGig({
+      ...form,
+      title: form.title.trim(),
+      currency: form.currency.trim().toUpperCase() || "USD",
+      packages: form.packages.filter(pkg => pkg.price > 0),
+      faqs: form.faqs.filter(faq => faq.question.trim() && faq.answer.trim()),
+      tags: form.tags.map(tag => tag.trim()).filter(Boolean),
+      requirements: form.requirements.map(requirement => requirement.trim()).filter(Boolean)
+    }, editingGigId || undefined);
+
+    if (!saved) {
+      toast({
+        title: "Error",
+        description: "Failed to save gig.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: editingGigId ? "Gig updated" : "Gig added",
+      description: `"${saved.title}" will be used to ground related responses.`
+    });
+    setIsDialogOpen(false);
+    setViewingGigId(saved.id);
+  };
+
+  const handleDelete = async (gig: Gig) => {
+    if (!(await deleteGig(gig.id))) {
+      toast({
+        title: "Error",
+        description: "Failed to delete gig.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Gig deleted",
+      description: `"${gig.title}" has been removed.`
+    });
+    setViewingGigId(null);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setImportFileName(file.name);
+    setImportText(await file.text());
+    e.target.value = "";
+  };
+
+  const handleImport = async () => {
+    if (importPreview.gigs.length === 0) return;
+
+    setIsImporting(true);
+    const imported = await importGigs(importPreview.gigs);
+    setIsImporting(false);
+
+    if (imported == null) {
+      toast({
+        title: "Import failed",
+        description: "Some gigs could not be saved. Please check the file and try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Gigs imported",
+      description: `Imported ${imported} gig${imported !== 1 ? 's' : ''}. Gigs with matching titles were updated.`
+    });
+    setIsImportOpen(false);
+    setImportText("");
+    setImportFileName("");
+  };
+
+  const renderDetail = (gig: Gig) => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => setViewingGigId(null)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All gigs
+        </Button>
+        <div className="flex gap-1">
+          {gig.gig_url && (
+            <Button variant="ghost" size="sm" asChild title="Open on Fiverr">
+              <a href={gig.gig_url} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => openEditGig(gig)} title="Edit gig">
+            <Edit className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleDelete(gig)}
+            title="Delete gig"
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium">{gig.title}</h4>
+        <div className="flex gap-2 flex-wrap mt-1">
+          {gig.category && <Badge variant="outline" className="text-xs">{gig.category}</Badge>}
+          {!gig.is_active && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+          {gig.tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+          ))}
+        </div>
+      </div>
+
+      {gig.description && (
+        <p className="text-sm bg-muted p-2 rounded whitespace-pre-wrap max-h-[150px] overflow-y-auto">{gig.description}</p>
+      )}
+
+      {gig.packages.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">Packages</p>
+          <div className="space-y-1">
+            {gig.packages.map(pkg => (
+              <div key={pkg.tier} className="flex items-center justify-between text-xs border rounded p-2">
+                <span className="truncate">
+                  {pkg.name}
+                  <span className="text-muted-foreground"> · {pkg.delivery_days}d · {pkg.revisions} rev.</span>
+                </span>
+                <span className="font-medium shrink-0">{formatPrice(pkg.price, gig.currency)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {gig.requirements.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">Requirements</p>
+          <ul className="text-xs list-disc pl-4 space-y-0.5">
+            {gig.requirements.map(requirement => <li key={requirement}>{requirement}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {gig.faqs.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">FAQ ({gig.faqs.length})</p>
+          <div className="space-y-2">
+            {gig.faqs.map((faq, index) => (
+              <div key={index} className="text-xs">
+                <p className="font-medium">{faq.question}</p>
+                <p className="text-muted-foreground">{faq.answer}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5" />
+            Gigs
+            <Badge variant="secondary" className="ml-2">
+              {gigs.length}
+            </Badge>
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button size="sm" onClick={openNewGig}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Gig
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {viewingGig ? renderDetail(viewingGig) : (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by title, category or tag..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Loading gigs...</p>
+            ) : filteredGigs.length > 0 ? (
+              <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                {filteredGigs.map(gig => {
+                  const prices = gig.packages.map(pkg => pkg.price);
+                  return (
+                    <button
+                      key={gig.id}
+                      onClick={() => setViewingGigId(gig.id)}
+                      className="w-full text-left border rounded-lg p-3 hover:bg-muted/30 transition-colors"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-sm line-clamp-1">{gig.title}</span>
+                        {!gig.is_active && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {[
+                          gig.category,
+                          prices.length > 0 && `from ${formatPrice(Math.min(...prices), gig.currency)}`,
+                          gig.faqs.length > 0 && `${gig.faqs.length} FAQ`
+                        ].filter(Boolean).join(' · ') || 'No details yet'}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <Briefcase className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">{searchQuery ? "No gigs match your search" : "No gigs yet"}</p>
+                <p className="text-xs mt-1">Responses only mention services and prices from your gigs</p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingGigId ? "Edit Gig" : "New Gig"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Title</label>
+              <Input value={form.title} onChange={(e) => updateForm('title', e.target.value)} placeholder="I will..." />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Category</label>
+                <Input
+                  value={form.category || ""}
+                  onChange={(e) => updateForm('category', e.target.value || null)}
+                  placeholder="e.g., Logo Design"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Gig URL</label>
+                <Input
+                  value={form.gig_url || ""}
+                  onChange={(e) => updateForm('gig_url', e.target.value || null)}
+                  placeholder="https://www.fiverr.com/..."
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Currency</label>
+                <Input value={form.currency} onChange={(e) => updateForm('currency', e.target.value.toUpperCase())} maxLength={3} />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-2 block">Description</label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => updateForm('description', e.target.value)}
+                className="min-h-[100px]"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Tags</label>
+                <Input
+                  value={form.tags.join(", ")}
+                  onChange={(e) => updateForm('tags', e.target.value.split(","))}
+                  placeholder="logo, branding, vector"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm font-medium pt-8">
+                <Switch checked={form.is_active} onCheckedChange={(checked) => updateForm('is_active', checked)} />
+                Active (used in responses)
+              </label>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-2 block">Packages</label>
+              <div className="grid md:grid-cols-3 gap-3">
+                {form.packages.map((pkg, index) => (
+                  <div key={pkg.tier} className="border rounded-lg p-3 space-y-2">
+                    <p className="text-xs font-semibold uppercase text-muted-foreground">{pkg.tier}</p>
+                    <Input placeholder="Name" value={pkg.name} onChange={(e) => updatePackage(index, { name: e.target.value })} />
+                    <Textarea
+                      placeholder="What's included"
+                      value={pkg.description}
+                      onChange={(e) => updatePackage(index, { description: e.target.value })}
+                      className="min-h-[60px]"
+                    />
+                    <div className="grid grid-cols-3 gap-1">
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="Price"
+                        value={pkg.price || ""}
+                        onChange={(e) => updatePackage(index, { price: Number(e.target.value) || 0 })}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="Days"
+                        value={pkg.delivery_days || ""}
+                        onChange={(e) => updatePackage(index, { delivery_days: Math.round(Number(e.target.value)) || 0 })}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="Rev."
+                        value={pkg.revisions || ""}
+                        onChange={(e) => updatePackage(index, { revisions: Math.round(Number(e.target.value)) || 0 })}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Price · delivery days · revisions. Leave the price empty for tiers you don't offer.</p>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-2 block">Requirements</label>
+              <Textarea
+                value={form.requirements.join("\n")}
+                onChange={(e) => updateForm('requirements', e.target.value.split("\n"))}
+                placeholder="One requirement per line"
+                className="min-h-[80px]"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">FAQ</label>
+                <Button variant="outline" size="sm" onClick={() => updateForm('faqs', [...form.faqs, { ...emptyFaq }])}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Question
+                </Button>
+              </div>
+              {form.faqs.map((faq, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                  <Input
+                    className="col-span-4"
+                    placeholder="Question"
+                    value={faq.question}
+                    onChange={(e) => updateFaq(index, { question: e.target.value })}
+                  />
+                  <Textarea
+                    className="col-span-7 min-h-[40px]"
+                    placeholder="Answer"
+                    value={faq.answer}
+                    onChange={(e) => updateFaq(index, { answer: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1 text-destructive hover:text-destructive"
+                    onClick={() => updateForm('faqs', form.faqs.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave}>
+                {editingGigId ? "Update" : "Save"} Gig
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Gigs</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Upload or paste a JSON array of gigs, or a CSV with one gig per row (columns <code>title</code>, <code>description</code>,{' '}
+              <code>category</code>, <code>tags</code>, <code>requirements</code>, <code>faqs</code> as "Question :: Answer | ...",
+              and <code>basic_price</code>, <code>basic_delivery_days</code>, <code>basic_revisions</code> and the same for standard/premium).
+            </p>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {importFileName || "Choose JSON or CSV File"}
+            </Button>
+
+            <Textarea
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              placeholder={IMPORT_EXAMPLE}
+              className="min-h-[200px] font-mono text-xs"
+            />
+
+            {importPreview.error ? (
+              <p className="text-sm text-destructive">{importPreview.error}</p>
+            ) : importPreview.gigs.length > 0 && (
+              <div className="text-sm space-y-1">
+                <p className="font-medium">Ready to import {importPreview.gigs.length} gig{importPreview.gigs.length !== 1 ? 's' : ''}:</p>
+                <ul className="text-xs text-muted-foreground list-disc pl-4 max-h-[120px] overflow-y-auto">
+                  {importPreview.gigs.map((gig, index) => (
+                    <li key={index}>
+                      {gig.title} ({gig.packages.length} package{gig.packages.length !== 1 ? 's' : ''}, {gig.faqs.length} FAQ)
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setIsImportOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={importPreview.gigs.length === 0 || isImporting}>
+                {isImporting ? "Importing..." : "Import"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,348 @@
+import { useState, useMemo, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen, Plus, Search, Edit, Trash2, Upload, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useProfile } from '@/hooks/useProfile';
+import { useKnowledgeBase, type KnowledgeDocument, type KnowledgeDocumentInput } from '@/hooks/useKnowledgeBase';
+import {
+  ACCEPTED_KNOWLEDGE_FILES,
+  formatFaqContent,
+  getKnowledgeSourceLabel,
+  knowledgeSourceTypes,
+  type KnowledgeSourceType
+} from '@/lib/knowledgeBase';
+
+interface KnowledgeForm {
+  source_type: KnowledgeSourceType;
+  title: string;
+  content: string;
+  // FAQ entries are edited as a question/answer pair and stored as "Q: ... A: ..." content
+  answer: string;
+  file_name: string | null;
+}
+
+const emptyForm: KnowledgeForm = { source_type: "note", title: "", content: "", answer: "", file_name: null };
+
+const FAQ_PATTERN = /^Q: ([^]*?)\nA: ([^]*)$/;
+
+export const KnowledgeBaseManager = () => {
+  const { documents, loading, saveDocument, deleteDocument } = useKnowledgeBase();
+  const { profile, updateProfile } = useProfile();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingDocumentId, setEditingDocumentId] = useState<string | null>(null);
+  const [form, setForm] = useState<KnowledgeForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const filteredDocuments = useMemo(() => {
+    const query = searchQuery.toLowerCase().trim();
+    return documents.filter(document =>
+      (typeFilter === "all" || document.source_type === typeFilter) &&
+      (!query || document.title.toLowerCase().includes(query) || document.content.toLowerCase().includes(query))
+    );
+  }, [documents, searchQuery, typeFilter]);
+
+  const updateForm = <K extends keyof KnowledgeForm>(key: K, value: KnowledgeForm[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const openNewDocument = () => {
+    setEditingDocumentId(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDocument = (document: KnowledgeDocument) => {
+    const faq = document.source_type === "faq" ? document.content.match(FAQ_PATTERN) : null;
+    setEditingDocumentId(document.id);
+    setForm({
+      source_type: document.source_type,
+      title: faq ? faq[1] : document.title,
+      content: faq ? "" : document.content,
+      answer: faq ? faq[2] : "",
+      file_name: document.file_name
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setEditingDocumentId(null);
+    setForm({
+      ...emptyForm,
+      source_type: "document",
+      title: file.name.replace(/\.[^.]+$/, ""),
+      content: await file.text(),
+      file_name: file.name
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const isFaq = form.source_type === "faq";
+    const input: KnowledgeDocumentInput = {
+      source_type: form.source_type,
+      title: form.title.trim(),
+      content: isFaq ? formatFaqContent(form.title, form.answer) : form.content.trim(),
+      file_name: form.file_name
+    };
+
+    if (!input.title || (isFaq ? !form.answer.trim() : !input.content)) {
+      toast({
+        title: "Missing content",
+        description: isFaq ? "Please enter both the question and the answer." : "Please enter a title and content.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await saveDocument(input, editingDocumentId || undefined);
+    setIsSaving(false);
+
+    if (!saved) {
+      toast({
+        title: "Error",
+        description: "Failed to save to the knowledge base.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: editingDocumentId ? "Knowledge updated" : "Added to knowledge base",
+      description: `"${saved.title}" is being indexed for retrieval.`
+    });
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!(await deleteDocument(document.id))) {
+      toast({
+        title: "Error",
+        description: "Failed to delete the entry.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Entry deleted",
+      description: `"${document.title}" was removed from the knowledge base.`
+    });
+  };
+
+  const toggleStrictMode = async (enabled: boolean) => {
+    if (!(await updateProfile({ knowledge_strict_mode: enabled }))) {
+      toast({
+        title: "Error",
+        description: "Failed to update strict mode.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Knowledge Base
+            <Badge variant="secondary" className="ml-2">
+              {documents.length}
+            </Badge>
+          </CardTitle>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_KNOWLEDGE_FILES}
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} title="Upload a .md or .txt document">
+              <Upload className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={openNewDocument}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-start gap-3 border rounded-lg p-3">
+          <Switch
+            checked={profile?.knowledge_strict_mode || false}
+            onCheckedChange={toggleStrictMode}
+            disabled={!profile}
+          />
+          <span className="text-sm">
+            <span className="font-medium flex items-center gap-1">
+              <Lock className="h-3 w-3" />
+              Strict mode
+            </span>
+            <span className="text-xs text-muted-foreground">
+              Responses only state facts found here; anything else is deferred instead of guessed.
+            </span>
+          </span>
+        </label>
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search knowledge..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {knowledgeSourceTypes.map(type => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading knowledge base...</p>
+        ) : filteredDocuments.length > 0 ? (
+          <div className="space-y-2 max-h-[400px] overflow-y-auto">
+            {filteredDocuments.map(document => (
+              <div key={document.id} className="border rounded-lg p-3 space-y-1 hover:bg-muted/30 transition-colors">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm line-clamp-1">{document.title}</span>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Badge variant="outline" className="text-xs">{getKnowledgeSourceLabel(document.source_type)}</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => openEditDocument(document)} title="Edit">
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(document)}
+                      title="Delete"
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {document.source_type === "faq" ? document.content.replace(FAQ_PATTERN, "$2") : document.content}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <BookOpen className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">{searchQuery || typeFilter !== "all" ? "No entries match your filters" : "Your knowledge base is empty"}</p>
+            <p className="text-xs mt-1">Add your process, policies and FAQ so answers use your real facts</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingDocumentId ? "Edit Knowledge" : "Add Knowledge"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Type</label>
+              <Select
+                value={form.source_type}
+                onValueChange={(value) => updateForm('source_type', value as KnowledgeSourceType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {knowledgeSourceTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.source_type === "faq" ? (
+              <>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Question</label>
+                  <Input
+                    value={form.title}
+                    onChange={(e) => updateForm('title', e.target.value)}
+                    placeholder="e.g., Do you offer refunds?"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Answer</label>
+                  <Textarea
+                    value={form.answer}
+                    onChange={(e) => updateForm('answer', e.target.value)}
+                    className="min-h-[120px]"
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Title</label>
+                  <Input
+                    value={form.title}
+                    onChange={(e) => updateForm('title', e.target.value)}
+                    placeholder="e.g., My revision policy"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    Content <span className="text-muted-foreground font-normal">(markdown supported)</span>
+                  </label>
+                  <Textarea
+                    value={form.content}
+                    onChange={(e) => updateForm('content', e.target.value)}
+                    className="min-h-[240px] font-mono text-xs"
+                  />
+                  {form.file_name && (
+                    <p className="text-xs text-muted-foreground mt-1">From {form.file_name}</p>
+                  )}
+                </div>
+              </>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? "Saving..." : editingDocumentId ? "Update" : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,93 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ShieldAlert, ShieldCheck, Wand2 } from "lucide-react";
+import { segmentByViolations, type PolicyViolation } from '@/lib/policyCompliance';
+
+interface PolicyHighlightedTextProps {
+  text: string;
+  violations: PolicyViolation[];
+}
+
+// Plain-text rendering of a response with each flagged span marked inline
+export const PolicyHighlightedText = ({ text, violations }: PolicyHighlightedTextProps) => (
+  <div className="text-foreground leading-relaxed whitespace-pre-wrap text-sm">
+    {segmentByViolations(text, violations).map((segment, index) =>
+      segment.violation ? (
+        <mark
+          key={index}
+          title={`${segment.violation.label}: ${segment.violation.explanation}`}
+          className={`rounded px-0.5 ${
+            segment.violation.severity === 'high'
+              ? 'bg-destructive/20 text-destructive underline decoration-wavy'
+              : 'bg-yellow-200 text-yellow-900'
+          }`}
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </div>
+);
+
+interface PolicyCompliancePanelProps {
+  violations: PolicyViolation[];
+  acknowledged: boolean;
+  isRewriting: boolean;
+  onRewrite: () => void;
+  onAcknowledge: () => void;
+}
+
+export const PolicyCompliancePanel = ({ violations, acknowledged, isRewriting, onRewrite, onAcknowledge }: PolicyCompliancePanelProps) => {
+  // One entry per rule, listing every matched snippet
+  const byRule = violations.reduce<Record<string, { violation: PolicyViolation; matches: string[] }>>((groups, violation) => {
+    const group = groups[violation.ruleId] || { violation, matches: [] };
+    group.matches.push(violation.match);
+    groups[violation.ruleId] = group;
+    return groups;
+  }, {});
+
+  if (acknowledged) {
+    return (
+      <Alert>
+        <ShieldCheck className="h-4 w-4" />
+        <AlertDescription>
+          You reviewed {violations.length} flagged item{violations.length !== 1 ? 's' : ''}. Copy and Save are unlocked for this version.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert variant="destructive">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>
+        {violations.length} possible Fiverr policy issue{violations.length !== 1 ? 's' : ''}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="space-y-1 mt-2">
+          {Object.values(byRule).map(({ violation, matches }) => (
+            <li key={violation.ruleId} className="text-xs">
+              <Badge variant={violation.severity === 'high' ? 'destructive' : 'outline'} className="text-xs mr-2">
+                {violation.label}
+              </Badge>
+              {violation.explanation}{' '}
+              <span className="font-mono">({[...new Set(matches)].join(', ')})</span>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={onRewrite} disabled={isRewriting} className="text-foreground">
+            <Wand2 className="h-4 w-4 mr-2" />
+            {isRewriting ? "Rewriting..." : "Auto-rewrite"}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onAcknowledge}>
+            I've reviewed this, allow anyway
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -1,25 +1,55 @@
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { User, Settings } from "lucide-react";
+import { User, Settings, DatabaseZap, Package, Mic } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useProfile } from "@/hooks/useProfile";
+import { backfillAllEmbeddings } from "@/lib/embeddings";
+import { parseGigCatalogue, type GigCatalogue } from "@/lib/pricing";
+import { parseVoiceSettings, type VoiceSettings } from "@/lib/voice";
+import type { Json } from "@/integrations/supabase/types";
+import { GigCatalogueDialog } from "./GigCatalogueDialog";
+import { VoiceSettingsDialog } from "./VoiceSettingsDialog";
+
+const llmProviders = [
+  { value: "default", label: "Server Default" },
+  { value: "gemini", label: "Google Gemini" },
+  { value: "openai", label: "OpenAI-compatible" },
+  { value: "anthropic", label: "Anthropic" },
+  { value: "ollama", label: "Ollama (local)" },
+  { value: "mock", label: "Mock (offline)" }
+];
 
 export const ProfileSettings = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [displayName, setDisplayName] = useState("");
   const [fiverrUsername, setFiverrUsername] = useState("");
+  const [llmProvider, setLlmProvider] = useState("default");
   const [isSaving, setIsSaving] = useState(false);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [showCatalogue, setShowCatalogue] = useState(false);
+  const [showVoice, setShowVoice] = useState(false);
   const { profile, updateProfile, loading } = useProfile();
   const { toast } = useToast();
+  const catalogue = useMemo(() => parseGigCatalogue(profile?.gig_catalogue), [profile]);
+
+  const saveCatalogue = (updated: GigCatalogue) =>
+    updateProfile({ gig_catalogue: updated as unknown as Json });
+
+  const voiceSettings = useMemo(() => parseVoiceSettings(profile?.voice_settings), [profile]);
+
+  const saveVoiceSettings = (updated: VoiceSettings) =>
+    updateProfile({ voice_settings: updated as unknown as Json });
 
   const handleOpen = () => {
     if (profile) {
       setDisplayName(profile.display_name || "");
       setFiverrUsername(profile.fiverr_username || "");
+      setLlmProvider(profile.llm_provider || "default");
     }
     setIsOpen(true);
   };
@@ -30,7 +60,8 @@ export const ProfileSettings = () => {
     try {
       const success = await updateProfile({
         display_name: displayName.trim() || null,
-        fiverr_username: fiverrUsername.trim() || null
+        fiverr_username: fiverrUsername.trim() || null,
+        llm_provider: llmProvider === "default" ? null : llmProvider
       });
 
       if (success) {
@@ -57,6 +88,29 @@ export const ProfileSettings = () => {
     }
   };
 
+  const handleRebuildIndex = async () => {
+    setIsIndexing(true);
+
+    try {
+      const indexed = await backfillAllEmbeddings();
+      toast({
+        title: "Search index updated",
+        description: indexed > 0
+          ? `Embedded ${indexed} message${indexed !== 1 ? 's' : ''} and templates for similarity search.`
+          : "Everything is already indexed."
+      });
+    } catch (error) {
+      console.error('Error rebuilding embeddings:', error);
+      toast({
+        title: "Indexing failed",
+        description: "Could not update the similarity search index. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsIndexing(false);
+    }
+  };
+
   if (loading) {
     return (
       <Button variant="outline" size="sm" disabled>
@@ -107,6 +161,58 @@ export const ProfileSettings = () => {
               Used for personalized responses and context
             </p>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="llm-provider">AI Provider</Label>
+            <Select value={llmProvider} onValueChange={setLlmProvider}>
+              <SelectTrigger id="llm-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {llmProviders.map(provider => (
+                  <SelectItem key={provider.value} value={provider.value}>
+                    {provider.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Model used to generate responses. Mock works offline for testing.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Voice</Label>
+            <Button variant="outline" className="w-full" onClick={() => setShowVoice(true)}>
+              <Mic className="h-4 w-4 mr-2" />
+              Voice Settings
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Signature, greeting and closing, formality, emojis and phrases used in every response
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pricing</Label>
+            <Button variant="outline" className="w-full" onClick={() => setShowCatalogue(true)}>
+              <Package className="h-4 w-4 mr-2" />
+              Gig Packages & Rates
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Packages, extras and hourly rate used by the quote builder and custom offers
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Similarity Search</Label>
+            <Button variant="outline" className="w-full" onClick={handleRebuildIndex} disabled={isIndexing}>
+              <DatabaseZap className="h-4 w-4 mr-2" />
+              {isIndexing ? "Indexing..." : "Index Existing Messages"}
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Embeds past conversations, refined responses, templates and gigs that aren't indexed yet
+            </p>
+          </div>
           
           <div className="flex gap-2 justify-end pt-4">
             <Button variant="outline" onClick={() => setIsOpen(false)}>
@@ -118,6 +224,20 @@ export const ProfileSettings = () => {
           </div>
         </div>
       </DialogContent>
+
+      <GigCatalogueDialog
+        open={showCatalogue}
+        onOpenChange={setShowCatalogue}
+        catalogue={catalogue}
+        onSave={saveCatalogue}
+      />
+
+      <VoiceSettingsDialog
+        open={showVoice}
+        onOpenChange={setShowVoice}
+        settings={voiceSettings}
+        onSave={saveVoiceSettings}
+      />
     </Dialog>
   );
 };
\ No newline at end of file
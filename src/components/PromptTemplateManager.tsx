@@ -0,0 +1,380 @@
+import { useState, useMemo, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileCode, History, Plus, Edit, Trash2, FlaskConical, Columns2, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePromptTemplates, type PromptTemplate } from '@/hooks/usePromptTemplates';
+import { findUnknownVariables, generateWithPromptTemplate, promptVariables } from '@/lib/promptTemplates';
+import { getMessageTypeLabel, messageTypes } from '@/lib/messageClassification';
+
+interface PromptForm {
+  name: string;
+  body: string;
+  notes: string;
+  activate: boolean;
+}
+
+// Select value for templates that apply to every message type (message_type NULL)
+const ALL_TYPES = "all";
+
+const getScopeLabel = (messageType: string | null) =>
+  messageType ? getMessageTypeLabel(messageType) : "All message types";
+
+const getVersionLabel = (template: PromptTemplate) =>
+  `${template.name} v${template.version}${template.user_id ? "" : " (global)"} - ${getScopeLabel(template.message_type)}`;
+
+export const PromptTemplateManager = () => {
+  const { promptTemplates, loading, createVersion, setActiveVersion, deleteVersion } = usePromptTemplates();
+  const [scope, setScope] = useState(ALL_TYPES);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [form, setForm] = useState<PromptForm>({ name: "", body: "", notes: "", activate: true });
+  const [isSaving, setIsSaving] = useState(false);
+  const [compareIds, setCompareIds] = useState<[string, string]>(["", ""]);
+  const [compareMessage, setCompareMessage] = useState("");
+  const [compareMessageType, setCompareMessageType] = useState("custom_offer");
+  const [compareResults, setCompareResults] = useState<(string | null)[] | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const { toast } = useToast();
+
+  const scopeMessageType = scope === ALL_TYPES ? null : scope;
+
+  const scopedTemplates = useMemo(
+    () => promptTemplates.filter(template => template.message_type === scopeMessageType),
+    [promptTemplates, scopeMessageType]
+  );
+
+  const unknownVariables = useMemo(() => findUnknownVariables(form.body), [form.body]);
+
+  const nextVersion = Math.max(0, ...scopedTemplates.filter(template => template.user_id).map(template => template.version)) + 1;
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  // New versions start from the active one in this scope, falling back to the global default
+  const openNewVersion = (base?: PromptTemplate) => {
+    const source = base
+      || scopedTemplates.find(template => template.user_id && template.is_active)
+      || scopedTemplates.find(template => template.user_id)
+      || promptTemplates.find(template => !template.user_id && !template.message_type);
+
+    setForm({
+      name: source?.user_id ? source.name : scopeMessageType ? getScopeLabel(scopeMessageType) : "My prompt",
+      body: source?.body || "",
+      notes: "",
+      activate: true
+    });
+    setIsEditorOpen(true);
+  };
+
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? form.body.length;
+    const end = textarea?.selectionEnd ?? form.body.length;
+    setForm({ ...form, body: form.body.slice(0, start) + placeholder + form.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.body.trim()) return;
+
+    setIsSaving(true);
+    const created = await createVersion({
+      message_type: scopeMessageType,
+      name: form.name.trim(),
+      body: form.body,
+      notes: form.notes.trim() || null
+    });
+
+    if (!created) {
+      setIsSaving(false);
+      showError("Failed to save the prompt version.");
+      return;
+    }
+    if (form.activate && !(await setActiveVersion(created, true))) {
+      showError("The version was saved but could not be activated.");
+    }
+    setIsSaving(false);
+
+    toast({
+      title: `Saved version ${created.version}`,
+      description: form.activate ? "New responses will use this prompt." : "Activate it or compare it against another version.",
+    });
+    setIsEditorOpen(false);
+  };
+
+  const toggleActive = async (template: PromptTemplate) => {
+    if (!(await setActiveVersion(template, !template.is_active))) {
+      showError("Failed to update the prompt version.");
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!(await deleteVersion(template.id))) {
+      showError("Failed to delete the prompt version.");
+    }
+  };
+
+  const runComparison = async () => {
+    const message = compareMessage.trim();
+    if (!message || !compareIds[0] || !compareIds[1]) return;
+
+    setIsComparing(true);
+    setCompareResults(null);
+    const results = await Promise.all(
+      compareIds.map(templateId => generateWithPromptTemplate(templateId, message, compareMessageType))
+    );
+    setCompareResults(results);
+    setIsComparing(false);
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode className="h-5 w-5" />
+          Prompt Templates
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="versions" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="versions" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Versions
+            </TabsTrigger>
+            <TabsTrigger value="compare" className="flex items-center gap-2">
+              <FlaskConical className="h-4 w-4" />
+              A/B Compare
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="versions" className="mt-4 space-y-3">
+            <div className="flex gap-2">
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>All message types</SelectItem>
+                  {messageTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={() => openNewVersion()}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Version
+              </Button>
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Loading prompt templates...</p>
+            ) : scopedTemplates.length > 0 ? (
+              <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                {scopedTemplates.map(template => (
+                  <div key={template.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="text-sm font-medium">{template.name}</span>
+                        <Badge variant="outline" className="text-xs">v{template.version}</Badge>
+                        {!template.user_id && <Badge variant="secondary" className="text-xs">Global</Badge>}
+                        {template.is_active && <Badge className="text-xs">Active</Badge>}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {template.user_id && (
+                          <Switch
+                            checked={template.is_active}
+                            onCheckedChange={() => toggleActive(template)}
+                            title={template.is_active ? "Deactivate" : "Activate"}
+                          />
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => openNewVersion(template)} title="Edit as new version">
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        {template.user_id && !template.is_active && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(template)}
+                            title="Delete"
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {template.notes && <p className="text-xs text-muted-foreground">{template.notes}</p>}
+                    <p className="text-xs text-muted-foreground font-mono line-clamp-2">{template.body}</p>
+                    <p className="text-xs text-muted-foreground">{new Date(template.created_at).toLocaleString()}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <FileCode className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No prompt versions for {getScopeLabel(scopeMessageType).toLowerCase()}</p>
+                <p className="text-xs mt-1">Responses use your all-types prompt or the global default</p>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="compare" className="mt-4 space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {(["A", "B"] as const).map((label, index) => (
+                <div key={label}>
+                  <label className="text-sm font-medium mb-2 block">Version {label}</label>
+                  <Select
+                    value={compareIds[index]}
+                    onValueChange={(value) => setCompareIds(index === 0 ? [value, compareIds[1]] : [compareIds[0], value])}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {promptTemplates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{getVersionLabel(template)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <Textarea
+              placeholder="Client message to run through both versions..."
+              value={compareMessage}
+              onChange={(e) => setCompareMessage(e.target.value)}
+              className="min-h-[80px]"
+            />
+            <div className="flex gap-2">
+              <Select value={compareMessageType} onValueChange={setCompareMessageType}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {messageTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={runComparison}
+                disabled={isComparing || !compareMessage.trim() || !compareIds[0] || !compareIds[1]}
+              >
+                <Columns2 className="h-4 w-4 mr-2" />
+                {isComparing ? "Generating..." : "Run Both"}
+              </Button>
+            </div>
+
+            {compareResults && (
+              <div className="grid md:grid-cols-2 gap-3">
+                {compareResults.map((result, index) => {
+                  const template = promptTemplates.find(candidate => candidate.id === compareIds[index]);
+                  return (
+                    <div key={index} className="border rounded-lg p-3 space-y-2">
+                      <p className="text-xs font-medium text-muted-foreground">
+                        {index === 0 ? "A" : "B"}: {template ? getVersionLabel(template) : "Deleted version"}
+                      </p>
+                      {result !== null ? (
+                        <p className="text-sm whitespace-pre-wrap">{result}</p>
+                      ) : (
+                        <p className="text-sm text-destructive">Generation failed for this version.</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileCode className="h-5 w-5" />
+              Version {nextVersion} - {getScopeLabel(scopeMessageType)}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Name</label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-2 block">Prompt</label>
+              <Textarea
+                ref={bodyRef}
+                value={form.body}
+                onChange={(e) => setForm({ ...form, body: e.target.value })}
+                className="min-h-[320px] font-mono text-xs"
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {promptVariables.map(variable => (
+                  <Badge
+                    key={variable.name}
+                    variant="outline"
+                    className="text-xs font-mono cursor-pointer hover:bg-muted"
+                    title={variable.description}
+                    onClick={() => insertVariable(variable.name)}
+                  >
+                    {`{{${variable.name}}}`}
+                  </Badge>
+                ))}
+              </div>
+              {unknownVariables.length > 0 && (
+                <p className="text-xs text-destructive mt-2 flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Unknown variables will be left empty: {unknownVariables.map(name => `{{${name}}}`).join(", ")}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-2 block">Change Notes</label>
+              <Input
+                placeholder="What changed in this version?"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={form.activate} onCheckedChange={(activate) => setForm({ ...form, activate })} />
+              Use this version for new responses
+            </label>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setIsEditorOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || !form.name.trim() || !form.body.trim()}>
+                {isSaving ? "Saving..." : `Save Version ${nextVersion}`}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
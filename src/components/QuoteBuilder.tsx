@@ -0,0 +1,180 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Calculator, Package } from "lucide-react";
+import { useProfile } from '@/hooks/useProfile';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  buildQuote,
+  formatPrice,
+  hasCatalogue,
+  isPackageConfigured,
+  parseGigCatalogue,
+  type GigCatalogue,
+  type Quote,
+  type QuoteScope
+} from '@/lib/pricing';
+import { GigCatalogueDialog } from './GigCatalogueDialog';
+
+interface QuoteBuilderProps {
+  // Receives the quote to send with the request, or null when it shouldn't be included
+  onQuoteChange: (quote: Quote | null) => void;
+}
+
+export const QuoteBuilder = ({ onQuoteChange }: QuoteBuilderProps) => {
+  const [scope, setScope] = useState<QuoteScope>({ tier: "basic", extras: {}, customHours: 0, rush: false });
+  const [includeQuote, setIncludeQuote] = useState(true);
+  const [showCatalogue, setShowCatalogue] = useState(false);
+  const { profile, updateProfile } = useProfile();
+
+  const catalogue = useMemo(() => parseGigCatalogue(profile?.gig_catalogue), [profile]);
+  const offeredPackages = useMemo(() => catalogue.packages.filter(isPackageConfigured), [catalogue]);
+  const quote = useMemo(() => buildQuote(catalogue, scope), [catalogue, scope]);
+
+  // Start from the first package that actually has a price
+  useEffect(() => {
+    if (offeredPackages.length > 0 && !offeredPackages.some(pkg => pkg.tier === scope.tier)) {
+      setScope(current => ({ ...current, tier: offeredPackages[0].tier }));
+    }
+  }, [offeredPackages, scope.tier]);
+
+  useEffect(() => {
+    onQuoteChange(includeQuote ? quote : null);
+  }, [quote, includeQuote, onQuoteChange]);
+
+  const saveCatalogue = (updated: GigCatalogue) =>
+    updateProfile({ gig_catalogue: updated as unknown as Json });
+
+  const setExtraQuantity = (extraId: string, quantity: number) => {
+    setScope({ ...scope, extras: { ...scope.extras, [extraId]: Math.max(0, quantity) } });
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Quote Builder
+          </span>
+          <Button size="sm" variant="outline" onClick={() => setShowCatalogue(true)}>
+            <Package className="h-4 w-4 mr-2" />
+            Packages
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!hasCatalogue(catalogue) || offeredPackages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add your gig packages and rates so custom offers quote consistent prices and delivery times.
+          </p>
+        ) : (
+          <>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Package</label>
+              <div className="flex gap-2 flex-wrap">
+                {offeredPackages.map(pkg => (
+                  <Button
+                    key={pkg.tier}
+                    size="sm"
+                    variant={scope.tier === pkg.tier ? "default" : "outline"}
+                    onClick={() => setScope({ ...scope, tier: pkg.tier })}
+                    title={pkg.description || undefined}
+                  >
+                    {pkg.name} · {formatPrice(pkg.price, catalogue.currency)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {catalogue.extras.length > 0 && (
+              <div>
+                <label className="text-sm font-medium mb-2 block">Extras</label>
+                <div className="space-y-2">
+                  {catalogue.extras.map(extra => (
+                    <div key={extra.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span>
+                        {extra.name}
+                        <span className="text-muted-foreground">
+                          {' '}+{formatPrice(extra.price, catalogue.currency)}
+                          {extra.extra_days > 0 && `, +${extra.extra_days}d`}
+                        </span>
+                      </span>
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-20 h-8"
+                        value={scope.extras[extra.id] || ""}
+                        placeholder="0"
+                        onChange={(e) => setExtraQuantity(extra.id, Math.floor(Number(e.target.value)) || 0)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4 items-end">
+              {catalogue.hourly_rate > 0 && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    Custom hours <span className="text-muted-foreground font-normal">({formatPrice(catalogue.hourly_rate, catalogue.currency)}/h)</span>
+                  </label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={scope.customHours || ""}
+                    onChange={(e) => setScope({ ...scope, customHours: Number(e.target.value) || 0 })}
+                  />
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-sm font-medium pb-2">
+                <Switch checked={scope.rush} onCheckedChange={(rush) => setScope({ ...scope, rush })} />
+                Rush delivery
+              </label>
+            </div>
+
+            {quote && (
+              <div className="bg-muted/50 rounded p-3 space-y-1 text-sm">
+                {quote.lineItems.map(item => (
+                  <div key={item.label} className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">{item.label}</span>
+                    <span>{formatPrice(item.price, quote.currency)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between gap-2 font-semibold border-t pt-1 mt-1">
+                  <span>Total</span>
+                  <span>{formatPrice(quote.total, quote.currency)}</span>
+                </div>
+                <div className="flex gap-2 pt-1">
+                  <Badge variant="secondary" className="text-xs">
+                    {quote.deliveryDays} day{quote.deliveryDays !== 1 ? 's' : ''} delivery
+                  </Badge>
+                  <Badge variant="outline" className="text-xs">
+                    {quote.revisions} revision{quote.revisions !== 1 ? 's' : ''}
+                  </Badge>
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={includeQuote} onCheckedChange={setIncludeQuote} />
+              Use this quote in the generated offer
+            </label>
+          </>
+        )}
+      </CardContent>
+
+      <GigCatalogueDialog
+        open={showCatalogue}
+        onOpenChange={setShowCatalogue}
+        catalogue={catalogue}
+        onSave={saveCatalogue}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,521 @@
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GitCompare, ListChecks, Plus, Edit, Trash2, Save, X, Lightbulb, ChevronDown, ChevronUp, Search, Filter, Pin, PinOff, Eye, Tag } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useRefinedResponses, type RefinedResponse, type RefinedResponseUpdate, type RetrievedRefinedResponse } from '@/hooks/useRefinedResponses';
+import { useStyleRules, type StyleRule } from '@/hooks/useStyleRules';
+import { diffWords, suggestStyleRules, type DiffSegment, type StyleRuleSuggestion } from '@/lib/refinementDiff';
+import { getMessageTypeLabel, messageTypes } from '@/lib/messageClassification';
+import { detectLanguage } from '@/lib/languages';
+
+const REFINEMENT_SOURCE_LABELS: Record<string, string> = {
+  manual_edit: "Edited",
+  draft_pick: "Draft picked",
+  draft_merge: "Drafts merged"
+};
+
+const countWords = (segments: DiffSegment[], type: DiffSegment["type"]) =>
+  segments
+    .filter(segment => segment.type === type)
+    .reduce((sum, segment) => sum + segment.text.split(/\s+/).filter(Boolean).length, 0);
+
+const DiffView = ({ segments }: { segments: DiffSegment[] }) => (
+  <p className="text-sm leading-relaxed whitespace-pre-wrap bg-muted/30 rounded p-2">
+    {segments.map((segment, index) =>
+      segment.type === "added" ? (
+        <ins key={index} className="no-underline bg-success/20 text-success rounded px-0.5">{segment.text}</ins>
+      ) : segment.type === "removed" ? (
+        <del key={index} className="bg-destructive/15 text-destructive rounded px-0.5">{segment.text}</del>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </p>
+);
+
+const parseKeywords = (text: string) =>
+  [...new Set(text.split(",").map(keyword => keyword.trim().toLowerCase()).filter(Boolean))];
+
+interface RefinementItemProps {
+  refinement: RefinedResponse;
+  onUpdate: (refinement: RefinedResponse, updates: RefinedResponseUpdate) => Promise<boolean>;
+  onDelete: (refinement: RefinedResponse) => void;
+}
+
+const RefinementItem = ({ refinement, onUpdate, onDelete }: RefinementItemProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const [keywords, setKeywords] = useState((refinement.similarity_keywords || []).join(", "));
+  const segments = useMemo(
+    () => diffWords(refinement.original_response, refinement.refined_response),
+    [refinement.original_response, refinement.refined_response]
+  );
+
+  const keywordsChanged = parseKeywords(keywords).join(",") !== (refinement.similarity_keywords || []).join(",");
+
+  const saveKeywords = async () => {
+    const parsed = parseKeywords(keywords);
+    if (await onUpdate(refinement, { similarity_keywords: parsed.length > 0 ? parsed : null })) {
+      setKeywords(parsed.join(", "));
+    }
+  };
+
+  return (
+    <div className={`border rounded-lg p-3 space-y-2 hover:bg-muted/30 transition-colors ${refinement.is_disabled ? "opacity-60" : ""}`}>
+      <button className="w-full text-left space-y-1" onClick={() => setExpanded(!expanded)}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex flex-wrap items-center gap-1">
+            {refinement.is_pinned && (
+              <Badge className="text-xs">
+                <Pin className="h-3 w-3 mr-1" />
+                Pinned
+              </Badge>
+            )}
+            {refinement.is_disabled && <Badge variant="destructive" className="text-xs">Disabled</Badge>}
+            {refinement.message_type && (
+              <Badge variant="outline" className="text-xs">{getMessageTypeLabel(refinement.message_type)}</Badge>
+            )}
+            <Badge variant="secondary" className="text-xs">
+              {REFINEMENT_SOURCE_LABELS[refinement.refinement_source] || refinement.refinement_source}
+            </Badge>
+            <span className="text-xs text-success">+{countWords(segments, "added")}</span>
+            <span className="text-xs text-destructive">-{countWords(segments, "removed")}</span>
+          </div>
+          <div className="flex items-center gap-1 shrink-0 text-xs text-muted-foreground">
+            {new Date(refinement.created_at).toLocaleDateString()}
+            {expanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground line-clamp-1">{refinement.original_client_message}</p>
+      </button>
+      {expanded && (
+        <div className="space-y-3">
+          <DiffView segments={segments} />
+          <div>
+            <label className="text-xs font-medium mb-1 flex items-center gap-1">
+              <Tag className="h-3 w-3" />
+              Similarity keywords
+            </label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g., logo, rebrand, rush order"
+                value={keywords}
+                onChange={(e) => setKeywords(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && keywordsChanged && saveKeywords()}
+                className="h-8 text-sm"
+              />
+              <Button variant="outline" size="sm" onClick={saveKeywords} disabled={!keywordsChanged} title="Save keywords">
+                <Save className="h-3 w-3" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Client messages containing these words rank this example higher.
+            </p>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs">
+              <Switch
+                checked={!refinement.is_disabled}
+                onCheckedChange={(checked) => onUpdate(refinement, { is_disabled: !checked })}
+              />
+              Use as an example
+            </label>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onUpdate(refinement, { is_pinned: !refinement.is_pinned })}
+                disabled={refinement.is_disabled}
+                title={refinement.is_pinned ? "Unpin" : "Pin: always include this example"}
+              >
+                {refinement.is_pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(refinement)}
+                title="Delete"
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const RefinementsManager = () => {
+  const { refinedResponses, loading, updateRefinedResponse, deleteRefinedResponse, previewRetrieval } = useRefinedResponses();
+  const { rules, addRule, updateRule, deleteRule } = useStyleRules();
+  const [newRule, setNewRule] = useState("");
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [messageTypeFilter, setMessageTypeFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [previewMessage, setPreviewMessage] = useState("");
+  const [previewMessageType, setPreviewMessageType] = useState("custom_offer");
+  const [previewMatches, setPreviewMatches] = useState<RetrievedRefinedResponse[] | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const { toast } = useToast();
+
+  const filteredRefinements = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return refinedResponses.filter(refinement => {
+      if (query && ![
+        refinement.original_client_message,
+        refinement.refined_response,
+        ...(refinement.similarity_keywords || [])
+      ].some(text => text.toLowerCase().includes(query))) {
+        return false;
+      }
+      if (messageTypeFilter !== "all" && refinement.message_type !== messageTypeFilter) return false;
+      if (statusFilter === "pinned" && !refinement.is_pinned) return false;
+      if (statusFilter === "disabled" && !refinement.is_disabled) return false;
+      if (statusFilter === "active" && refinement.is_disabled) return false;
+      return true;
+    });
+  }, [refinedResponses, searchQuery, messageTypeFilter, statusFilter]);
+
+  // Suggestions the user hasn't already turned into a rule
+  const suggestions = useMemo(() => {
+    const existing = new Set(rules.map(rule => rule.rule.toLowerCase()));
+    return suggestStyleRules(refinedResponses).filter(suggestion => !existing.has(suggestion.rule.toLowerCase()));
+  }, [refinedResponses, rules]);
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  const handleAddRule = async () => {
+    const rule = newRule.trim();
+    if (!rule) return;
+
+    if (!(await addRule({ rule, source: 'manual', evidence_count: 0 }))) {
+      showError("Failed to add the style rule.");
+      return;
+    }
+    setNewRule("");
+  };
+
+  const acceptSuggestion = async (suggestion: StyleRuleSuggestion) => {
+    if (!(await addRule({ rule: suggestion.rule, source: 'extracted', evidence_count: suggestion.evidenceCount }))) {
+      showError("Failed to add the style rule.");
+      return;
+    }
+    toast({
+      title: "Style rule added",
+      description: "It will be applied to every generated response.",
+    });
+  };
+
+  const startEditing = (rule: StyleRule) => {
+    setEditingRuleId(rule.id);
+    setEditingText(rule.rule);
+  };
+
+  const saveEditing = async () => {
+    if (!editingRuleId || !editingText.trim()) return;
+
+    if (!(await updateRule(editingRuleId, { rule: editingText.trim() }))) {
+      showError("Failed to update the style rule.");
+      return;
+    }
+    setEditingRuleId(null);
+  };
+
+  const toggleRule = async (rule: StyleRule, isActive: boolean) => {
+    if (!(await updateRule(rule.id, { is_active: isActive }))) {
+      showError("Failed to update the style rule.");
+    }
+  };
+
+  const handleUpdateRefinement = async (refinement: RefinedResponse, updates: RefinedResponseUpdate) => {
+    // Disabled examples are never retrieved, so a pin on one would be misleading
+    const changes = updates.is_disabled ? { ...updates, is_pinned: false } : updates;
+    if (!(await updateRefinedResponse(refinement.id, changes))) {
+      showError("Failed to update the refined response.");
+      return false;
+    }
+    return true;
+  };
+
+  const handleDeleteRefinement = async (refinement: RefinedResponse) => {
+    if (!(await deleteRefinedResponse(refinement.id))) {
+      showError("Failed to delete the refined response.");
+      return;
+    }
+    toast({
+      title: "Refined response deleted",
+      description: "It will no longer be used as an example.",
+    });
+  };
+
+  const runPreview = async () => {
+    const message = previewMessage.trim();
+    if (!message) return;
+
+    setIsPreviewing(true);
+    const matches = await previewRetrieval(message, previewMessageType, detectLanguage(message));
+    setIsPreviewing(false);
+
+    if (!matches) {
+      showError("Failed to preview retrieval.");
+      return;
+    }
+    setPreviewMatches(matches);
+  };
+
+  const handleDeleteRule = async (rule: StyleRule) => {
+    if (!(await deleteRule(rule.id))) {
+      showError("Failed to delete the style rule.");
+    }
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Refinements
+          <Badge variant="secondary" className="ml-2">
+            {refinedResponses.length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="edits" className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="edits" className="flex items-center gap-2">
+              <GitCompare className="h-4 w-4" />
+              Edits
+            </TabsTrigger>
+            <TabsTrigger value="rules" className="flex items-center gap-2">
+              <ListChecks className="h-4 w-4" />
+              Style Rules
+              {rules.length > 0 && <Badge variant="outline" className="text-xs">{rules.filter(rule => rule.is_active).length}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="preview" className="flex items-center gap-2">
+              <Eye className="h-4 w-4" />
+              Retrieval
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="edits" className="mt-4 space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search messages, responses and keywords..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Select value={messageTypeFilter} onValueChange={setMessageTypeFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <Filter className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="Message Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {messageTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="pinned">Pinned</SelectItem>
+                  <SelectItem value="disabled">Disabled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Loading refinements...</p>
+            ) : filteredRefinements.length > 0 ? (
+              <div className="space-y-2 max-h-[500px] overflow-y-auto">
+                {filteredRefinements.map(refinement => (
+                  <RefinementItem
+                    key={refinement.id}
+                    refinement={refinement}
+                    onUpdate={handleUpdateRefinement}
+                    onDelete={handleDeleteRefinement}
+                  />
+                ))}
+              </div>
+            ) : refinedResponses.length > 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No refinements match your filters</p>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <GitCompare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No refinements yet</p>
+                <p className="text-xs mt-1">Edit a generated response and save it to see what you changed here</p>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="rules" className="mt-4 space-y-4">
+            <div className="flex gap-2">
+              <Input
+                placeholder='e.g., Sign off with "Best, Sam"'
+                value={newRule}
+                onChange={(e) => setNewRule(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddRule()}
+              />
+              <Button size="sm" onClick={handleAddRule} disabled={!newRule.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {rules.length > 0 ? (
+              <div className="space-y-2">
+                {rules.map(rule => (
+                  <div key={rule.id} className="flex items-center gap-2 border rounded-lg p-2">
+                    <Switch checked={rule.is_active} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+                    {editingRuleId === rule.id ? (
+                      <>
+                        <Input
+                          value={editingText}
+                          onChange={(e) => setEditingText(e.target.value)}
+                          onKeyDown={(e) => e.key === "Enter" && saveEditing()}
+                          className="h-8 text-sm"
+                        />
+                        <Button variant="ghost" size="sm" onClick={saveEditing} title="Save">
+                          <Save className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditingRuleId(null)} title="Cancel">
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <span className={`flex-1 text-sm ${rule.is_active ? "" : "text-muted-foreground line-through"}`}>
+                          {rule.rule}
+                        </span>
+                        {rule.source === 'extracted' && (
+                          <Badge variant="outline" className="text-xs shrink-0" title="Extracted from your edits">
+                            {rule.evidence_count} edits
+                          </Badge>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(rule)} title="Edit">
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteRule(rule)}
+                          title="Delete"
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Active rules are given to the AI as explicit style guidance for every response.
+              </p>
+            )}
+
+            {suggestions.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium flex items-center gap-1">
+                  <Lightbulb className="h-4 w-4" />
+                  Suggested from your edits
+                </p>
+                {suggestions.map(suggestion => (
+                  <div key={suggestion.rule} className="flex items-center gap-2 border border-dashed rounded-lg p-2">
+                    <span className="flex-1 text-sm">{suggestion.rule}</span>
+                    <Badge variant="outline" className="text-xs shrink-0">{suggestion.evidenceCount} edits</Badge>
+                    <Button variant="outline" size="sm" onClick={() => acceptSuggestion(suggestion)}>
+                      <Plus className="h-3 w-3 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="preview" className="mt-4 space-y-3">
+            <Textarea
+              placeholder="Paste a client message to see which refined responses would be used as examples..."
+              value={previewMessage}
+              onChange={(e) => setPreviewMessage(e.target.value)}
+              className="min-h-[80px]"
+            />
+            <div className="flex gap-2">
+              <Select value={previewMessageType} onValueChange={setPreviewMessageType}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Message Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {messageTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={runPreview} disabled={!previewMessage.trim() || isPreviewing}>
+                <Eye className="h-4 w-4 mr-2" />
+                {isPreviewing ? "Previewing..." : "Preview"}
+              </Button>
+            </div>
+
+            {previewMatches && (
+              previewMatches.length > 0 ? (
+                <div className="space-y-2">
+                  {previewMatches.map((match, index) => (
+                    <div key={match.id} className="border rounded-lg p-3 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">Example {index + 1}</span>
+                        {match.is_pinned ? (
+                          <Badge className="text-xs">
+                            <Pin className="h-3 w-3 mr-1" />
+                            Pinned
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">
+                            {Math.round(match.similarity_score * 100)}% match
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{match.original_client_message}</p>
+                      <p className="text-sm line-clamp-3">{match.refined_response}</p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No refined responses would be used for this message
+                </p>
+              )
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
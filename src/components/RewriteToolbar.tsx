@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import { Shrink, Expand, Heart, Briefcase, List, Footprints, SpellCheck, Undo2, Redo2, type LucideIcon } from "lucide-react";
+
+// Keys match REWRITE_INSTRUCTIONS in the gemini-chat function
+const rewriteActions: { value: string; label: string; icon: LucideIcon }[] = [
+  { value: "shorter", label: "Shorter", icon: Shrink },
+  { value: "detailed", label: "More detailed", icon: Expand },
+  { value: "warmer", label: "Warmer", icon: Heart },
+  { value: "formal", label: "More formal", icon: Briefcase },
+  { value: "bullets", label: "Bullets", icon: List },
+  { value: "next_steps", label: "Add next steps", icon: Footprints },
+  { value: "grammar", label: "Fix grammar", icon: SpellCheck }
+];
+
+interface RewriteToolbarProps {
+  activeRewrite: string | null;
+  disabled?: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onRewrite: (rewrite: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export const RewriteToolbar = ({ activeRewrite, disabled, canUndo, canRedo, onRewrite, onUndo, onRedo }: RewriteToolbarProps) => {
+  const busy = disabled || activeRewrite !== null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {rewriteActions.map(({ value, label, icon: Icon }) => (
+        <Button
+          key={value}
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={busy}
+          onClick={() => onRewrite(value)}
+        >
+          <Icon className="h-3 w-3 mr-1" />
+          {activeRewrite === value ? "Rewriting..." : label}
+        </Button>
+      ))}
+      <div className="flex gap-1 ml-auto">
+        <Button variant="ghost" size="sm" className="h-7" onClick={onUndo} disabled={busy || !canUndo} title="Undo">
+          <Undo2 className="h-3 w-3" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7" onClick={onRedo} disabled={busy || !canRedo} title="Redo">
+          <Redo2 className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+};
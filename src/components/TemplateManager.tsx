@@ -10,9 +10,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Plus, Edit, Trash2, Copy, BookOpen, Upload, Star, TrendingUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from '@/hooks/useAuth';
+import { useTemplateAnalytics } from '@/hooks/useTemplateAnalytics';
 import { supabase } from '@/integrations/supabase/client';
+import { toneStyles } from '@/lib/toneStyles';
+import { parseTemplateVariables } from '@/lib/templateVariables';
+import { queueEmbeddingBackfill } from '@/lib/embeddings';
 import { TemplateUpload } from './TemplateUpload';
 import { CuratedTemplatesLibrary } from './CuratedTemplatesLibrary';
+import { TemplateVariableDialog } from './TemplateVariableDialog';
 
 interface MessageTemplate {
   id: string;
@@ -33,11 +38,13 @@ interface MessageTemplate {
 }
 
 interface TemplateManagerProps {
-  onUseTemplate: (content: string) => void;
+  onUseTemplate: (content: string, templateId?: string) => void;
+  selectedClientId?: string | null;
 }
 
-export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
+export const TemplateManager = ({ onUseTemplate, selectedClientId = null }: TemplateManagerProps) => {
   const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [fillingTemplate, setFillingTemplate] = useState<MessageTemplate | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<MessageTemplate | null>(null);
   const [title, setTitle] = useState("");
@@ -49,6 +56,7 @@ export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
   const [industryTags, setIndustryTags] = useState("");
   const [matchingKeywords, setMatchingKeywords] = useState("");
   const { user } = useAuth();
+  const { logUsage } = useTemplateAnalytics();
   const { toast } = useToast();
 
   const categories = [
@@ -63,15 +71,6 @@ export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
     { value: "custom", label: "Custom" }
   ];
 
-  const toneStyles = [
-    { value: "professional", label: "Professional" },
-    { value: "warm", label: "Warm & Friendly" },
-    { value: "consultative", label: "Consultative" },
-    { value: "collaborative", label: "Collaborative" },
-    { value: "efficient", label: "Direct & Efficient" },
-    { value: "premium", label: "Premium Service" }
-  ];
-
   const complexityLevels = [
     { value: "simple", label: "Simple" },
     { value: "standard", label: "Standard" },
@@ -160,6 +159,7 @@ export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
 
       resetForm();
       loadTemplates();
+      queueEmbeddingBackfill('message_templates');
     } catch (error) {
       console.error('Error saving template:', error);
       toast({
@@ -223,22 +223,41 @@ export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
     setIsDialogOpen(true);
   };
 
-  const copyToClipboard = (content: string) => {
-    navigator.clipboard.writeText(content);
+  // Templates with {{placeholders}} go through the fill-in form first
+  const hasVariables = (template: MessageTemplate) =>
+    parseTemplateVariables(template.template_content, template.template_variables).length > 0;
+
+  const copyToClipboard = (template: MessageTemplate) => {
+    if (hasVariables(template)) {
+      setFillingTemplate(template);
+      return;
+    }
+
+    navigator.clipboard.writeText(template.template_content);
+    logUsage({ templateIds: [template.id] });
     toast({
       title: "Copied to clipboard",
       description: "Template content copied successfully!"
     });
   };
 
-  const useTemplateAndTrack = async (template: MessageTemplate) => {
+  const applyTemplate = async (template: MessageTemplate, content: string) => {
     // Track template usage
     try {
       await supabase.rpc('update_template_usage', { template_id: template.id });
     } catch (error) {
       console.error('Error tracking template usage:', error);
     }
-    onUseTemplate(template.template_content);
+    onUseTemplate(content, template.id);
+  };
+
+  const useTemplateAndTrack = (template: MessageTemplate) => {
+    if (hasVariables(template)) {
+      setFillingTemplate(template);
+      return;
+    }
+
+    applyTemplate(template, template.template_content);
   };
 
   const openNewTemplate = () => {
@@ -429,6 +448,12 @@ export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
                               {template.usage_count}
                             </Badge>
                           )}
+                          {template.success_rating != null && (
+                            <Badge variant="outline" className="text-xs bg-yellow-50 text-yellow-700" title="Average outcome rating (1-5)">
+                              <Star className="h-3 w-3 mr-1" />
+                              {Number(template.success_rating).toFixed(1)}
+                            </Badge>
+                          )}
                         </div>
                         
                         <div className="flex gap-1">
@@ -443,7 +468,7 @@ export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => copyToClipboard(template.template_content)}
+                            onClick={() => copyToClipboard(template)}
                             title="Copy to clipboard"
                           >
                             <Copy className="h-3 w-3" />
@@ -504,6 +529,7 @@ export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
           <CuratedTemplatesLibrary 
             onUseTemplate={onUseTemplate} 
             onAddToPersonal={handleCuratedTemplateAdd}
+            selectedClientId={selectedClientId}
           />
         </TabsContent>
 
@@ -511,6 +537,14 @@ export const TemplateManager = ({ onUseTemplate }: TemplateManagerProps) => {
           <TemplateUpload onUploadComplete={loadTemplates} />
         </TabsContent>
       </Tabs>
+
+      <TemplateVariableDialog
+        template={fillingTemplate}
+        defaultClientId={selectedClientId}
+        onClose={() => setFillingTemplate(null)}
+        onUse={(content) => fillingTemplate && applyTemplate(fillingTemplate, content)}
+        onCopy={() => fillingTemplate && logUsage({ templateIds: [fillingTemplate.id] })}
+      />
     </div>
   );
 };
\ No newline at end of file
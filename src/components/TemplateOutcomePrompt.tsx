@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { templateOutcomes } from '@/lib/templateOutcomes';
+
+interface PendingUsage {
+  usageGroupId: string;
+  usedAt: string;
+  clientMessage: string | null;
+  templateTitles: string[];
+}
+
+interface TemplateOutcomePromptProps {
+  refreshKey?: number;
+}
+
+// Ask about a reply once the client has had time to answer, and stop asking after two weeks
+const PROMPT_DELAY_MS = 60 * 60 * 1000;
+const PROMPT_WINDOW_DAYS = 14;
+const MAX_PROMPTS = 3;
+
+export const TemplateOutcomePrompt = ({ refreshKey = 0 }: TemplateOutcomePromptProps) => {
+  const [pending, setPending] = useState<PendingUsage[]>([]);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      loadPendingUsages();
+    }
+  }, [user, refreshKey]);
+
+  const loadPendingUsages = async () => {
+    if (!user) return;
+
+    const windowStart = new Date();
+    windowStart.setDate(windowStart.getDate() - PROMPT_WINDOW_DAYS);
+
+    try {
+      const { data, error } = await supabase
+        .from('template_analytics')
+        .select('usage_group_id, used_at, client_message_context, message_templates(title)')
+        .eq('user_id', user.id)
+        .is('conversion_outcome', null)
+        .gte('used_at', windowStart.toISOString())
+        .lte('used_at', new Date(Date.now() - PROMPT_DELAY_MS).toISOString())
+        .order('used_at', { ascending: false })
+        .limit(50);
+
+      if (error) {
+        console.error('Error loading pending template outcomes:', error);
+        return;
+      }
+
+      const groups = new Map<string, PendingUsage>();
+      (data || []).forEach(row => {
+        const group = groups.get(row.usage_group_id) || {
+          usageGroupId: row.usage_group_id,
+          usedAt: row.used_at,
+          clientMessage: row.client_message_context,
+          templateTitles: []
+        };
+        if (row.message_templates?.title) {
+          group.templateTitles.push(row.message_templates.title);
+        }
+        groups.set(row.usage_group_id, group);
+      });
+
+      setPending([...groups.values()]);
+    } catch (error) {
+      console.error('Error loading pending template outcomes:', error);
+    }
+  };
+
+  const recordOutcome = async (usage: PendingUsage, outcome: string) => {
+    const elapsedSeconds = Math.round((Date.now() - new Date(usage.usedAt).getTime()) / 1000);
+
+    try {
+      const { error } = await supabase
+        .from('template_analytics')
+        .update({
+          conversion_outcome: outcome,
+          // Best estimate of how long the client took: the time until the outcome was recorded
+          client_response_time: outcome === 'no_reply' ? null : `${elapsedSeconds} seconds`
+        })
+        .eq('usage_group_id', usage.usageGroupId);
+
+      if (error) throw error;
+
+      setPending(pending.filter(item => item.usageGroupId !== usage.usageGroupId));
+      toast({
+        title: "Outcome recorded",
+        description: "Template success ratings have been updated."
+      });
+    } catch (error) {
+      console.error('Error recording template outcome:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record outcome.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const visible = pending.filter(usage => !dismissed.includes(usage.usageGroupId)).slice(0, MAX_PROMPTS);
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          How did these replies go?
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {visible.map(usage => (
+          <div key={usage.usageGroupId} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="space-y-1 min-w-0">
+                <p className="text-xs text-muted-foreground">
+                  Sent {new Date(usage.usedAt).toLocaleString()}
+                </p>
+                {usage.clientMessage && (
+                  <p className="text-xs line-clamp-2">
+                    <strong>Client:</strong> {usage.clientMessage}
+                  </p>
+                )}
+                <div className="flex gap-1 flex-wrap">
+                  {usage.templateTitles.length > 0 ? (
+                    usage.templateTitles.map(title => (
+                      <Badge key={title} variant="outline" className="text-xs">{title}</Badge>
+                    ))
+                  ) : (
+                    <Badge variant="outline" className="text-xs">Generated response</Badge>
+                  )}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDismissed([...dismissed, usage.usageGroupId])}
+                title="Ask me later"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              {templateOutcomes.map(outcome => (
+                <Button
+                  key={outcome.value}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 text-xs"
+                  onClick={() => recordOutcome(usage, outcome.value)}
+                >
+                  {outcome.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -9,6 +9,7 @@ import { Upload, FileText, CheckCircle, AlertTriangle, Download } from "lucide-r
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { queueEmbeddingBackfill } from '@/lib/embeddings';
 
 interface TemplateUploadProps {
   onUploadComplete?: () => void;
@@ -411,6 +412,7 @@ export const TemplateUpload = ({ onUploadComplete }: TemplateUploadProps) => {
           description: `Successfully imported ${successful} template(s).`
         });
         onUploadComplete?.();
+        queueEmbeddingBackfill('message_templates');
       }
 
     } catch (error) {
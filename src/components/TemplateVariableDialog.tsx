@@ -0,0 +1,194 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Copy, Send, Variable } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useClients } from '@/hooks/useClients';
+import { useProfile } from '@/hooks/useProfile';
+import {
+  fillTemplate,
+  findUnfilledPlaceholders,
+  parseTemplateVariables,
+  type TemplateValues,
+  type TemplateVariable
+} from '@/lib/templateVariables';
+
+export interface FillableTemplate {
+  id?: string;
+  title: string;
+  template_content: string;
+  template_variables?: unknown;
+}
+
+interface TemplateVariableDialogProps {
+  template: FillableTemplate | null;
+  defaultClientId?: string | null;
+  onClose: () => void;
+  onUse: (content: string) => void;
+  onCopy?: (content: string) => void;
+}
+
+const NO_CLIENT = "none";
+
+const inputTypes: Partial<Record<TemplateVariable["type"], string>> = {
+  date: "date",
+  currency: "number",
+  number: "number"
+};
+
+export const TemplateVariableDialog = ({ template, defaultClientId = null, onClose, onUse, onCopy }: TemplateVariableDialogProps) => {
+  const [clientId, setClientId] = useState<string | null>(defaultClientId);
+  const [values, setValues] = useState<TemplateValues>({});
+  const [confirmUnfilled, setConfirmUnfilled] = useState(false);
+  const { clients, rememberTemplateValues } = useClients();
+  const { profile } = useProfile();
+  const { toast } = useToast();
+
+  const variables = useMemo(
+    () => template ? parseTemplateVariables(template.template_content, template.template_variables) : [],
+    [template]
+  );
+  const client = clients.find(c => c.id === clientId) || null;
+
+  useEffect(() => {
+    setClientId(defaultClientId);
+  }, [template, defaultClientId]);
+
+  // Prefill: remembered client value, then what we know about the client/seller, then the template default
+  useEffect(() => {
+    const known: TemplateValues = {
+      client_name: client?.name || "",
+      freelancer_name: profile?.display_name || profile?.fiverr_username || ""
+    };
+
+    setValues(Object.fromEntries(variables.map(variable => [
+      variable.name,
+      client?.template_values[variable.name] || known[variable.name] || variable.defaultValue
+    ])));
+    setConfirmUnfilled(false);
+  }, [variables, client, profile]);
+
+  const filled = template ? fillTemplate(template.template_content, variables, values) : "";
+  const unfilled = findUnfilledPlaceholders(filled);
+
+  const updateValue = (name: string, value: string) => {
+    setValues({ ...values, [name]: value });
+    setConfirmUnfilled(false);
+  };
+
+  const finish = async (action: "use" | "copy") => {
+    if (unfilled.length > 0 && !confirmUnfilled) {
+      setConfirmUnfilled(true);
+      return;
+    }
+
+    if (action === "copy") {
+      navigator.clipboard.writeText(filled);
+      toast({
+        title: "Copied to clipboard",
+        description: "Template copied with your values filled in."
+      });
+      onCopy?.(filled);
+    } else {
+      onUse(filled);
+    }
+
+    if (clientId) {
+      const toRemember = Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim()));
+      await rememberTemplateValues(clientId, toRemember);
+    }
+
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Variable className="h-5 w-5" />
+            Fill in "{template?.title}"
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Client</label>
+              <Select value={clientId || NO_CLIENT} onValueChange={(value) => setClientId(value === NO_CLIENT ? null : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CLIENT}>No client (don't remember values)</SelectItem>
+                  {clients.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {variables.map(variable => (
+              <div key={variable.name}>
+                <label className="text-sm font-medium mb-2 block">
+                  {variable.label}
+                  {variable.type === "currency" && <span className="text-muted-foreground font-normal"> ({variable.currency})</span>}
+                </label>
+                {variable.type === "list" ? (
+                  <Textarea
+                    placeholder="One item per line"
+                    value={values[variable.name] || ""}
+                    onChange={(e) => updateValue(variable.name, e.target.value)}
+                    className="min-h-[80px]"
+                  />
+                ) : (
+                  <Input
+                    type={inputTypes[variable.type] || "text"}
+                    step={variable.type === "currency" ? "0.01" : undefined}
+                    value={values[variable.name] || ""}
+                    onChange={(e) => updateValue(variable.name, e.target.value)}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-sm font-medium block">Preview</label>
+            <div className="bg-muted/50 rounded p-3 text-sm whitespace-pre-wrap max-h-[400px] overflow-y-auto">
+              {filled}
+            </div>
+
+            {unfilled.length > 0 && (
+              <Alert variant={confirmUnfilled ? "destructive" : "default"}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Still unfilled: {unfilled.map(name => `{{${name}}}`).join(", ")}.
+                  {confirmUnfilled && " Click again to continue anyway."}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => finish("copy")}>
+            <Copy className="h-4 w-4 mr-2" />
+            {confirmUnfilled ? "Copy Anyway" : "Copy"}
+          </Button>
+          <Button onClick={() => finish("use")}>
+            <Send className="h-4 w-4 mr-2" />
+            {confirmUnfilled ? "Insert Anyway" : "Insert"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,270 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Mic, Eye } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  emojiPolicies,
+  formalityLabels,
+  parsePhraseList,
+  previewVoice,
+  responseFormats,
+  type EmojiPolicy,
+  type ResponseFormat,
+  type VoiceSettings
+} from '@/lib/voice';
+
+interface VoiceSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: VoiceSettings;
+  onSave: (settings: VoiceSettings) => Promise<boolean>;
+}
+
+const SAMPLE_MESSAGE = "Hi! I need a logo for my new coffee shop. Could you have a few ideas ready by Friday, and what would that cost?";
+// Once a preview has been generated, it refreshes this long after the last change
+const PREVIEW_DEBOUNCE_MS = 1500;
+
+export const VoiceSettingsDialog = ({ open, onOpenChange, settings, onSave }: VoiceSettingsDialogProps) => {
+  const [draft, setDraft] = useState<VoiceSettings>(settings);
+  // Phrase lists are edited one per line and parsed when used
+  const [bannedText, setBannedText] = useState("");
+  const [requiredText, setRequiredText] = useState("");
+  const [sampleMessage, setSampleMessage] = useState(SAMPLE_MESSAGE);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const previewRequestRef = useRef(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setDraft(settings);
+      setBannedText(settings.banned_phrases.join("\n"));
+      setRequiredText(settings.required_phrases.join("\n"));
+      setPreview(null);
+    }
+  }, [open, settings]);
+
+  const currentSettings = (): VoiceSettings => ({
+    ...draft,
+    signature: draft.signature.trim(),
+    greeting_style: draft.greeting_style.trim(),
+    closing_style: draft.closing_style.trim(),
+    banned_phrases: parsePhraseList(bannedText),
+    required_phrases: parsePhraseList(requiredText)
+  });
+
+  const runPreview = async () => {
+    if (!sampleMessage.trim()) return;
+
+    // Only the latest request may update the preview
+    const request = ++previewRequestRef.current;
+    setIsPreviewing(true);
+    const reply = await previewVoice(currentSettings(), sampleMessage.trim());
+    if (request !== previewRequestRef.current) return;
+    setIsPreviewing(false);
+
+    if (reply === null) {
+      toast({
+        title: "Preview failed",
+        description: "Could not generate a preview reply. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setPreview(reply);
+  };
+
+  // Keep the preview live once the user has asked for one
+  useEffect(() => {
+    if (preview === null) return;
+    const timer = setTimeout(runPreview, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draft, bannedText, requiredText, sampleMessage]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const success = await onSave(currentSettings());
+
+      if (success) {
+        toast({
+          title: "Voice settings saved",
+          description: "Every generated response will follow your voice."
+        });
+        onOpenChange(false);
+      } else {
+        throw new Error('Profile update failed');
+      }
+    } catch (error) {
+      console.error('Error saving voice settings:', error);
+      toast({
+        title: "Save failed",
+        description: "Failed to save your voice settings. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mic className="h-5 w-5" />
+            Voice Settings
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Greeting Style</label>
+              <Input
+                placeholder='e.g., "Hi {name}, thanks for reaching out!"'
+                value={draft.greeting_style}
+                onChange={(e) => setDraft({ ...draft, greeting_style: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Closing Style</label>
+              <Input
+                placeholder='e.g., "Looking forward to working with you!"'
+                value={draft.closing_style}
+                onChange={(e) => setDraft({ ...draft, closing_style: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">Signature</label>
+            <Textarea
+              placeholder={"e.g., Best,\nSam - Brand Designer"}
+              value={draft.signature}
+              onChange={(e) => setDraft({ ...draft, signature: e.target.value })}
+              className="min-h-[60px]"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              Formality: {formalityLabels[draft.formality - 1]}
+            </label>
+            <Slider
+              min={1}
+              max={5}
+              step={1}
+              value={[draft.formality]}
+              onValueChange={([formality]) => setDraft({ ...draft, formality })}
+            />
+            <div className="flex justify-between text-xs text-muted-foreground mt-1">
+              <span>{formalityLabels[0]}</span>
+              <span>{formalityLabels[formalityLabels.length - 1]}</span>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Emojis</label>
+              <Select value={draft.emoji_policy} onValueChange={(value) => setDraft({ ...draft, emoji_policy: value as EmojiPolicy })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {emojiPolicies.map(policy => (
+                    <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Formatting</label>
+              <Select value={draft.format} onValueChange={(value) => setDraft({ ...draft, format: value as ResponseFormat })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {responseFormats.map(format => (
+                    <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Max Length (words)</label>
+              <Input
+                type="number"
+                min="0"
+                placeholder="No limit"
+                value={draft.max_words || ""}
+                onChange={(e) => setDraft({ ...draft, max_words: Math.max(Math.round(Number(e.target.value)) || 0, 0) })}
+              />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Banned Phrases</label>
+              <Textarea
+                placeholder={"One per line, e.g.\nI hope this message finds you well"}
+                value={bannedText}
+                onChange={(e) => setBannedText(e.target.value)}
+                className="min-h-[80px]"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Required Phrases</label>
+              <Textarea
+                placeholder={"One per line, e.g.\nFeel free to check my portfolio"}
+                value={requiredText}
+                onChange={(e) => setRequiredText(e.target.value)}
+                className="min-h-[80px]"
+              />
+            </div>
+          </div>
+
+          <div className="border rounded-lg p-3 space-y-3 bg-muted/30">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Preview</label>
+              <Button size="sm" variant="outline" onClick={runPreview} disabled={isPreviewing || !sampleMessage.trim()}>
+                <Eye className="h-4 w-4 mr-2" />
+                {isPreviewing ? "Generating..." : preview === null ? "Preview Reply" : "Refresh"}
+              </Button>
+            </div>
+            <Textarea
+              value={sampleMessage}
+              onChange={(e) => setSampleMessage(e.target.value)}
+              className="min-h-[60px] bg-background"
+            />
+            {preview !== null ? (
+              <p className={`text-sm whitespace-pre-wrap bg-background rounded p-3 ${isPreviewing ? "opacity-60" : ""}`}>
+                {preview}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Generate a reply to the sample message with these settings before saving. It updates as you change them.
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Voice"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
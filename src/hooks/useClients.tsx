@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface PastOrder {
+  order_id: string;
+  title: string;
+  amount: number | null;
+  status: string;
+  date: string;
+}
+
+export interface ClientProfile {
+  id: string;
+  user_id: string;
+  name: string;
+  fiverr_username: string | null;
+  country: string | null;
+  timezone: string | null;
+  client_type: string | null;
+  budget_min: number | null;
+  budget_max: number | null;
+  currency: string;
+  preferred_tone: string | null;
+  notes: string | null;
+  past_orders: PastOrder[];
+  template_values: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ClientProfileInput = Omit<ClientProfile, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'template_values'>;
+
+const toClientProfile = (
+  row: Omit<ClientProfile, 'past_orders' | 'template_values'> & { past_orders: Json; template_values: Json }
+): ClientProfile => ({
+  ...row,
+  past_orders: Array.isArray(row.past_orders) ? (row.past_orders as unknown as PastOrder[]) : [],
+  template_values: row.template_values && typeof row.template_values === 'object' && !Array.isArray(row.template_values)
+    ? (row.template_values as Record<string, string>)
+    : {}
+});
+
+export function useClients() {
+  const [clients, setClients] = useState<ClientProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadClients();
+    } else {
+      setClients([]);
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadClients = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('clients')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setClients((data || []).map(toClientProfile));
+    } catch (error) {
+      console.error('Error loading clients:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveClient = async (input: ClientProfileInput, clientId?: string) => {
+    if (!user) return null;
+
+    const payload = { ...input, past_orders: input.past_orders as unknown as Json };
+
+    try {
+      const { data, error } = clientId
+        ? await supabase.from('clients').update(payload).eq('id', clientId).select().single()
+        : await supabase.from('clients').insert({ user_id: user.id, ...payload }).select().single();
+
+      if (error) throw error;
+      await loadClients();
+      return toClientProfile(data);
+    } catch (error) {
+      console.error('Error saving client:', error);
+      return null;
+    }
+  };
+
+  const deleteClient = async (clientId: string) => {
+    try {
+      const { error } = await supabase
+        .from('clients')
+        .delete()
+        .eq('id', clientId);
+
+      if (error) throw error;
+      setClients(clients.filter(client => client.id !== clientId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting client:', error);
+      return false;
+    }
+  };
+
+  // Merges filled-in template variables into what's remembered for the client
+  const rememberTemplateValues = async (clientId: string, values: Record<string, string>) => {
+    const client = clients.find(c => c.id === clientId);
+    const merged = { ...(client?.template_values || {}), ...values };
+
+    try {
+      const { error } = await supabase
+        .from('clients')
+        .update({ template_values: merged })
+        .eq('id', clientId);
+
+      if (error) throw error;
+      setClients(clients.map(c => c.id === clientId ? { ...c, template_values: merged } : c));
+      return true;
+    } catch (error) {
+      console.error('Error saving client template values:', error);
+      return false;
+    }
+  };
+
+  return {
+    clients,
+    loading,
+    saveClient,
+    deleteClient,
+    rememberTemplateValues,
+    refreshClients: loadClients
+  };
+}
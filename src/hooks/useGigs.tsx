@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { queueEmbeddingBackfill } from '@/lib/embeddings';
+import { normalizeFaqs, normalizePackages, type GigInput } from '@/lib/gigs';
+
+export interface Gig extends GigInput {
+  id: string;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GigRow extends Omit<Gig, 'packages' | 'faqs'> {
+  packages: Json;
+  faqs: Json;
+}
+
+const GIG_COLUMNS = 'id, user_id, title, description, category, tags, gig_url, currency, packages, faqs, requirements, is_active, created_at, updated_at';
+
+const toGig = (row: GigRow): Gig => ({
+  ...row,
+  packages: normalizePackages(row.packages),
+  faqs: normalizeFaqs(row.faqs)
+});
+
+const toPayload = (input: GigInput) => ({
+  ...input,
+  packages: input.packages as unknown as Json,
+  faqs: input.faqs as unknown as Json
+});
+
+export function useGigs() {
+  const [gigs, setGigs] = useState<Gig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadGigs();
+    } else {
+      setGigs([]);
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadGigs = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('gigs')
+        .select(GIG_COLUMNS)
+        .eq('user_id', user.id)
+        .order('title', { ascending: true });
+
+      if (error) throw error;
+      setGigs((data || []).map(toGig));
+    } catch (error) {
+      console.error('Error loading gigs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveGig = async (input: GigInput, gigId?: string) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = gigId
+        ? await supabase.from('gigs').update(toPayload(input)).eq('id', gigId).select(GIG_COLUMNS).single()
+        : await supabase.from('gigs').insert({ user_id: user.id, ...toPayload(input) }).select(GIG_COLUMNS).single();
+
+      if (error) throw error;
+      await loadGigs();
+      queueEmbeddingBackfill('gigs');
+      return toGig(data);
+    } catch (error) {
+      console.error('Error saving gig:', error);
+      return null;
+    }
+  };
+
+  // Imported gigs replace existing ones with the same title, so re-importing an export updates it
+  const importGigs = async (inputs: GigInput[]) => {
+    if (!user || inputs.length === 0) return 0;
+
+    try {
+      const existing = new Map(gigs.map(gig => [gig.title.toLowerCase(), gig.id]));
+      const updates = inputs.filter(input => existing.has(input.title.toLowerCase()));
+      const inserts = inputs.filter(input => !existing.has(input.title.toLowerCase()));
+
+      if (inserts.length > 0) {
+        const { error } = await supabase
+          .from('gigs')
+          .insert(inserts.map(input => ({ user_id: user.id, ...toPayload(input) })));
+        if (error) throw error;
+      }
+
+      for (const input of updates) {
+        const { error } = await supabase
+          .from('gigs')
+          .update(toPayload(input))
+          .eq('id', existing.get(input.title.toLowerCase()));
+        if (error) throw error;
+      }
+
+      await loadGigs();
+      queueEmbeddingBackfill('gigs');
+      return inputs.length;
+    } catch (error) {
+      console.error('Error importing gigs:', error);
+      await loadGigs();
+      return null;
+    }
+  };
+
+  const deleteGig = async (gigId: string) => {
+    try {
+      const { error } = await supabase
+        .from('gigs')
+        .delete()
+        .eq('id', gigId);
+
+      if (error) throw error;
+      setGigs(gigs.filter(gig => gig.id !== gigId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting gig:', error);
+      return false;
+    }
+  };
+
+  return {
+    gigs,
+    loading,
+    saveGig,
+    importGigs,
+    deleteGig,
+    refreshGigs: loadGigs
+  };
+}
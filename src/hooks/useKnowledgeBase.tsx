@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { queueEmbeddingBackfill } from '@/lib/embeddings';
+import { chunkText, type KnowledgeSourceType } from '@/lib/knowledgeBase';
+
+export interface KnowledgeDocument {
+  id: string;
+  user_id: string;
+  title: string;
+  source_type: KnowledgeSourceType;
+  content: string;
+  file_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type KnowledgeDocumentInput = Pick<KnowledgeDocument, 'title' | 'source_type' | 'content' | 'file_name'>;
+
+export function useKnowledgeBase() {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadDocuments();
+    } else {
+      setDocuments([]);
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadDocuments = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('knowledge_documents')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setDocuments((data || []) as KnowledgeDocument[]);
+    } catch (error) {
+      console.error('Error loading knowledge base:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Saves the document and replaces its chunks; embeddings are filled in by the backfill job
+  const saveDocument = async (input: KnowledgeDocumentInput, documentId?: string) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = documentId
+        ? await supabase.from('knowledge_documents').update(input).eq('id', documentId).select().single()
+        : await supabase.from('knowledge_documents').insert({ user_id: user.id, ...input }).select().single();
+
+      if (error) throw error;
+
+      const { error: deleteError } = await supabase
+        .from('knowledge_chunks')
+        .delete()
+        .eq('document_id', data.id);
+      if (deleteError) throw deleteError;
+
+      const chunks = chunkText(input.source_type === 'document' ? input.content : `${input.title}\n\n${input.content}`);
+      if (chunks.length > 0) {
+        const { error: chunkError } = await supabase
+          .from('knowledge_chunks')
+          .insert(chunks.map((content, index) => ({
+            user_id: user.id,
+            document_id: data.id,
+            chunk_index: index,
+            content
+          })));
+        if (chunkError) throw chunkError;
+      }
+
+      await loadDocuments();
+      queueEmbeddingBackfill('knowledge_chunks');
+      return data as KnowledgeDocument;
+    } catch (error) {
+      console.error('Error saving knowledge document:', error);
+      return null;
+    }
+  };
+
+  const deleteDocument = async (documentId: string) => {
+    try {
+      const { error } = await supabase
+        .from('knowledge_documents')
+        .delete()
+        .eq('id', documentId);
+
+      if (error) throw error;
+      setDocuments(documents.filter(document => document.id !== documentId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting knowledge document:', error);
+      return false;
+    }
+  };
+
+  return {
+    documents,
+    loading,
+    saveDocument,
+    deleteDocument,
+    refreshDocuments: loadDocuments
+  };
+}
@@ -1,12 +1,19 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from './useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 
 export interface UserProfile {
   id: string;
   user_id: string;
   display_name: string | null;
   fiverr_username: string | null;
+  llm_provider: string | null;
+  // Raw JSON; read it with parseGigCatalogue from '@/lib/pricing'
+  gig_catalogue: Json;
+  // Raw JSON; read it with parseVoiceSettings from '@/lib/voice'
+  voice_settings: Json;
+  knowledge_strict_mode: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -77,7 +84,7 @@ export function useProfile() {
     }
   };
 
-  const updateProfile = async (updates: Partial<Pick<UserProfile, 'display_name' | 'fiverr_username'>>) => {
+  const updateProfile = async (updates: Partial<Pick<UserProfile, 'display_name' | 'fiverr_username' | 'llm_provider' | 'gig_catalogue' | 'voice_settings' | 'knowledge_strict_mode'>>) => {
     if (!user || !profile) return false;
 
     try {
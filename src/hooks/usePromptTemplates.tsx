@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface PromptTemplate {
+  id: string;
+  // null for global templates, which can be used and copied but not edited
+  user_id: string | null;
+  // null applies to every message type
+  message_type: string | null;
+  name: string;
+  version: number;
+  body: string;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PromptTemplateInput = Pick<PromptTemplate, 'message_type' | 'name' | 'body' | 'notes'>;
+
+const sameScope = (template: PromptTemplate, userId: string | null, messageType: string | null) =>
+  template.user_id === userId && template.message_type === messageType;
+
+export function usePromptTemplates() {
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadPromptTemplates();
+    } else {
+      setPromptTemplates([]);
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadPromptTemplates = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      // RLS returns the user's own templates plus the global ones
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*')
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      setPromptTemplates(data || []);
+    } catch (error) {
+      console.error('Error loading prompt templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Templates are never edited in place: every change is saved as the next version of its scope
+  const createVersion = async (input: PromptTemplateInput) => {
+    if (!user) return null;
+
+    const version = Math.max(0, ...promptTemplates
+      .filter(template => sameScope(template, user.id, input.message_type))
+      .map(template => template.version)) + 1;
+
+    try {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .insert({ user_id: user.id, ...input, version, is_active: false })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setPromptTemplates([data, ...promptTemplates]);
+      return data;
+    } catch (error) {
+      console.error('Error creating prompt template version:', error);
+      return null;
+    }
+  };
+
+  // Only one version per scope may be active, so the current one is switched off first
+  const setActiveVersion = async (template: PromptTemplate, isActive: boolean) => {
+    if (!user) return false;
+
+    try {
+      if (isActive) {
+        const current = supabase
+          .from('prompt_templates')
+          .update({ is_active: false })
+          .eq('user_id', user.id)
+          .eq('is_active', true);
+        const { error } = await (template.message_type
+          ? current.eq('message_type', template.message_type)
+          : current.is('message_type', null));
+
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from('prompt_templates')
+        .update({ is_active: isActive })
+        .eq('id', template.id);
+
+      if (error) throw error;
+      setPromptTemplates(promptTemplates.map(existing =>
+        existing.id === template.id
+          ? { ...existing, is_active: isActive }
+          : isActive && sameScope(existing, user.id, template.message_type) ? { ...existing, is_active: false } : existing
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error activating prompt template:', error);
+      return false;
+    }
+  };
+
+  const deleteVersion = async (templateId: string) => {
+    try {
+      const { error } = await supabase
+        .from('prompt_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+      setPromptTemplates(promptTemplates.filter(template => template.id !== templateId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting prompt template:', error);
+      return false;
+    }
+  };
+
+  return {
+    promptTemplates,
+    loading,
+    createVersion,
+    setActiveVersion,
+    deleteVersion,
+    refreshPromptTemplates: loadPromptTemplates
+  };
+}
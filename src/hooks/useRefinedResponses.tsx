@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface RefinedResponse {
+  id: string;
+  original_client_message: string;
+  original_response: string;
+  refined_response: string;
+  message_type: string | null;
+  refinement_source: string;
+  chosen_tone: string | null;
+  language: string | null;
+  similarity_keywords: string[] | null;
+  is_pinned: boolean;
+  is_disabled: boolean;
+  created_at: string;
+}
+
+export type RefinedResponseUpdate = Partial<Pick<RefinedResponse, 'similarity_keywords' | 'is_pinned' | 'is_disabled'>>;
+
+// A refined response as find_similar_refined_responses ranks it for a client message
+export interface RetrievedRefinedResponse {
+  id: string;
+  original_client_message: string;
+  refined_response: string;
+  language: string;
+  is_pinned: boolean;
+  similarity_score: number;
+}
+
+const REFINED_RESPONSE_COLUMNS = 'id, original_client_message, original_response, refined_response, message_type, refinement_source, chosen_tone, language, similarity_keywords, is_pinned, is_disabled, created_at';
+
+export function useRefinedResponses() {
+  const [refinedResponses, setRefinedResponses] = useState<RefinedResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadRefinedResponses();
+    } else {
+      setRefinedResponses([]);
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadRefinedResponses = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('refined_responses')
+        .select(REFINED_RESPONSE_COLUMNS)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRefinedResponses(data || []);
+    } catch (error) {
+      console.error('Error loading refined responses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRefinedResponse = async (refinedResponseId: string, updates: RefinedResponseUpdate) => {
+    try {
+      const { data, error } = await supabase
+        .from('refined_responses')
+        .update(updates)
+        .eq('id', refinedResponseId)
+        .select(REFINED_RESPONSE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      setRefinedResponses(refinedResponses.map(refined => refined.id === refinedResponseId ? data : refined));
+      return true;
+    } catch (error) {
+      console.error('Error updating refined response:', error);
+      return false;
+    }
+  };
+
+  const deleteRefinedResponse = async (refinedResponseId: string) => {
+    try {
+      const { error } = await supabase
+        .from('refined_responses')
+        .delete()
+        .eq('id', refinedResponseId);
+
+      if (error) throw error;
+      setRefinedResponses(refinedResponses.filter(refined => refined.id !== refinedResponseId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting refined response:', error);
+      return false;
+    }
+  };
+
+  // Runs the same retrieval as generation (embedding, message type, language, pins) without generating
+  const previewRetrieval = async (clientMessage: string, messageType: string, clientLanguage: string) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('gemini-chat', {
+        body: { action: 'preview_refined_responses', clientMessage, messageType, clientLanguage }
+      });
+      if (error) throw error;
+      return (data?.matches || []) as RetrievedRefinedResponse[];
+    } catch (error) {
+      console.error('Error previewing refined response retrieval:', error);
+      return null;
+    }
+  };
+
+  return {
+    refinedResponses,
+    loading,
+    updateRefinedResponse,
+    deleteRefinedResponse,
+    previewRetrieval,
+    refreshRefinedResponses: loadRefinedResponses
+  };
+}
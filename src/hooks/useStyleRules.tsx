@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface StyleRule {
+  id: string;
+  user_id: string;
+  rule: string;
+  source: 'manual' | 'extracted';
+  evidence_count: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StyleRuleInput = Pick<StyleRule, 'rule' | 'source' | 'evidence_count'>;
+
+export function useStyleRules() {
+  const [rules, setRules] = useState<StyleRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadRules();
+    } else {
+      setRules([]);
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadRules = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('style_rules')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setRules((data || []) as StyleRule[]);
+    } catch (error) {
+      console.error('Error loading style rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addRule = async (input: StyleRuleInput) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('style_rules')
+        .insert({ user_id: user.id, ...input })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setRules([...rules, data as StyleRule]);
+      return data as StyleRule;
+    } catch (error) {
+      console.error('Error adding style rule:', error);
+      return null;
+    }
+  };
+
+  const updateRule = async (ruleId: string, updates: Partial<Pick<StyleRule, 'rule' | 'is_active'>>) => {
+    try {
+      const { data, error } = await supabase
+        .from('style_rules')
+        .update(updates)
+        .eq('id', ruleId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setRules(rules.map(rule => rule.id === ruleId ? data as StyleRule : rule));
+      return true;
+    } catch (error) {
+      console.error('Error updating style rule:', error);
+      return false;
+    }
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('style_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+      setRules(rules.filter(rule => rule.id !== ruleId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting style rule:', error);
+      return false;
+    }
+  };
+
+  return {
+    rules,
+    loading,
+    addRule,
+    updateRule,
+    deleteRule
+  };
+}
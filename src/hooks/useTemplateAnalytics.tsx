@@ -0,0 +1,54 @@
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+interface UsageDetails {
+  templateIds: string[];
+  clientMessage?: string;
+  conversationId?: string | null;
+}
+
+export function useTemplateAnalytics() {
+  const { user } = useAuth();
+
+  // Logs one sent reply: a row per template that shaped it, or a single template-less row for a
+  // purely generated response. Returns the usage group id so the outcome can be recorded later.
+  const logUsage = async ({ templateIds, clientMessage, conversationId = null }: UsageDetails) => {
+    if (!user) return null;
+
+    const usageGroupId = crypto.randomUUID();
+    const rows = (templateIds.length > 0 ? templateIds : [null]).map(templateId => ({
+      user_id: user.id,
+      template_id: templateId,
+      usage_group_id: usageGroupId,
+      conversation_id: conversationId,
+      client_message_context: clientMessage ? clientMessage.substring(0, 500) : null
+    }));
+
+    try {
+      const { error } = await supabase.from('template_analytics').insert(rows);
+      if (error) throw error;
+      return usageGroupId;
+    } catch (error) {
+      console.error('Error logging template usage:', error);
+      return null;
+    }
+  };
+
+  const linkConversation = async (usageGroupId: string, conversationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('template_analytics')
+        .update({ conversation_id: conversationId })
+        .eq('usage_group_id', usageGroupId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error linking template usage to conversation:', error);
+    }
+  };
+
+  return {
+    logUsage,
+    linkConversation
+  };
+}
@@ -14,35 +14,240 @@ export type Database = {
   }
   public: {
     Tables: {
+      client_threads: {
+        Row: {
+          client_id: string | null
+          client_name: string
+          created_at: string
+          fiverr_order_id: string | null
+          id: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          client_id?: string | null
+          client_name: string
+          created_at?: string
+          fiverr_order_id?: string | null
+          id?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          client_id?: string | null
+          client_name?: string
+          created_at?: string
+          fiverr_order_id?: string | null
+          id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_threads_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          budget_max: number | null
+          budget_min: number | null
+          client_type: string | null
+          country: string | null
+          created_at: string
+          currency: string
+          fiverr_username: string | null
+          id: string
+          name: string
+          notes: string | null
+          past_orders: Json
+          preferred_tone: string | null
+          template_values: Json
+          timezone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          budget_max?: number | null
+          budget_min?: number | null
+          client_type?: string | null
+          country?: string | null
+          created_at?: string
+          currency?: string
+          fiverr_username?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          past_orders?: Json
+          preferred_tone?: string | null
+          template_values?: Json
+          timezone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          budget_max?: number | null
+          budget_min?: number | null
+          client_type?: string | null
+          country?: string | null
+          created_at?: string
+          currency?: string
+          fiverr_username?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          past_orders?: Json
+          preferred_tone?: string | null
+          template_values?: Json
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      conversation_attachments: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string
+          size_bytes: number | null
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type: string
+          size_bytes?: number | null
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          size_bytes?: number | null
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_attachments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           bot_response: string
+          classification_confidence: number | null
+          classification_source: string | null
           client_message: string
           created_at: string
+          deescalation_mode: boolean
+          detected_intent: string | null
+          detected_message_type: string | null
+          embedding: string | null
+          embedding_model: string | null
           id: string
+          language: string | null
           message_type: string | null
+          prompt_template_id: string | null
+          prompt_template_version: number | null
+          requested_deliverables: string[]
+          risk_score: number | null
+          risk_signals: string[]
           screenshot_url: string | null
+          search_vector: unknown | null
+          sentiment: string | null
+          thread_id: string | null
+          urgency: string | null
           user_id: string
         }
         Insert: {
           bot_response: string
+          classification_confidence?: number | null
+          classification_source?: string | null
           client_message: string
           created_at?: string
+          deescalation_mode?: boolean
+          detected_intent?: string | null
+          detected_message_type?: string | null
+          embedding?: string | null
+          embedding_model?: string | null
           id?: string
+          language?: string | null
           message_type?: string | null
+          prompt_template_id?: string | null
+          prompt_template_version?: number | null
+          requested_deliverables?: string[]
+          risk_score?: number | null
+          risk_signals?: string[]
           screenshot_url?: string | null
+          search_vector?: never
+          sentiment?: string | null
+          thread_id?: string | null
+          urgency?: string | null
           user_id: string
         }
         Update: {
           bot_response?: string
+          classification_confidence?: number | null
+          classification_source?: string | null
           client_message?: string
           created_at?: string
+          deescalation_mode?: boolean
+          detected_intent?: string | null
+          detected_message_type?: string | null
+          embedding?: string | null
+          embedding_model?: string | null
           id?: string
+          language?: string | null
           message_type?: string | null
+          prompt_template_id?: string | null
+          prompt_template_version?: number | null
+          requested_deliverables?: string[]
+          risk_score?: number | null
+          risk_signals?: string[]
           screenshot_url?: string | null
+          search_vector?: never
+          sentiment?: string | null
+          thread_id?: string | null
+          urgency?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "conversations_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "client_threads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_prompt_template_id_fkey"
+            columns: ["prompt_template_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       curated_templates: {
         Row: {
@@ -95,11 +300,144 @@ export type Database = {
         }
         Relationships: []
       }
+      gigs: {
+        Row: {
+          category: string | null
+          created_at: string
+          currency: string
+          description: string
+          embedding: string | null
+          embedding_model: string | null
+          faqs: Json
+          gig_url: string | null
+          id: string
+          is_active: boolean
+          packages: Json
+          requirements: string[]
+          tags: string[]
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          currency?: string
+          description?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          faqs?: Json
+          gig_url?: string | null
+          id?: string
+          is_active?: boolean
+          packages?: Json
+          requirements?: string[]
+          tags?: string[]
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          currency?: string
+          description?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          faqs?: Json
+          gig_url?: string | null
+          id?: string
+          is_active?: boolean
+          packages?: Json
+          requirements?: string[]
+          tags?: string[]
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      knowledge_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          document_id: string
+          embedding: string | null
+          embedding_model: string | null
+          id: string
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          document_id: string
+          embedding?: string | null
+          embedding_model?: string | null
+          id?: string
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          document_id?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      knowledge_documents: {
+        Row: {
+          content: string
+          created_at: string
+          file_name: string | null
+          id: string
+          source_type: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          source_type?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          source_type?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       message_templates: {
         Row: {
           category: string | null
           client_type: string | null
           created_at: string
+          embedding: string | null
+          embedding_model: string | null
           id: string
           industry_tags: string[] | null
           is_ai_generated: boolean | null
@@ -118,6 +456,8 @@ export type Database = {
           category?: string | null
           client_type?: string | null
           created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
           id?: string
           industry_tags?: string[] | null
           is_ai_generated?: boolean | null
@@ -136,6 +476,8 @@ export type Database = {
           category?: string | null
           client_type?: string | null
           created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
           id?: string
           industry_tags?: string[] | null
           is_ai_generated?: boolean | null
@@ -157,99 +499,223 @@ export type Database = {
           created_at: string
           display_name: string | null
           fiverr_username: string | null
+          gig_catalogue: Json
           id: string
+          knowledge_strict_mode: boolean
+          llm_provider: string | null
           updated_at: string
           user_id: string
+          voice_settings: Json
         }
         Insert: {
           created_at?: string
           display_name?: string | null
           fiverr_username?: string | null
+          gig_catalogue?: Json
           id?: string
+          knowledge_strict_mode?: boolean
+          llm_provider?: string | null
           updated_at?: string
           user_id: string
+          voice_settings?: Json
         }
         Update: {
           created_at?: string
           display_name?: string | null
           fiverr_username?: string | null
+          gig_catalogue?: Json
           id?: string
+          knowledge_strict_mode?: boolean
+          llm_provider?: string | null
           updated_at?: string
           user_id?: string
+          voice_settings?: Json
+        }
+        Relationships: []
+      }
+      prompt_templates: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          is_active: boolean
+          message_type: string | null
+          name: string
+          notes: string | null
+          updated_at: string
+          user_id: string | null
+          version: number
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          message_type?: string | null
+          name: string
+          notes?: string | null
+          updated_at?: string
+          user_id?: string | null
+          version?: number
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          message_type?: string | null
+          name?: string
+          notes?: string | null
+          updated_at?: string
+          user_id?: string | null
+          version?: number
         }
         Relationships: []
       }
       refined_responses: {
         Row: {
+          chosen_tone: string | null
           created_at: string
+          embedding: string | null
+          embedding_model: string | null
           id: string
+          is_disabled: boolean
+          is_pinned: boolean
+          language: string | null
           message_type: string | null
           original_client_message: string
           original_response: string
           refined_response: string
+          refinement_source: string
+          rejected_alternatives: string[] | null
           similarity_keywords: string[] | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          chosen_tone?: string | null
           created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
           id?: string
+          is_disabled?: boolean
+          is_pinned?: boolean
+          language?: string | null
           message_type?: string | null
           original_client_message: string
           original_response: string
           refined_response: string
+          refinement_source?: string
+          rejected_alternatives?: string[] | null
           similarity_keywords?: string[] | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          chosen_tone?: string | null
           created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
           id?: string
+          is_disabled?: boolean
+          is_pinned?: boolean
+          language?: string | null
           message_type?: string | null
           original_client_message?: string
           original_response?: string
           refined_response?: string
+          refinement_source?: string
+          rejected_alternatives?: string[] | null
           similarity_keywords?: string[] | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      style_rules: {
+        Row: {
+          created_at: string
+          evidence_count: number
+          id: string
+          is_active: boolean
+          rule: string
+          source: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          evidence_count?: number
+          id?: string
+          is_active?: boolean
+          rule: string
+          source?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          evidence_count?: number
+          id?: string
+          is_active?: boolean
+          rule?: string
+          source?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       template_analytics: {
         Row: {
           client_message_context: string | null
           client_response_time: unknown | null
+          conversation_id: string | null
           conversion_outcome: string | null
           created_at: string
           id: string
+          outcome_recorded_at: string | null
           response_effectiveness: number | null
-          template_id: string
+          template_id: string | null
+          usage_group_id: string
           used_at: string
           user_id: string
         }
         Insert: {
           client_message_context?: string | null
           client_response_time?: unknown | null
+          conversation_id?: string | null
           conversion_outcome?: string | null
           created_at?: string
           id?: string
+          outcome_recorded_at?: string | null
           response_effectiveness?: number | null
-          template_id: string
+          template_id?: string | null
+          usage_group_id?: string
           used_at?: string
           user_id: string
         }
         Update: {
           client_message_context?: string | null
           client_response_time?: unknown | null
+          conversation_id?: string | null
           conversion_outcome?: string | null
           created_at?: string
           id?: string
+          outcome_recorded_at?: string | null
           response_effectiveness?: number | null
-          template_id?: string
+          template_id?: string | null
+          usage_group_id?: string
           used_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "template_analytics_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "template_analytics_template_id_fkey"
             columns: ["template_id"]
@@ -311,20 +777,78 @@ export type Database = {
         }
         Returns: number
       }
+      find_relevant_gigs: {
+        Args: {
+          client_message_param: string
+          embedding_model_param?: string
+          match_limit?: number
+          query_embedding?: string
+          user_id_param: string
+        }
+        Returns: {
+          category: string
+          currency: string
+          description: string
+          faqs: Json
+          id: string
+          packages: Json
+          relevance_score: number
+          requirements: string[]
+          title: string
+        }[]
+      }
       find_similar_refined_responses: {
         Args: {
           client_message_param: string
+          embedding_model_param?: string
+          language_param?: string
           message_type_param?: string
+          query_embedding?: string
           similarity_limit?: number
           user_id_param: string
         }
         Returns: {
           id: string
+          is_pinned: boolean
+          language: string
           original_client_message: string
           refined_response: string
           similarity_score: number
         }[]
       }
+      language_search_config: {
+        Args: { language_code: string }
+        Returns: unknown
+      }
+      match_knowledge_chunks: {
+        Args: {
+          client_message_param: string
+          embedding_model_param?: string
+          match_limit?: number
+          query_embedding?: string
+          user_id_param: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          document_id: string
+          document_title: string
+          id: string
+          relevance_score: number
+          source_type: string
+        }[]
+      }
+      search_conversations: {
+        Args: {
+          match_limit?: number
+          query_param: string
+          user_id_param: string
+        }
+        Returns: {
+          id: string
+          rank: number
+        }[]
+      }
       update_template_usage: {
         Args: { template_id: string }
         Returns: undefined
@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface MessageAttachment {
+  id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number | null;
+}
+
+// Attachments share the private bucket originally created for single screenshots
+export const ATTACHMENT_BUCKET = "screenshots";
+export const ACCEPTED_ATTACHMENT_TYPES = "image/*,application/pdf";
+export const MAX_ATTACHMENTS = 6;
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_PDF_BYTES = 10 * 1024 * 1024;
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, "mime_type">) =>
+  attachment.mime_type.startsWith("image/");
+
+// Returns a user-facing reason when the file can't be attached
+export function validateAttachmentFile(file: File) {
+  if (file.type.startsWith("image/")) {
+    return file.size > MAX_IMAGE_BYTES ? `${file.name} is larger than 5MB.` : null;
+  }
+  if (file.type === "application/pdf") {
+    return file.size > MAX_PDF_BYTES ? `${file.name} is larger than 10MB.` : null;
+  }
+  return `${file.name} is not an image or PDF.`;
+}
+
+export async function uploadAttachment(userId: string, file: File): Promise<MessageAttachment> {
+  // Clipboard images arrive as "image.png"; the timestamp keeps paths unique
+  const storagePath = `${userId}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(storagePath, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("conversation_attachments")
+    .insert({
+      user_id: userId,
+      storage_path: storagePath,
+      file_name: file.name,
+      mime_type: file.type,
+      size_bytes: file.size
+    })
+    .select("id, storage_path, file_name, mime_type, size_bytes")
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteAttachment(attachment: MessageAttachment) {
+  const { error } = await supabase.from("conversation_attachments").delete().eq("id", attachment.id);
+  if (error) throw error;
+
+  await supabase.storage.from(ATTACHMENT_BUCKET).remove([attachment.storage_path]);
+}
+
+// Signed URLs keyed by storage path, for previews and opening files from the private bucket
+export async function signAttachmentUrls(paths: string[], expiresIn = 60 * 60) {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).createSignedUrls(paths, expiresIn);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || [])
+      .filter(item => item.path && item.signedUrl)
+      .map(item => [item.path as string, item.signedUrl])
+  );
+}
@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+
+interface BackfillResult {
+  model: string;
+  processed: Record<string, number>;
+  remaining: boolean;
+}
+
+const runBackfill = async (tables?: string[]) => {
+  const { data, error } = await supabase.functions.invoke<BackfillResult>('generate-embeddings', {
+    body: tables ? { tables } : {}
+  });
+  if (error) throw error;
+  return data;
+};
+
+// Embeds freshly saved rows in the background so they take part in similarity search.
+// Failures only delay indexing: the next backfill picks the rows up again.
+export function queueEmbeddingBackfill(...tables: string[]) {
+  runBackfill(tables.length > 0 ? tables : undefined).catch(error => {
+    console.error('Error queueing embedding backfill:', error);
+  });
+}
+
+// Indexes every row still missing an embedding, batch by batch. Returns the number of rows embedded.
+export async function backfillAllEmbeddings(maxRuns = 20) {
+  let total = 0;
+
+  for (let run = 0; run < maxRuns; run++) {
+    const result = await runBackfill();
+    total += Object.values(result?.processed || {}).reduce((sum, count) => sum + count, 0);
+    if (!result?.remaining) break;
+  }
+
+  return total;
+}
@@ -0,0 +1,30 @@
+// Reads a `text/event-stream` body and hands each `data:` payload to `onEvent` as parsed JSON.
+// Resolves once the stream ends or the reader is cancelled.
+export async function readEventStream<T>(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onEvent: (event: T) => void
+) {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const event of events) {
+      const data = event
+        .split("\n")
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).trim())
+        .join("\n");
+
+      if (data) {
+        onEvent(JSON.parse(data) as T);
+      }
+    }
+  }
+}
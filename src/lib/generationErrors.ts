@@ -0,0 +1,77 @@
+// Failures reported by the gemini-chat function as `{ error, code, retryable, fallback }`, either as
+// the body of a non-2xx response or as the final event of a stream (see errors.ts in the function).
+
+export type GenerationErrorCode =
+  | "auth"
+  | "quota"
+  | "safety_blocked"
+  | "upstream_timeout"
+  | "bad_input"
+  | "upstream_error"
+  | "internal";
+
+export interface GenerationError {
+  code: GenerationErrorCode;
+  message: string;
+  retryable: boolean;
+  // Generic holding reply; never shown as a generated draft
+  fallback: string | null;
+}
+
+const ERROR_TITLES: Record<GenerationErrorCode, string> = {
+  auth: "Session expired",
+  quota: "Rate limit reached",
+  safety_blocked: "Blocked by safety filters",
+  upstream_timeout: "The model took too long",
+  bad_input: "Request rejected",
+  upstream_error: "Model provider error",
+  internal: "Generation failed"
+};
+
+// What the user can do about it, beyond the message from the server
+const ERROR_HINTS: Record<GenerationErrorCode, string> = {
+  auth: "Sign out and back in, then generate again.",
+  quota: "Wait a minute before retrying, or switch to another model provider in settings.",
+  safety_blocked: "Retrying the same message will be blocked again; edit the client message or attachments first.",
+  upstream_timeout: "Retrying usually works; fewer attachments or drafts make the request faster.",
+  bad_input: "Check the client message, attachments and selected prompt template.",
+  upstream_error: "Retry in a moment. If it keeps failing, check the model provider settings.",
+  internal: "Retry in a moment."
+};
+
+export const getGenerationErrorTitle = (code: GenerationErrorCode) => ERROR_TITLES[code];
+export const getGenerationErrorHint = (code: GenerationErrorCode) => ERROR_HINTS[code];
+
+const isErrorCode = (value: unknown): value is GenerationErrorCode =>
+  typeof value === "string" && value in ERROR_TITLES;
+
+// Error response bodies and stream error events share this shape
+export const parseGenerationError = (body: unknown): GenerationError | null => {
+  if (!body || typeof body !== "object") return null;
+  const { error, code, retryable, fallback } = body as Record<string, unknown>;
+  if (typeof error !== "string") return null;
+
+  return {
+    code: isErrorCode(code) ? code : "internal",
+    message: error,
+    retryable: retryable !== false,
+    fallback: typeof fallback === "string" && fallback ? fallback : null
+  };
+};
+
+// `functions.invoke` reports non-2xx responses as an error whose `context` is the raw Response
+export async function toGenerationError(error: unknown): Promise<GenerationError> {
+  const context = (error as { context?: unknown } | null)?.context;
+  if (context instanceof Response) {
+    const body = await context.clone().json().catch(() => null);
+    const parsed = parseGenerationError(body);
+    if (parsed) return parsed;
+  }
+
+  return parseGenerationError(error) || {
+    code: "internal",
+    message: error instanceof Error ? error.message : "Unknown error",
+    retryable: true,
+    fallback: null
+  };
+}
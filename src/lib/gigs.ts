@@ -0,0 +1,187 @@
+// Gig records and JSON/CSV import. Imported gigs are stored in `gigs` and retrieved per client
+// message by gemini-chat, so replies only mention services and prices the seller really offers.
+import { packageTiers, type GigPackage } from "./pricing";
+
+export interface GigFaq {
+  question: string;
+  answer: string;
+}
+
+export interface GigInput {
+  title: string;
+  description: string;
+  category: string | null;
+  tags: string[];
+  gig_url: string | null;
+  currency: string;
+  packages: GigPackage[];
+  faqs: GigFaq[];
+  requirements: string[];
+  is_active: boolean;
+}
+
+export const emptyGig: GigInput = {
+  title: "",
+  description: "",
+  category: null,
+  tags: [],
+  gig_url: null,
+  currency: "USD",
+  packages: [],
+  faqs: [],
+  requirements: [],
+  is_active: true
+};
+
+type RawRecord = Record<string, unknown>;
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : value == null ? "" : String(value).trim());
+
+const number = (value: unknown) => {
+  const parsed = Number(typeof value === "string" ? value.replace(/[^\d.]/g, "") : value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+};
+
+// Lists arrive as arrays (JSON) or as "a; b; c" / "a | b" strings (CSV cells)
+const list = (value: unknown) =>
+  (Array.isArray(value) ? value.map(text) : text(value).split(/\s*[;|\n]\s*/)).filter(Boolean);
+
+export function normalizePackages(raw: unknown): GigPackage[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((pkg): pkg is RawRecord => !!pkg && typeof pkg === "object")
+    .map((pkg, index) => {
+      const tierValue = text(pkg.tier).toLowerCase();
+      const tier = packageTiers.find(({ value }) => value === tierValue) || packageTiers[Math.min(index, packageTiers.length - 1)];
+      return {
+        tier: tier.value,
+        name: text(pkg.name) || text(pkg.title) || tier.label,
+        description: text(pkg.description),
+        price: number(pkg.price),
+        delivery_days: Math.round(number(pkg.delivery_days ?? pkg.delivery_time ?? pkg.days)),
+        revisions: Math.round(number(pkg.revisions))
+      };
+    })
+    .filter(pkg => pkg.price > 0);
+}
+
+export function normalizeFaqs(raw: unknown): GigFaq[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((faq): faq is RawRecord => !!faq && typeof faq === "object")
+    .map(faq => ({ question: text(faq.question ?? faq.q), answer: text(faq.answer ?? faq.a) }))
+    .filter(faq => faq.question && faq.answer);
+}
+
+function toGigInput(raw: RawRecord): GigInput | null {
+  const title = text(raw.title ?? raw.name);
+  if (!title) return null;
+
+  return {
+    title,
+    description: text(raw.description),
+    category: text(raw.category) || null,
+    tags: list(raw.tags),
+    gig_url: text(raw.gig_url ?? raw.url) || null,
+    currency: (text(raw.currency) || "USD").toUpperCase().slice(0, 3),
+    packages: normalizePackages(raw.packages),
+    faqs: normalizeFaqs(raw.faqs),
+    requirements: list(raw.requirements),
+    is_active: raw.is_active !== false && text(raw.is_active).toLowerCase() !== "false"
+  };
+}
+
+// Accepts a single gig, an array of gigs, or `{ "gigs": [...] }`
+export function parseGigsJson(input: string): GigInput[] {
+  const data = JSON.parse(input);
+  const records: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.gigs) ? data.gigs : [data];
+
+  return records
+    .filter((record): record is RawRecord => !!record && typeof record === "object")
+    .map(toGigInput)
+    .filter((gig): gig is GigInput => gig !== null);
+}
+
+// RFC 4180 style: quoted cells may contain commas, newlines and doubled quotes
+function parseCsvRows(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+// One gig per row. Columns: title, description, category, tags, gig_url, currency, requirements,
+// faqs ("Question? :: Answer" pairs separated by "|"), and per package tier
+// <tier>_name, <tier>_description, <tier>_price, <tier>_delivery_days, <tier>_revisions.
+export function parseGigsCsv(input: string): GigInput[] {
+  const [header, ...rows] = parseCsvRows(input);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim().toLowerCase().replace(/\s+/g, "_"));
+
+  return rows
+    .map(cells => {
+      const record: RawRecord = Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""]));
+
+      record.packages = packageTiers.map(({ value }) => ({
+        tier: value,
+        name: record[`${value}_name`],
+        description: record[`${value}_description`],
+        price: record[`${value}_price`],
+        delivery_days: record[`${value}_delivery_days`],
+        revisions: record[`${value}_revisions`]
+      }));
+      record.faqs = text(record.faqs).split(/\s*\|\s*/).filter(Boolean).map(pair => {
+        const [question, ...answer] = pair.split("::");
+        return { question, answer: answer.join("::") };
+      });
+
+      return toGigInput(record);
+    })
+    .filter((gig): gig is GigInput => gig !== null);
+}
+
+export function parseGigImport(input: string, format: "json" | "csv"): GigInput[] {
+  return format === "json" ? parseGigsJson(input) : parseGigsCsv(input);
+}
+
+// Guess from the file name, falling back to the first character of the content
+export const detectImportFormat = (fileName: string, content: string): "json" | "csv" =>
+  /\.json$/i.test(fileName) || /^\s*[[{]/.test(content) ? "json" : "csv";
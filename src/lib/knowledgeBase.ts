@@ -0,0 +1,54 @@
+// Knowledge base documents are split into overlapping passages before indexing; gemini-chat retrieves
+// the best passages per client message (see match_knowledge_chunks).
+
+export type KnowledgeSourceType = "note" | "faq" | "document";
+
+export const knowledgeSourceTypes: { value: KnowledgeSourceType; label: string }[] = [
+  { value: "note", label: "Note" },
+  { value: "faq", label: "FAQ" },
+  { value: "document", label: "Document" }
+];
+
+export const getKnowledgeSourceLabel = (value: string) =>
+  knowledgeSourceTypes.find(type => type.value === value)?.label || value;
+
+// Plain text and markdown are read in the browser; other formats need converting first
+export const ACCEPTED_KNOWLEDGE_FILES = ".md,.markdown,.txt,text/plain,text/markdown";
+
+// Roughly 150-250 words: small enough to be specific, large enough to keep a paragraph's context
+const TARGET_CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+
+export const formatFaqContent = (question: string, answer: string) => `Q: ${question.trim()}\nA: ${answer.trim()}`;
+
+// Splits on markdown headings and blank lines first, then packs paragraphs into chunks.
+// Paragraphs longer than a chunk are cut on sentence boundaries. Each chunk after the first
+// starts with the tail of the previous one so facts spanning a boundary stay retrievable.
+export function chunkText(content: string): string[] {
+  const paragraphs = content
+    .replace(/\r\n/g, "\n")
+    .split(/\n(?=#{1,6}\s)|\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => paragraph.length <= TARGET_CHUNK_CHARS
+      ? [paragraph]
+      : paragraph.match(new RegExp(`[^]{1,${TARGET_CHUNK_CHARS}}(?:[.!?](?=\\s)|$)|[^]{1,${TARGET_CHUNK_CHARS}}`, "g")) || [paragraph]
+    );
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > TARGET_CHUNK_CHARS) {
+      chunks.push(current);
+      const overlap = current.slice(-CHUNK_OVERLAP_CHARS);
+      // Start the overlap at a word boundary
+      current = `${overlap.slice(overlap.indexOf(" ") + 1)}\n\n${paragraph}`;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks.map(chunk => chunk.trim());
+}
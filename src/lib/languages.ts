@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export { DEFAULT_LANGUAGE, detectLanguage } from "../../supabase/functions/_shared/languageDetection";
+
+// Client message languages. Codes are ISO 639-1; the database maps them to a Postgres
+// text search configuration (language_search_config) so search stems words per language.
+
+export const languages = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Spanish" },
+  { code: "de", label: "German" },
+  { code: "fr", label: "French" },
+  { code: "pt", label: "Portuguese" },
+  { code: "it", label: "Italian" },
+  { code: "nl", label: "Dutch" },
+  { code: "ru", label: "Russian" },
+  { code: "ar", label: "Arabic" },
+  { code: "hi", label: "Hindi" },
+  { code: "zh", label: "Chinese" },
+  { code: "ja", label: "Japanese" },
+  { code: "ko", label: "Korean" },
+  { code: "tr", label: "Turkish" }
+];
+
+export const getLanguageLabel = (code: string) => {
+  const known = languages.find(language => language.code === code);
+  if (known) return known.label;
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+// English back-translation of a reply written in another language, so the seller can check it before sending
+export async function translateToEnglish(text: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('gemini-chat', {
+      body: { action: 'back_translate', draft: text }
+    });
+    if (error) throw error;
+    return data?.translation || null;
+  } catch (error) {
+    console.error('Error translating response:', error);
+    return null;
+  }
+}
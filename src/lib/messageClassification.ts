@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import { detectLanguage } from "@/lib/languages";
+
+// Incoming client messages are classified by gemini-chat (action "classify_message"); when the
+// function is unavailable the keyword rules below give a rougher result so the type is still pre-selected.
+
+export const messageTypes = [
+  { value: "greeting", label: "Greeting" },
+  { value: "custom_offer", label: "Custom Offer" },
+  { value: "revision", label: "Revision Request" },
+  { value: "delivery", label: "Delivery" },
+  { value: "timeline", label: "Timeline Discussion" },
+  { value: "pricing", label: "Pricing Question" },
+  { value: "question", label: "General Question" }
+];
+
+export const getMessageTypeLabel = (value: string) =>
+  messageTypes.find(type => type.value === value)?.label || value;
+
+export type MessageUrgency = "low" | "normal" | "high";
+export type MessageSentiment = "positive" | "neutral" | "negative";
+
+export interface MessageClassification {
+  messageType: string;
+  // 0-1; below LOW_CONFIDENCE the pre-selection should be double-checked
+  confidence: number;
+  intent: string;
+  urgency: MessageUrgency;
+  sentiment: MessageSentiment;
+  deliverables: string[];
+  // 0-1 chance the conversation escalates (cancellation, bad review, dispute)
+  riskScore: number;
+  riskSignals: string[];
+  // ISO 639-1 code of the language the client wrote in
+  language: string;
+  source: "llm" | "rules";
+}
+
+export const LOW_CONFIDENCE = 0.5;
+
+// At or above this the risk banner shows and de-escalation mode is switched on
+export const ESCALATION_RISK_THRESHOLD = 0.5;
+
+export const isEscalationRisk = (riskScore: number | null | undefined) =>
+  (riskScore ?? 0) >= ESCALATION_RISK_THRESHOLD;
+
+// Messages shorter than this rarely carry enough signal to classify
+export const MIN_CLASSIFY_LENGTH = 15;
+
+const TYPE_RULES: { type: string; pattern: RegExp; weight: number }[] = [
+  { type: "greeting", pattern: /^(hi|hello|hey|good (morning|afternoon|evening)|greetings)\b/i, weight: 2 },
+  { type: "greeting", pattern: /(nice to meet|came across your (gig|profile)|found your gig|are you available)/i, weight: 2 },
+  { type: "custom_offer", pattern: /(custom offer|send (me )?an offer|quote|proposal|can you (do|make|build|create|design)|i need (a|an|someone)|looking for)/i, weight: 3 },
+  { type: "revision", pattern: /(revision|revise|change[sd]?|modify|adjust|tweak|not what i (wanted|asked)|fix (the|this|it))/i, weight: 3 },
+  { type: "delivery", pattern: /(deliver(y|ed)?|received the (files|work)|final files|source files|download|accept(ed)? the order)/i, weight: 3 },
+  { type: "timeline", pattern: /(deadline|how long|when (can|will)|by (tomorrow|monday|tuesday|wednesday|thursday|friday|next week)|turnaround|eta|extension|delay)/i, weight: 3 },
+  { type: "pricing", pattern: /(price|pricing|cost|budget|how much|rate|discount|cheaper|\$\d+|\d+\s?(usd|dollars))/i, weight: 3 },
+  { type: "question", pattern: /\?/, weight: 1 }
+];
+
+const HIGH_URGENCY = /(asap|urgent(ly)?|immediately|right away|today|tonight|by tomorrow|rush|emergency|as soon as possible)/i;
+const LOW_URGENCY = /(no rush|no hurry|whenever|take your time|not urgent|next month)/i;
+
+const POSITIVE_WORDS = /\b(thanks?|thank you|great|awesome|amazing|love|perfect|excellent|happy|appreciate|wonderful)\b/gi;
+const NEGATIVE_WORDS = /\b(disappointed|unhappy|angry|terrible|awful|bad|worst|refund|cancel|frustrated|unacceptable|waste|poor|wrong)\b/gi;
+
+const DELIVERABLE_PATTERN = /\b(?:(\d+|one|two|three|four|five|ten)\s+)?(logos?|websites?|landing pages?|web pages?|pages?|apps?|videos?|articles?|blog posts?|banners?|flyers?|business cards?|social media posts?|posts?|icons?|illustrations?|mockups?|scripts?|presentations?|slides?|reports?|ebooks?|thumbnails?|animations?|product descriptions?|emails?|ads?)\b/gi;
+
+// Explicit threats are checked by these rules even when the model classified the message,
+// so an obvious "I'll cancel the order" is never missed
+const RISK_RULES: { signal: string; pattern: RegExp; weight: number }[] = [
+  { signal: "Cancellation threat", pattern: /(cancel(ling|led)? (the|this|my) order|request(ing)? (a )?cancellation|i('ll| will) cancel)/i, weight: 0.6 },
+  { signal: "Bad review threat", pattern: /((bad|negative|1[- ]star|one[- ]star|poor|honest) (review|rating|feedback)|leave (you )?a review)/i, weight: 0.6 },
+  { signal: "Refund request", pattern: /(refund|money back|chargeback)/i, weight: 0.5 },
+  { signal: "Dispute / Fiverr support", pattern: /(dispute|report (you|this)|contact(ing)? (fiverr )?support|customer support|resolution center)/i, weight: 0.5 },
+  { signal: "Missed deadline", pattern: /(\b(late|overdue)\b|past the deadline|still (waiting|haven't|have not)|missed the deadline)/i, weight: 0.3 },
+  { signal: "Frustration", pattern: /(unacceptable|ridiculous|waste of (my )?(time|money)|worst|scam|unprofessional|!!+)/i, weight: 0.3 }
+];
+
+const detectRiskSignals = (message: string) => {
+  const matched = RISK_RULES.filter(rule => rule.pattern.test(message));
+  return {
+    riskScore: Math.min(1, matched.reduce((sum, rule) => sum + rule.weight, 0)),
+    riskSignals: matched.map(rule => rule.signal)
+  };
+};
+
+const extractDeliverables = (message: string) => {
+  const found = new Map<string, string>();
+  for (const match of message.matchAll(DELIVERABLE_PATTERN)) {
+    const item = match[2].toLowerCase();
+    const key = item.replace(/s$/, "");
+    if (!found.has(key) || match[1]) {
+      found.set(key, match[1] ? `${match[1]} ${item}` : item);
+    }
+  }
+  return Array.from(found.values()).slice(0, 5);
+};
+
+// Keyword scoring in the style of analyzeTemplateContent; confidence reflects how clearly one type wins
+export function classifyMessageRules(message: string): MessageClassification {
+  const scores: Record<string, number> = {};
+  TYPE_RULES.forEach(rule => {
+    if (rule.pattern.test(message)) {
+      scores[rule.type] = (scores[rule.type] || 0) + rule.weight;
+    }
+  });
+
+  const ranked = Object.entries(scores).sort(([, a], [, b]) => b - a);
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+  const [messageType, topScore] = ranked[0] || ["question", 0];
+
+  const positive = message.match(POSITIVE_WORDS)?.length || 0;
+  const negative = message.match(NEGATIVE_WORDS)?.length || 0;
+  const sentiment: MessageSentiment = negative > positive ? "negative" : positive > negative ? "positive" : "neutral";
+  const risk = detectRiskSignals(message);
+
+  return {
+    messageType,
+    // Rules are never fully sure, so the estimate is capped below what the model can report
+    confidence: total > 0 ? Math.round(Math.min(0.8, (topScore / total) * 0.8) * 100) / 100 : 0.2,
+    intent: `${getMessageTypeLabel(messageType)} (keyword match)`,
+    urgency: HIGH_URGENCY.test(message) ? "high" : LOW_URGENCY.test(message) ? "low" : "normal",
+    sentiment,
+    deliverables: extractDeliverables(message),
+    // A negative tone alone is a mild risk; explicit threats dominate the score
+    riskScore: Math.min(1, risk.riskScore + (sentiment === "negative" ? 0.2 : 0)),
+    riskSignals: risk.riskSignals,
+    language: detectLanguage(message),
+    source: "rules"
+  };
+}
+
+// Classifies with the user's LLM provider, falling back to the keyword rules on any failure
+export async function classifyClientMessage(message: string): Promise<MessageClassification> {
+  try {
+    const { data, error } = await supabase.functions.invoke('gemini-chat', {
+      body: { action: 'classify_message', clientMessage: message }
+    });
+    if (error) throw error;
+    if (!data?.classification) throw new Error('No classification returned');
+
+    const classification: MessageClassification = data.classification;
+    const risk = detectRiskSignals(message);
+    return {
+      ...classification,
+      riskScore: Math.max(classification.riskScore, risk.riskScore),
+      riskSignals: [...new Set([...classification.riskSignals, ...risk.riskSignals])],
+      source: "llm"
+    };
+  } catch (error) {
+    console.error('Error classifying message, using keyword rules:', error);
+    return classifyMessageRules(message);
+  }
+}
@@ -0,0 +1,2 @@
+// The policy rules live with the edge functions so the gemini-chat eval checks replies with the same rules
+export * from "../../supabase/functions/_shared/policyCompliance";
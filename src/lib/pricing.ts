@@ -0,0 +1,173 @@
+// Gig package catalogue (stored on `profiles.gig_catalogue`) and the quote calculator built on it.
+// The quote is sent to gemini-chat with custom offer requests so replies repeat the same numbers.
+
+export type PackageTier = "basic" | "standard" | "premium";
+
+export interface GigPackage {
+  tier: PackageTier;
+  name: string;
+  description: string;
+  price: number;
+  delivery_days: number;
+  revisions: number;
+}
+
+export interface GigExtra {
+  id: string;
+  name: string;
+  price: number;
+  extra_days: number;
+}
+
+export interface GigCatalogue {
+  currency: string;
+  hourly_rate: number;
+  packages: GigPackage[];
+  extras: GigExtra[];
+}
+
+export interface QuoteScope {
+  tier: PackageTier;
+  // Extra id -> quantity
+  extras: Record<string, number>;
+  customHours: number;
+  rush: boolean;
+}
+
+export interface QuoteLineItem {
+  label: string;
+  price: number;
+  days: number;
+}
+
+export interface Quote {
+  currency: string;
+  packageName: string;
+  tier: PackageTier;
+  revisions: number;
+  lineItems: QuoteLineItem[];
+  total: number;
+  deliveryDays: number;
+}
+
+export const packageTiers: { value: PackageTier; label: string }[] = [
+  { value: "basic", label: "Basic" },
+  { value: "standard", label: "Standard" },
+  { value: "premium", label: "Premium" }
+];
+
+// Custom hours are billed at the hourly rate and add a delivery day per started working day
+const HOURS_PER_DAY = 6;
+// Rush halves delivery time (never below one day) for a 50% surcharge
+const RUSH_SURCHARGE = 0.5;
+
+export const emptyCatalogue: GigCatalogue = {
+  currency: "USD",
+  hourly_rate: 0,
+  packages: packageTiers.map(({ value, label }) => ({
+    tier: value,
+    name: label,
+    description: "",
+    price: 0,
+    delivery_days: 0,
+    revisions: 0
+  })),
+  extras: []
+};
+
+const toNumber = (value: unknown) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : 0;
+};
+
+// Reads the stored JSON defensively; missing tiers fall back to empty packages
+export function parseGigCatalogue(raw: unknown): GigCatalogue {
+  const source = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const storedPackages = Array.isArray(source.packages) ? (source.packages as Record<string, unknown>[]) : [];
+  const storedExtras = Array.isArray(source.extras) ? (source.extras as Record<string, unknown>[]) : [];
+
+  return {
+    currency: typeof source.currency === "string" && source.currency ? source.currency : emptyCatalogue.currency,
+    hourly_rate: toNumber(source.hourly_rate),
+    packages: emptyCatalogue.packages.map(fallback => {
+      const stored = storedPackages.find(pkg => pkg?.tier === fallback.tier);
+      return stored
+        ? {
+            tier: fallback.tier,
+            name: typeof stored.name === "string" && stored.name ? stored.name : fallback.name,
+            description: typeof stored.description === "string" ? stored.description : "",
+            price: toNumber(stored.price),
+            delivery_days: Math.round(toNumber(stored.delivery_days)),
+            revisions: Math.round(toNumber(stored.revisions))
+          }
+        : fallback;
+    }),
+    extras: storedExtras
+      .filter(extra => extra && typeof extra.name === "string" && extra.name.trim())
+      .map((extra, index) => ({
+        id: typeof extra.id === "string" && extra.id ? extra.id : `extra-${index}`,
+        name: (extra.name as string).trim(),
+        price: toNumber(extra.price),
+        extra_days: Math.round(toNumber(extra.extra_days))
+      }))
+  };
+}
+
+// A package counts once it has a price; unpriced tiers aren't offered in the quote builder
+export const isPackageConfigured = (pkg: GigPackage) => pkg.price > 0;
+
+export const hasCatalogue = (catalogue: GigCatalogue) =>
+  catalogue.packages.some(isPackageConfigured) || catalogue.hourly_rate > 0;
+
+export function formatPrice(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+export function buildQuote(catalogue: GigCatalogue, scope: QuoteScope): Quote | null {
+  const pkg = catalogue.packages.find(p => p.tier === scope.tier);
+  if (!pkg || !isPackageConfigured(pkg)) return null;
+
+  const lineItems: QuoteLineItem[] = [
+    { label: `${pkg.name} package`, price: pkg.price, days: pkg.delivery_days }
+  ];
+
+  for (const extra of catalogue.extras) {
+    const quantity = Math.floor(scope.extras[extra.id] || 0);
+    if (quantity <= 0) continue;
+    lineItems.push({
+      label: quantity > 1 ? `${extra.name} × ${quantity}` : extra.name,
+      price: extra.price * quantity,
+      days: extra.extra_days * quantity
+    });
+  }
+
+  const customHours = toNumber(scope.customHours);
+  if (customHours > 0 && catalogue.hourly_rate > 0) {
+    lineItems.push({
+      label: `Custom work (${customHours}h)`,
+      price: customHours * catalogue.hourly_rate,
+      days: Math.ceil(customHours / HOURS_PER_DAY)
+    });
+  }
+
+  const subtotal = lineItems.reduce((sum, item) => sum + item.price, 0);
+  const days = lineItems.reduce((sum, item) => sum + item.days, 0);
+
+  if (scope.rush) {
+    lineItems.push({ label: "Rush delivery", price: subtotal * RUSH_SURCHARGE, days: 0 });
+  }
+
+  return {
+    currency: catalogue.currency,
+    packageName: pkg.name,
+    tier: pkg.tier,
+    revisions: pkg.revisions,
+    lineItems,
+    total: Math.round(lineItems.reduce((sum, item) => sum + item.price, 0) * 100) / 100,
+    deliveryDays: Math.max(1, scope.rush ? Math.ceil(days / 2) : days)
+  };
+}
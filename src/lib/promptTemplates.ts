@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Versioned system prompts (prompt_templates). gemini-chat fills the {{variables}} below with the
+// sections it builds per request; the list mirrors PROMPT_VARIABLES in the function.
+
+export const promptVariables = [
+  { name: "profile", description: "Fiverr username, saved template count and recent message types" },
+  { name: "message_type", description: "Selected message type" },
+  { name: "client", description: "Client profile from the client manager, if one is selected" },
+  { name: "thread", description: "Order thread status and how to treat earlier turns" },
+  { name: "gigs", description: "Matching gigs and the titles of all active gigs" },
+  { name: "knowledge", description: "Knowledge base passages, with strict mode instructions" },
+  { name: "pricing", description: "Structured quote or gig package prices" },
+  { name: "refined_examples", description: "Similar and pinned refined responses" },
+  { name: "voice", description: "Voice settings (signature, formality, emojis, phrases)" },
+  { name: "style_rules", description: "Active style rules" },
+  { name: "deescalation", description: "De-escalation instructions when the mode is on" },
+  { name: "guidelines", description: "General response guidelines" },
+  { name: "attachments", description: "Notes about attached screenshots and files" },
+  { name: "language", description: "Reply language instruction for non-English clients" },
+  { name: "client_message", description: "The client message (appended if the template leaves it out)" }
+];
+
+// Which prompt version produced a response, as reported in the gemini-chat response context
+export interface PromptTemplateRef {
+  // null for the built-in prompt used when no template is stored
+  id: string | null;
+  name: string;
+  version: number;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Variables gemini-chat doesn't know render as empty text, so the editor warns about them
+export const findUnknownVariables = (body: string) => {
+  const known = new Set(promptVariables.map(variable => variable.name));
+  return [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(match => match[1]))].filter(name => !known.has(name));
+};
+
+// Generates a reply with one specific prompt version, for side-by-side comparisons
+export async function generateWithPromptTemplate(templateId: string, clientMessage: string, messageType: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('gemini-chat', {
+      body: { clientMessage, messageType, promptTemplateId: templateId }
+    });
+    if (error) throw error;
+    return data?.generatedResponse || null;
+  } catch (error) {
+    console.error('Error generating with prompt template:', error);
+    return null;
+  }
+}
@@ -0,0 +1,175 @@
+// Word-level diffs between a generated response and the user's refined version, and style rules
+// suggested from edits the user keeps making (accepted rules are stored in style_rules).
+
+export interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface StyleRuleSuggestion {
+  rule: string;
+  evidenceCount: number;
+}
+
+export interface Refinement {
+  original_response: string;
+  refined_response: string;
+}
+
+// Beyond this many token pairs the LCS table gets too large; the diff degrades to replace-all
+const MAX_DIFF_CELLS = 4_000_000;
+// A pattern has to show up in at least this many refinements to become a suggestion
+const MIN_EVIDENCE = 2;
+const MAX_SUGGESTIONS = 10;
+
+// Words keep their trailing whitespace so line breaks survive; comparison ignores it
+const tokenize = (text: string) => text.match(/\S+\s*/g) || [];
+const tokenKey = (token: string) => token.trim();
+
+export function diffWords(original: string, refined: string): DiffSegment[] {
+  const a = tokenize(original);
+  const b = tokenize(refined);
+  const segments: DiffSegment[] = [];
+
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    if (original) push("removed", original);
+    if (refined) push("added", refined);
+    return segments;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = tokenKey(a[i]) === tokenKey(b[j])
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (tokenKey(a[i]) === tokenKey(b[j])) {
+      push("equal", b[j]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
+
+const MIN_PHRASE_WORDS = 3;
+const MAX_PHRASE_WORDS = 8;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']+/gu, "");
+
+// Every 3-8 word sequence inside the removed (or added) runs of one diff. Counting sequences rather
+// than whole runs finds "I hope this finds you well" even when the neighbouring words differ per edit.
+const collectPhrases = (segments: DiffSegment[], type: DiffSegment["type"]) => {
+  const phrases = new Map<string, string>();
+  segments.filter(segment => segment.type === type).forEach(segment => {
+    const words = segment.text.split(/\s+/)
+      .map(word => ({ key: normalizeWord(word), text: word }))
+      .filter(word => word.key);
+
+    for (let start = 0; start < words.length; start++) {
+      for (let length = MIN_PHRASE_WORDS; length <= MAX_PHRASE_WORDS && start + length <= words.length; length++) {
+        const slice = words.slice(start, start + length);
+        const key = slice.map(word => word.key).join(" ");
+        if (!phrases.has(key)) {
+          phrases.set(key, slice.map(word => word.text).join(" ").replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}']+$/gu, ""));
+        }
+      }
+    }
+  });
+  return phrases;
+};
+
+// Recurring phrases, dropping those contained in a longer phrase that recurs just as often
+const recurringPhrases = (tallies: Map<string, { text: string; count: number }>) => {
+  const recurring = [...tallies.entries()].filter(([, entry]) => entry.count >= MIN_EVIDENCE);
+  return recurring
+    .filter(([key, entry]) => !recurring.some(([otherKey, other]) =>
+      otherKey !== key && other.count >= entry.count && ` ${otherKey} `.includes(` ${key} `)
+    ))
+    .map(([, entry]) => entry);
+};
+
+const EMOJI = /\p{Extended_Pictographic}/gu;
+const BULLET_LINE = /^\s*([-*•]|\d+\.)\s+/m;
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length || 0;
+
+export function suggestStyleRules(refinements: Refinement[]): StyleRuleSuggestion[] {
+  const removed = new Map<string, { text: string; count: number }>();
+  const added = new Map<string, { text: string; count: number }>();
+  let shorter = 0;
+  let longer = 0;
+  let fewerExclamations = 0;
+  let fewerEmojis = 0;
+  let bulletsAdded = 0;
+
+  const tally = (target: typeof removed, phrases: Map<string, string>) => {
+    phrases.forEach((text, key) => {
+      const entry = target.get(key) || { text, count: 0 };
+      entry.count += 1;
+      target.set(key, entry);
+    });
+  };
+
+  refinements.forEach(({ original_response, refined_response }) => {
+    if (original_response.trim() === refined_response.trim()) return;
+
+    const segments = diffWords(original_response, refined_response);
+    tally(removed, collectPhrases(segments, "removed"));
+    tally(added, collectPhrases(segments, "added"));
+
+    const ratio = refined_response.length / Math.max(original_response.length, 1);
+    if (ratio <= 0.8) shorter++;
+    if (ratio >= 1.2) longer++;
+    if (countMatches(refined_response, /!/g) < countMatches(original_response, /!/g)) fewerExclamations++;
+    if (countMatches(refined_response, EMOJI) < countMatches(original_response, EMOJI)) fewerEmojis++;
+    if (BULLET_LINE.test(refined_response) && !BULLET_LINE.test(original_response)) bulletsAdded++;
+  });
+
+  const edited = refinements.filter(({ original_response, refined_response }) =>
+    original_response.trim() !== refined_response.trim()
+  ).length;
+  // Structural habits need to hold for most edits, not just a couple
+  const isHabit = (count: number) => count >= MIN_EVIDENCE && count >= edited * 0.6;
+
+  const suggestions: StyleRuleSuggestion[] = [
+    ...recurringPhrases(removed)
+      .map(entry => ({ rule: `Never use the phrase "${entry.text}"`, evidenceCount: entry.count })),
+    ...recurringPhrases(added)
+      .map(entry => ({ rule: `Include a line like "${entry.text}" where it fits`, evidenceCount: entry.count }))
+  ];
+
+  if (isHabit(shorter)) suggestions.push({ rule: "Keep replies short and to the point; cut filler and repetition", evidenceCount: shorter });
+  if (isHabit(longer)) suggestions.push({ rule: "Give more detail on approach, scope and next steps than a minimal reply", evidenceCount: longer });
+  if (isHabit(fewerExclamations)) suggestions.push({ rule: "Use exclamation marks sparingly, at most one per message", evidenceCount: fewerExclamations });
+  if (isHabit(fewerEmojis)) suggestions.push({ rule: "Do not use emojis", evidenceCount: fewerEmojis });
+  if (isHabit(bulletsAdded)) suggestions.push({ rule: "Present deliverables, scope and steps as bullet lists", evidenceCount: bulletsAdded });
+
+  return suggestions
+    .sort((a, b) => b.evidenceCount - a.evidenceCount)
+    .slice(0, MAX_SUGGESTIONS);
+}
@@ -0,0 +1,9 @@
+// Outcomes a seller can record after sending a reply; stored in template_analytics.conversion_outcome
+export const templateOutcomes = [
+  { value: "order_won", label: "Order won", color: "#059669" },
+  { value: "revision", label: "Revision", color: "#EA580C" },
+  { value: "no_reply", label: "No reply", color: "#6B7280" }
+];
+
+export const getOutcomeLabel = (value: string) =>
+  templateOutcomes.find(outcome => outcome.value === value)?.label || value;
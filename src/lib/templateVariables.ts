@@ -0,0 +1,121 @@
+// Template variable engine: parses {{placeholders}}, renders values by type and reports unfilled ones.
+//
+// Placeholders look like {{client_name}}, optionally with an inline type and default:
+// {{first_milestone_date:date}}, {{price:currency|150}}, {{features:list}}.
+// The template's `template_variables` JSONB can also describe variables, either as a plain
+// default (`{ "timeline": "7 days" }`) or as an object (`{ "price": { "type": "currency", "default": 150, "currency": "EUR" } }`).
+
+export type TemplateVariableType = "text" | "date" | "currency" | "number" | "list";
+
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  type: TemplateVariableType;
+  defaultValue: string;
+  currency: string;
+}
+
+export type TemplateValues = Record<string, string>;
+
+const VARIABLE_TYPES: TemplateVariableType[] = ["text", "date", "currency", "number", "list"];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*(?::\s*([a-z]+)\s*)?(?:\|([^}]*))?\}\}/g;
+
+const isVariableType = (value: unknown): value is TemplateVariableType =>
+  typeof value === "string" && (VARIABLE_TYPES as string[]).includes(value);
+
+// Placeholder names are user text, so {{constructor}} must not find Object.prototype members
+const ownValue = <T>(record: Record<string, T>, name: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(record, name) ? record[name] : undefined;
+
+// Fallback when neither the placeholder nor the JSONB says what a variable holds
+const inferType = (name: string): TemplateVariableType => {
+  if (/(^|_)(date|deadline)$/.test(name)) return "date";
+  if (/(^|_)(price|budget|cost|amount|fee|total)$/.test(name)) return "currency";
+  if (/(^|_)(count|number|qty|quantity)$/.test(name)) return "number";
+  return "text";
+};
+
+const toLabel = (name: string) =>
+  name.replace(/_/g, " ").replace(/\b\w/g, letter => letter.toUpperCase());
+
+export function parseTemplateVariables(content: string, definitions?: unknown): TemplateVariable[] {
+  const defined = definitions && typeof definitions === "object" && !Array.isArray(definitions)
+    ? (definitions as Record<string, unknown>)
+    : {};
+  const variables = new Map<string, TemplateVariable>();
+
+  for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+    const [, name, inlineType, inlineDefault] = match;
+    if (variables.has(name)) continue;
+
+    const definition = ownValue(defined, name);
+    const spec = definition && typeof definition === "object" ? (definition as Record<string, unknown>) : null;
+    const specDefault = spec ? spec.default : definition;
+
+    variables.set(name, {
+      name,
+      label: typeof spec?.label === "string" ? spec.label : toLabel(name),
+      type: isVariableType(inlineType) ? inlineType : isVariableType(spec?.type) ? spec.type : inferType(name),
+      defaultValue: inlineDefault?.trim() ?? (specDefault != null && typeof specDefault !== "object" ? String(specDefault) : ""),
+      currency: typeof spec?.currency === "string" ? spec.currency : "USD"
+    });
+  }
+
+  return [...variables.values()];
+}
+
+const formatList = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+export function formatVariableValue(variable: TemplateVariable, value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return "";
+
+  switch (variable.type) {
+    case "date": {
+      const date = new Date(`${trimmed}T00:00:00`);
+      return isNaN(date.getTime())
+        ? trimmed
+        : date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+    }
+    case "currency": {
+      const amount = Number(trimmed);
+      if (isNaN(amount)) return trimmed;
+      try {
+        return new Intl.NumberFormat("en-US", { style: "currency", currency: variable.currency }).format(amount);
+      } catch {
+        return `${amount.toFixed(2)} ${variable.currency}`;
+      }
+    }
+    case "list":
+      return formatList(trimmed.split(/\n|,/).map(item => item.trim()).filter(Boolean));
+    default:
+      return trimmed;
+  }
+}
+
+// Replaces every filled placeholder; empty ones are left as {{name}} so they can be flagged
+export function fillTemplate(content: string, variables: TemplateVariable[], values: TemplateValues) {
+  const byName = new Map(variables.map(variable => [variable.name, variable]));
+
+  return content.replace(
+    new RegExp(`(\\$\\s?)?${PLACEHOLDER_PATTERN.source}`, "g"),
+    (placeholder, dollarPrefix: string | undefined, name: string) => {
+      const variable = byName.get(name);
+      const formatted = variable ? formatVariableValue(variable, ownValue(values, name) ?? "") : "";
+      if (!formatted) return placeholder;
+      // "${{price}}" in a template would otherwise come out as "$$150.00"
+      return dollarPrefix && variable?.type === "currency" ? formatted : `${dollarPrefix ?? ""}${formatted}`;
+    }
+  );
+}
+
+export function findUnfilledPlaceholders(text: string) {
+  return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+// Read-only preview, e.g. {{client_name}} -> [CLIENT NAME]
+export function previewTemplate(content: string) {
+  return content.replace(PLACEHOLDER_PATTERN, (_, name: string) => `[${name.replace(/_/g, " ").toUpperCase()}]`);
+}
@@ -0,0 +1,12 @@
+// Tone styles shared by templates and multi-draft generation
+export const toneStyles = [
+  { value: "professional", label: "Professional" },
+  { value: "warm", label: "Warm & Friendly" },
+  { value: "consultative", label: "Consultative" },
+  { value: "collaborative", label: "Collaborative" },
+  { value: "efficient", label: "Direct & Efficient" },
+  { value: "premium", label: "Premium Service" }
+];
+
+export const getToneLabel = (value: string) =>
+  toneStyles.find(tone => tone.value === value)?.label ?? value;
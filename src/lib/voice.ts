@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Per-user brand voice (stored on `profiles.voice_settings`). gemini-chat compiles it into a VOICE
+// section of every prompt; the same settings can be sent unsaved as `voiceSettings` to preview them.
+
+export type EmojiPolicy = "any" | "none" | "sparing" | "friendly";
+export type ResponseFormat = "any" | "plain" | "markdown";
+
+export interface VoiceSettings {
+  signature: string;
+  greeting_style: string;
+  closing_style: string;
+  emoji_policy: EmojiPolicy;
+  // 1 (very casual) - 5 (very formal); 3 keeps the default professional-but-warm tone
+  formality: number;
+  banned_phrases: string[];
+  required_phrases: string[];
+  // 0 = no limit
+  max_words: number;
+  format: ResponseFormat;
+}
+
+export const emojiPolicies: { value: EmojiPolicy; label: string }[] = [
+  { value: "any", label: "No preference" },
+  { value: "none", label: "Never use emojis" },
+  { value: "sparing", label: "At most one emoji" },
+  { value: "friendly", label: "A few friendly emojis" }
+];
+
+export const responseFormats: { value: ResponseFormat; label: string }[] = [
+  { value: "any", label: "No preference" },
+  { value: "plain", label: "Plain text" },
+  { value: "markdown", label: "Markdown (bold, lists)" }
+];
+
+export const formalityLabels = ["Very casual", "Casual", "Balanced", "Formal", "Very formal"];
+
+export const MAX_PHRASES = 20;
+
+export const defaultVoiceSettings: VoiceSettings = {
+  signature: "",
+  greeting_style: "",
+  closing_style: "",
+  emoji_policy: "any",
+  formality: 3,
+  banned_phrases: [],
+  required_phrases: [],
+  max_words: 0,
+  format: "any"
+};
+
+const toText = (value: unknown) => (typeof value === "string" ? value : "");
+
+const toPhrases = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((phrase): phrase is string => typeof phrase === "string" && phrase.trim() !== "")
+        .map(phrase => phrase.trim())
+        .slice(0, MAX_PHRASES)
+    : [];
+
+const pick = <T extends string>(value: unknown, options: { value: T }[], fallback: T) =>
+  options.find(option => option.value === value)?.value ?? fallback;
+
+// Reads the stored JSON defensively; anything missing falls back to "no preference"
+export function parseVoiceSettings(raw: unknown): VoiceSettings {
+  const source = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const formality = Math.round(Number(source.formality));
+  const maxWords = Math.round(Number(source.max_words));
+
+  return {
+    signature: toText(source.signature),
+    greeting_style: toText(source.greeting_style),
+    closing_style: toText(source.closing_style),
+    emoji_policy: pick(source.emoji_policy, emojiPolicies, defaultVoiceSettings.emoji_policy),
+    formality: formality >= 1 && formality <= 5 ? formality : defaultVoiceSettings.formality,
+    banned_phrases: toPhrases(source.banned_phrases),
+    required_phrases: toPhrases(source.required_phrases),
+    max_words: Number.isFinite(maxWords) && maxWords > 0 ? maxWords : 0,
+    format: pick(source.format, responseFormats, defaultVoiceSettings.format)
+  };
+}
+
+// One phrase per line in the settings form
+export const parsePhraseList = (text: string) =>
+  [...new Set(text.split("\n").map(phrase => phrase.trim()).filter(Boolean))].slice(0, MAX_PHRASES);
+
+// Generates a reply to a sample message with unsaved settings, going through the normal prompt
+export async function previewVoice(settings: VoiceSettings, sampleMessage: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('gemini-chat', {
+      body: { clientMessage: sampleMessage, messageType: 'question', voiceSettings: settings }
+    });
+    if (error) throw error;
+    return data?.generatedResponse || null;
+  } catch (error) {
+    console.error('Error previewing voice settings:', error);
+    return null;
+  }
+}
@@ -0,0 +1,176 @@
+// Embedding provider layer shared by gemini-chat (query vectors) and generate-embeddings (backfill).
+//
+// Every vector is stored with the model tag that produced it and the vector-search RPC only compares
+// vectors with the same tag, so switching providers never mixes incompatible embedding spaces.
+// The provider comes from the `EMBEDDING_PROVIDER` env var; without it Gemini is used when a key is
+// configured and the local hashed embedding otherwise. Remote failures fall back to the local one.
+//
+// Environment variables:
+// - gemini: GOOGLE_GEMINI_API_KEY, GEMINI_EMBEDDING_MODEL (default text-embedding-004)
+// - openai: OPENAI_API_KEY, OPENAI_BASE_URL (default https://api.openai.com/v1), OPENAI_EMBEDDING_MODEL (default text-embedding-3-small)
+// - ollama: OLLAMA_BASE_URL (default http://localhost:11434), OLLAMA_EMBEDDING_MODEL (default nomic-embed-text)
+// - local:  no configuration, deterministic feature hashing
+
+// Must match the vector(768) columns in the database
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface EmbeddingProvider {
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingResult {
+  model: string;
+  vectors: number[][];
+}
+
+const env = (key: string, fallback = '') => Deno.env.get(key) || fallback;
+
+const postJson = async (providerName: string, url: string, headers: Record<string, string>, body: unknown) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    console.error(`${providerName} embedding API error:`, await response.text());
+    throw new Error(`Failed to embed text with ${providerName}`);
+  }
+
+  return response.json();
+};
+
+const geminiEmbeddings = (): EmbeddingProvider => {
+  const apiKey = env('GOOGLE_GEMINI_API_KEY');
+  const model = env('GEMINI_EMBEDDING_MODEL', 'text-embedding-004');
+
+  return {
+    model: `gemini:${model}`,
+    async embed(texts) {
+      const data = await postJson(
+        'Gemini',
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${apiKey}`,
+        {},
+        {
+          requests: texts.map(text => ({
+            model: `models/${model}`,
+            content: { parts: [{ text }] },
+            outputDimensionality: EMBEDDING_DIMENSIONS
+          }))
+        }
+      );
+      return data.embeddings.map((embedding: { values: number[] }) => embedding.values);
+    }
+  };
+};
+
+const openAiEmbeddings = (): EmbeddingProvider => {
+  const apiKey = env('OPENAI_API_KEY');
+  const baseUrl = env('OPENAI_BASE_URL', 'https://api.openai.com/v1').replace(/\/$/, '');
+  const model = env('OPENAI_EMBEDDING_MODEL', 'text-embedding-3-small');
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  return {
+    model: `openai:${model}`,
+    async embed(texts) {
+      const data = await postJson('OpenAI', `${baseUrl}/embeddings`, headers, {
+        model,
+        input: texts,
+        dimensions: EMBEDDING_DIMENSIONS
+      });
+      return data.data.map((item: { embedding: number[] }) => item.embedding);
+    }
+  };
+};
+
+const ollamaEmbeddings = (): EmbeddingProvider => {
+  const baseUrl = env('OLLAMA_BASE_URL', 'http://localhost:11434').replace(/\/$/, '');
+  const model = env('OLLAMA_EMBEDDING_MODEL', 'nomic-embed-text');
+
+  return {
+    model: `ollama:${model}`,
+    async embed(texts) {
+      const data = await postJson('Ollama', `${baseUrl}/api/embed`, {}, { model, input: texts });
+      return data.embeddings;
+    }
+  };
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'have', 'i',
+  'if', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'we',
+  'with', 'you', 'your'
+]);
+
+// FNV-1a, stable across runs and platforms
+const hashToken = (token: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// Signed feature hashing of words plus character trigrams, so "logos" still lands near "logo".
+// Not semantic, but deterministic, offline and far more forgiving than exact word overlap.
+export const localEmbedding = (text: string): number[] => {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word && !STOP_WORDS.has(word));
+
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashToken(feature);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const word of words) {
+    addFeature(`w:${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+const localEmbeddings = (): EmbeddingProvider => ({
+  model: 'local:hash-v1',
+  async embed(texts) {
+    return texts.map(localEmbedding);
+  }
+});
+
+const embeddingFactories: Record<string, () => EmbeddingProvider> = {
+  gemini: geminiEmbeddings,
+  openai: openAiEmbeddings,
+  ollama: ollamaEmbeddings,
+  local: localEmbeddings,
+};
+
+export const resolveEmbeddingProvider = (): EmbeddingProvider => {
+  const configured = env('EMBEDDING_PROVIDER', env('GOOGLE_GEMINI_API_KEY') ? 'gemini' : 'local');
+  return (embeddingFactories[configured] || localEmbeddings)();
+};
+
+export const embedTexts = async (texts: string[], provider = resolveEmbeddingProvider()): Promise<EmbeddingResult> => {
+  try {
+    const vectors = await provider.embed(texts);
+    if (vectors.length !== texts.length || vectors.some(vector => vector.length !== EMBEDDING_DIMENSIONS)) {
+      throw new Error(`${provider.model} returned unexpected embedding dimensions`);
+    }
+    return { model: provider.model, vectors };
+  } catch (error) {
+    console.error('Embedding provider failed, using local embeddings:', error);
+    const local = localEmbeddings();
+    return { model: local.model, vectors: await local.embed(texts) };
+  }
+};
+
+// pgvector accepts the JSON array text form, e.g. "[0.1,0.2]"
+export const toVectorLiteral = (vector: number[]) => JSON.stringify(vector);
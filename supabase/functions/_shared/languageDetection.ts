@@ -0,0 +1,51 @@
+// Offline language detection, shared by the app (src/lib/languages.ts) and the gemini-chat eval.
+
+export const DEFAULT_LANGUAGE = "en";
+
+// Scripts identify a language outright; the share of matching characters must be significant
+// so a single quoted word doesn't flip the result. Kana is checked before Han characters so
+// Japanese isn't read as Chinese.
+const SCRIPT_RULES: { code: string; pattern: RegExp }[] = [
+  { code: "ar", pattern: /[؀-ۿ]/g },
+  { code: "ru", pattern: /[Ѐ-ӿ]/g },
+  { code: "hi", pattern: /[ऀ-ॿ]/g },
+  { code: "ja", pattern: /[぀-ヿ]/g },
+  { code: "ko", pattern: /[가-힯]/g },
+  { code: "zh", pattern: /[一-鿿]/g }
+];
+
+// Frequent short words per Latin-script language; the language with most hits wins
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "is", "you", "for", "with", "this", "that", "can", "my", "have", "please", "what", "would"],
+  es: ["el", "la", "los", "las", "que", "es", "para", "con", "por", "una", "mi", "pero", "como", "gracias", "necesito", "hola"],
+  de: ["der", "die", "das", "und", "ist", "ich", "nicht", "mit", "für", "ein", "eine", "sie", "bitte", "danke", "können"],
+  fr: ["le", "les", "des", "est", "je", "vous", "pour", "avec", "une", "pas", "mon", "merci", "bonjour", "avez"],
+  pt: ["o", "os", "que", "é", "para", "com", "uma", "não", "meu", "você", "obrigado", "olá", "preciso"],
+  it: ["il", "che", "è", "per", "con", "una", "non", "mio", "sono", "grazie", "ciao", "vorrei", "della"],
+  nl: ["de", "het", "een", "en", "is", "ik", "niet", "met", "voor", "je", "bedankt", "graag", "kunt"],
+  tr: ["ve", "bir", "bu", "için", "ile", "ben", "çok", "teşekkürler", "merhaba", "lütfen", "istiyorum"]
+};
+
+// Rough detection used when the model is unavailable and to decide whether a text needs translating
+export function detectLanguage(text: string): string {
+  const letters = text.replace(/[\s\d\p{P}\p{S}]/gu, "").length;
+  if (letters === 0) return DEFAULT_LANGUAGE;
+
+  for (const rule of SCRIPT_RULES) {
+    if ((text.match(rule.pattern)?.length || 0) / letters > 0.3) {
+      return rule.code;
+    }
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  let best = DEFAULT_LANGUAGE;
+  let bestHits = 0;
+  Object.entries(STOPWORDS).forEach(([code, stopwords]) => {
+    const hits = words.filter(word => stopwords.includes(word)).length;
+    if (hits > bestHits) {
+      best = code;
+      bestHits = hits;
+    }
+  });
+  return best;
+}
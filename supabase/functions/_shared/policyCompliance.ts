@@ -0,0 +1,134 @@
+// Rule-based Fiverr Terms of Service check for outgoing responses.
+// Each rule finds spans in the text; the response panel highlights them and blocks Copy/Save until acknowledged.
+
+export type PolicySeverity = "high" | "medium";
+
+export interface PolicyRule {
+  id: string;
+  label: string;
+  severity: PolicySeverity;
+  explanation: string;
+  pattern: RegExp;
+  // Extra filter for patterns that would otherwise over-match (e.g. dates that look like phone numbers)
+  accept?: (match: string) => boolean;
+}
+
+export interface PolicyViolation {
+  ruleId: string;
+  label: string;
+  severity: PolicySeverity;
+  explanation: string;
+  match: string;
+  start: number;
+  end: number;
+}
+
+const FIVERR_LINK = /^(?:https?:\/\/)?(?:[\w-]+\.)*fiverr\.com\b/i;
+
+export const policyRules: PolicyRule[] = [
+  {
+    id: "email",
+    label: "Email address",
+    severity: "high",
+    explanation: "Sharing email addresses moves communication off Fiverr.",
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+  },
+  {
+    id: "phone",
+    label: "Phone number",
+    severity: "high",
+    explanation: "Phone numbers are off-platform contact details.",
+    pattern: /\+?\(?\d[\d\s().-]{7,}\d/g,
+    accept: (match) => match.replace(/\D/g, "").length >= 9 && !/^\d{4}-\d{2}-\d{2}$/.test(match.trim())
+  },
+  {
+    id: "messaging_app",
+    label: "External messaging app",
+    severity: "high",
+    explanation: "Skype, WhatsApp, Telegram and similar apps take the conversation off Fiverr.",
+    pattern: /\b(?:skype|whats\s?app|telegram|discord|wechat|viber)\b/gi
+  },
+  {
+    id: "external_payment",
+    label: "External payment",
+    severity: "high",
+    explanation: "All payments must go through Fiverr.",
+    pattern: /\b(?:paypal|venmo|cash\s?app|zelle|western union|payoneer|bank transfer|wire transfer|bitcoin|crypto(?:currency)?|usdt|pay (?:me )?(?:directly|outside(?: of)? fiverr|off[- ]?platform))\b/gi
+  },
+  {
+    id: "off_platform",
+    label: "Off-platform request",
+    severity: "high",
+    explanation: "Asking to continue outside Fiverr violates the Terms of Service.",
+    pattern: /\b(?:outside (?:of )?fiverr|off[- ]?(?:platform|fiverr)|contact me (?:directly|outside)|my (?:personal )?(?:email|phone|number|website))\b/gi
+  },
+  {
+    id: "link",
+    label: "External link",
+    severity: "medium",
+    explanation: "Links outside Fiverr can be flagged; share files through the Fiverr inbox instead.",
+    pattern: /\b(?:https?:\/\/|www\.)[^\s)>\]]+/gi,
+    accept: (match) => !FIVERR_LINK.test(match)
+  },
+  {
+    id: "review_manipulation",
+    label: "Review manipulation",
+    severity: "high",
+    explanation: "Asking for a specific rating or trading incentives for reviews is not allowed.",
+    pattern: /\b(?:(?:leave|give|write|post) (?:me )?(?:a |an )?(?:5[- ]?star|five[- ]?star|positive|good|great|excellent) (?:review|rating|feedback)|(?:review|rating|feedback) in exchange|(?:change|remove|update|edit) (?:your|the) (?:review|rating|feedback)|(?:discount|refund|bonus|extra) (?:for|if you leave) (?:a )?(?:review|rating))\b/gi
+  },
+  {
+    id: "prohibited_request",
+    label: "Prohibited request",
+    severity: "high",
+    explanation: "Fiverr prohibits academic cheating, fake engagement and collecting account credentials.",
+    pattern: /\b(?:(?:take|do|complete) (?:your|the) (?:exam|test|quiz|online class)|write your (?:essay|thesis|dissertation|assignment) for you|fake (?:reviews|followers|accounts|likes)|buy (?:followers|likes|reviews)|(?:send|share|give) me your (?:password|login|credentials))\b/gi
+  }
+];
+
+export function checkCompliance(text: string, rules: PolicyRule[] = policyRules): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  for (const rule of rules) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const matched = match[0];
+      if (rule.accept && !rule.accept(matched)) continue;
+
+      const start = match.index ?? 0;
+      // An email also contains what looks like a link or a phone number; keep the first, most specific hit
+      if (violations.some(v => start < v.end && start + matched.length > v.start)) continue;
+
+      violations.push({
+        ruleId: rule.id,
+        label: rule.label,
+        severity: rule.severity,
+        explanation: rule.explanation,
+        match: matched,
+        start,
+        end: start + matched.length
+      });
+    }
+  }
+
+  return violations.sort((a, b) => a.start - b.start);
+}
+
+// Splits text into plain and flagged segments for inline highlighting
+export function segmentByViolations(text: string, violations: PolicyViolation[]) {
+  const segments: { text: string; violation: PolicyViolation | null }[] = [];
+  let cursor = 0;
+
+  for (const violation of violations) {
+    if (violation.start > cursor) {
+      segments.push({ text: text.slice(cursor, violation.start), violation: null });
+    }
+    segments.push({ text: text.slice(violation.start, violation.end), violation });
+    cursor = violation.end;
+  }
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), violation: null });
+  }
+
+  return segments;
+}
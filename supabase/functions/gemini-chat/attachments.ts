@@ -0,0 +1,154 @@
+// Loads user-uploaded attachments (screenshots and PDFs) from the private `screenshots` bucket as inline data.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { LLMAttachment } from './providers.ts';
+
+const ATTACHMENT_BUCKET = 'screenshots';
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+// Keeps the request to the model provider well under its inline payload limits
+const MAX_TOTAL_BYTES = 20 * 1024 * 1024;
+const MAX_ATTACHMENTS = 6;
+const SIGNED_URL_TTL_SECONDS = 60;
+
+// Older conversations stored a (non-working) public URL; newer ones store the object path
+export const toScreenshotPath = (reference: string) => {
+  const marker = `/object/public/${ATTACHMENT_BUCKET}/`;
+  const index = reference.indexOf(marker);
+  try {
+    return decodeURIComponent(index >= 0 ? reference.slice(index + marker.length) : reference);
+  } catch {
+    // Malformed escapes can't name a real object; an empty path is rejected below
+    return '';
+  }
+};
+
+// Uploads live under `<user id>/`; the service-role client would happily sign anyone else's file.
+// Every segment is checked so `..`, or a `%2e%2e` the storage API would decode, can't climb out of the folder.
+const isUserPath = (userId: string, path: string) => {
+  const segments = path.split('/');
+  return segments.length > 1 && segments[0] === userId &&
+    segments.every(segment => segment !== '' && segment !== '.' && segment !== '..' && !/[%\\]/.test(segment));
+};
+
+// Reads the body only up to `maxBytes`: the declared length is checked first and the stream is
+// cancelled as soon as it goes over, so an oversized file is never held in memory. Null when too large.
+const readCapped = async (response: Response, maxBytes: number): Promise<Uint8Array | null> => {
+  if (Number(response.headers.get('Content-Length')) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+const downloadAttachment = async (
+  supabase: SupabaseClient,
+  userId: string,
+  path: string,
+  fileName?: string
+): Promise<{ attachment: LLMAttachment; size: number } | null> => {
+  if (!isUserPath(userId, path)) {
+    console.error('Rejected attachment outside the user folder:', path);
+    return null;
+  }
+
+  const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+  if (error || !data?.signedUrl) {
+    console.error('Error signing attachment URL:', error);
+    return null;
+  }
+
+  const response = await fetch(data.signedUrl);
+  if (!response.ok) {
+    console.error('Error downloading attachment:', response.status);
+    return null;
+  }
+
+  const bytes = await readCapped(response, MAX_FILE_BYTES);
+  if (!bytes) {
+    console.error('Attachment too large to send inline:', path);
+    return null;
+  }
+
+  return {
+    attachment: {
+      mimeType: response.headers.get('Content-Type')?.split(';')[0] || 'image/png',
+      data: encodeBase64(bytes),
+      fileName
+    },
+    size: bytes.length
+  };
+};
+
+export const loadScreenshot = async (
+  supabase: SupabaseClient,
+  userId: string,
+  reference: string
+): Promise<LLMAttachment | null> => {
+  const loaded = await downloadAttachment(supabase, userId, toScreenshotPath(reference));
+  return loaded?.attachment ?? null;
+};
+
+// Loads `conversation_attachments` rows by id, in the order the user attached them.
+// Files that fail to load, or would push the request over the size budget, are skipped.
+export const loadMessageAttachments = async (
+  supabase: SupabaseClient,
+  userId: string,
+  attachmentIds: string[]
+): Promise<LLMAttachment[]> => {
+  if (attachmentIds.length === 0) return [];
+
+  const { data: rows, error } = await supabase
+    .from('conversation_attachments')
+    .select('id, storage_path, file_name')
+    .eq('user_id', userId)
+    .in('id', attachmentIds.slice(0, MAX_ATTACHMENTS));
+
+  if (error) {
+    console.error('Error loading attachment rows:', error);
+    return [];
+  }
+
+  const ordered = attachmentIds
+    .map(id => rows?.find(row => row.id === id))
+    .filter((row): row is { id: string; storage_path: string; file_name: string } => !!row);
+
+  const loaded = await Promise.all(
+    ordered.map(row => downloadAttachment(supabase, userId, row.storage_path, row.file_name))
+  );
+
+  const attachments: LLMAttachment[] = [];
+  let totalBytes = 0;
+  for (const item of loaded) {
+    if (!item) continue;
+    if (totalBytes + item.size > MAX_TOTAL_BYTES) {
+      console.error('Skipping attachment over the total size budget:', item.attachment.fileName);
+      continue;
+    }
+    totalBytes += item.size;
+    attachments.push(item.attachment);
+  }
+
+  return attachments;
+};
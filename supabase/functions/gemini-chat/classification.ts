@@ -0,0 +1,81 @@
+import { parseLanguageCode } from './language.ts';
+
+// Intent classification for incoming client messages (action "classify_message").
+// The message types mirror the messageTypes list in the app.
+
+export const MESSAGE_TYPES = ['greeting', 'custom_offer', 'revision', 'delivery', 'timeline', 'pricing', 'question'];
+const URGENCIES = ['low', 'normal', 'high'];
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+
+export interface MessageClassification {
+  messageType: string;
+  confidence: number;
+  intent: string;
+  urgency: string;
+  sentiment: string;
+  deliverables: string[];
+  riskScore: number;
+  riskSignals: string[];
+  language: string;
+}
+
+export const buildClassificationPrompt = (clientMessage: string) => `Classify this message a Fiverr seller received from a client.
+
+Return ONLY a JSON object with these fields:
+- "messageType": one of ${MESSAGE_TYPES.map(type => `"${type}"`).join(', ')}
+  greeting = first contact or small talk; custom_offer = describes a project or asks for an offer; revision = asks for changes to delivered work;
+  delivery = about a delivery that was sent or received; timeline = deadlines, turnaround or delays; pricing = prices, budget or discounts;
+  question = any other question
+- "confidence": number from 0 to 1 for how clearly the message fits that type
+- "intent": one short sentence describing what the client wants
+- "urgency": "low", "normal" or "high"
+- "sentiment": "positive", "neutral" or "negative"
+- "deliverables": array of concrete items the client asks for (e.g. "3 logo concepts", "landing page"), empty if none
+- "riskScore": number from 0 to 1 for how likely this conversation escalates (cancellation, refund, bad review, dispute); 0 for ordinary messages
+- "riskSignals": array of short labels for the escalation signals found (e.g. "Cancellation threat", "Bad review threat", "Refund request", "Missed deadline", "Frustration"), empty if none
+- "language": ISO 639-1 code of the language the client wrote in (e.g. "en", "es", "de", "ar")
+
+CLIENT MESSAGE:
+${clientMessage.substring(0, 4000)}`;
+
+const toNumber = (value: unknown, fallback: number) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(1, Math.max(0, number)) : fallback;
+};
+
+const toStringList = (value: unknown, max: number) => Array.isArray(value)
+  ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    .map(item => item.trim().substring(0, 100))
+    .slice(0, max)
+  : [];
+
+const pick = (value: unknown, allowed: string[], fallback: string) =>
+  typeof value === 'string' && allowed.includes(value.toLowerCase()) ? value.toLowerCase() : fallback;
+
+// Models sometimes wrap the JSON in a code fence or add a sentence around it
+export const parseClassification = (raw: string): MessageClassification | null => {
+  const json = raw.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(json[0]);
+  } catch {
+    return null;
+  }
+
+  const messageType = pick(parsed.messageType, MESSAGE_TYPES, '');
+  if (!messageType) return null;
+
+  return {
+    messageType,
+    confidence: toNumber(parsed.confidence, 0.5),
+    intent: typeof parsed.intent === 'string' ? parsed.intent.trim().substring(0, 200) : '',
+    urgency: pick(parsed.urgency, URGENCIES, 'normal'),
+    sentiment: pick(parsed.sentiment, SENTIMENTS, 'neutral'),
+    deliverables: toStringList(parsed.deliverables, 10),
+    riskScore: toNumber(parsed.riskScore, 0),
+    riskSignals: toStringList(parsed.riskSignals, 5),
+    language: parseLanguageCode(parsed.language) || 'en'
+  };
+};
@@ -0,0 +1,130 @@
+// Loads everything a generation request needs from the database, scoped to the requesting user
+// (the function runs with the service-role key, so every query filters by user_id itself).
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
+import { toVectorLiteral, type EmbeddingResult } from '../_shared/embeddings.ts';
+import type { RelevantGig } from './gigs.ts';
+import { selectPassages, type KnowledgePassage } from './knowledge.ts';
+import { PROMPT_TEMPLATE_COLUMNS, type PromptTemplate } from './promptTemplate.ts';
+import type { ClientRow, RefinedExample, ThreadMessage, ThreadRow } from './prompt.ts';
+
+const SIMILAR_REFINED_LIMIT = 2;
+const RELEVANT_GIG_LIMIT = 2;
+const KNOWLEDGE_PASSAGE_LIMIT = 4;
+const RECENT_CONVERSATION_LIMIT = 10;
+
+export interface RetrievalQuery {
+  userId: string;
+  clientMessage: string;
+  messageType: string;
+  // Language detected for the client message, preferred when matching refined responses
+  language: string | null;
+  queryEmbedding: EmbeddingResult;
+}
+
+export interface ContextRequest extends RetrievalQuery {
+  threadId: string | null;
+  clientId: string | null;
+  // Explicit prompt template version (A/B runs); otherwise the active templates are loaded
+  promptTemplateId: string | null;
+}
+
+export interface ProfileRow {
+  fiverr_username: string | null;
+  gig_catalogue: unknown;
+  knowledge_strict_mode: boolean | null;
+  voice_settings: unknown;
+  llm_provider: string | null;
+}
+
+export interface MessageTemplateRow {
+  id: string;
+}
+
+export interface GenerationContext {
+  templates: MessageTemplateRow[];
+  recentMessageTypes: string[];
+  profile: ProfileRow | null;
+  similarRefinedResponses: RefinedExample[];
+  thread: ThreadRow | null;
+  threadMessages: ThreadMessage[];
+  client: ClientRow | null;
+  relevantGigs: RelevantGig[];
+  gigTitles: string[];
+  knowledgePassages: KnowledgePassage[];
+  strictMode: boolean;
+  styleRules: { rule: string }[];
+  promptTemplates: PromptTemplate[];
+}
+
+// Same retrieval for generation and for the preview in the refinements manager
+export const findSimilarRefinedResponses = (supabase: SupabaseClient, query: RetrievalQuery) =>
+  supabase.rpc('find_similar_refined_responses', {
+    user_id_param: query.userId,
+    client_message_param: query.clientMessage,
+    message_type_param: query.messageType,
+    similarity_limit: SIMILAR_REFINED_LIMIT,
+    query_embedding: toVectorLiteral(query.queryEmbedding.vectors[0]),
+    embedding_model_param: query.queryEmbedding.model,
+    language_param: query.language
+  });
+
+export const loadGenerationContext = async (supabase: SupabaseClient, request: ContextRequest): Promise<GenerationContext> => {
+  const { userId, clientMessage, queryEmbedding, threadId, promptTemplateId } = request;
+
+  const [templatesRes, conversationsRes, profileRes, refinedResponsesRes, threadRes, threadMessagesRes, relevantGigsRes, gigTitlesRes, knowledgeRes, styleRulesRes, promptTemplatesRes] = await Promise.all([
+    supabase.from('message_templates').select('*').eq('user_id', userId).order('usage_count', { ascending: false }),
+    supabase.from('conversations').select('*').eq('user_id', userId).order('created_at', { ascending: false }).limit(RECENT_CONVERSATION_LIMIT),
+    supabase.from('profiles').select('*').eq('user_id', userId).single(),
+    findSimilarRefinedResponses(supabase, request),
+    threadId
+      ? supabase.from('client_threads').select('*').eq('id', threadId).eq('user_id', userId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    threadId
+      ? supabase.from('conversations').select('client_message, bot_response, created_at').eq('thread_id', threadId).eq('user_id', userId).order('created_at', { ascending: true })
+      : Promise.resolve({ data: [] }),
+    supabase.rpc('find_relevant_gigs', {
+      user_id_param: userId,
+      client_message_param: clientMessage,
+      match_limit: RELEVANT_GIG_LIMIT,
+      query_embedding: toVectorLiteral(queryEmbedding.vectors[0]),
+      embedding_model_param: queryEmbedding.model
+    }),
+    supabase.from('gigs').select('title').eq('user_id', userId).eq('is_active', true).order('title'),
+    supabase.rpc('match_knowledge_chunks', {
+      user_id_param: userId,
+      client_message_param: clientMessage,
+      match_limit: KNOWLEDGE_PASSAGE_LIMIT,
+      query_embedding: toVectorLiteral(queryEmbedding.vectors[0]),
+      embedding_model_param: queryEmbedding.model
+    }),
+    supabase.from('style_rules').select('rule').eq('user_id', userId).eq('is_active', true).order('created_at'),
+    promptTemplateId
+      ? supabase.from('prompt_templates').select(PROMPT_TEMPLATE_COLUMNS).eq('id', promptTemplateId).or(`user_id.eq.${userId},user_id.is.null`)
+      : supabase.from('prompt_templates').select(PROMPT_TEMPLATE_COLUMNS).eq('is_active', true).or(`user_id.eq.${userId},user_id.is.null`)
+  ]);
+
+  const profile = profileRes.data;
+  const thread = threadRes.data;
+
+  // An explicitly selected client wins over the client linked to the thread
+  const resolvedClientId = request.clientId || thread?.client_id;
+  const { data: client } = resolvedClientId
+    ? await supabase.from('clients').select('*').eq('id', resolvedClientId).eq('user_id', userId).maybeSingle()
+    : { data: null };
+
+  return {
+    templates: templatesRes.data || [],
+    recentMessageTypes: (conversationsRes.data || []).map(conversation => conversation.message_type),
+    profile,
+    similarRefinedResponses: refinedResponsesRes.data || [],
+    thread,
+    threadMessages: thread ? threadMessagesRes.data || [] : [],
+    client,
+    relevantGigs: relevantGigsRes.data || [],
+    gigTitles: (gigTitlesRes.data || []).map(gig => gig.title),
+    knowledgePassages: selectPassages(knowledgeRes.data || []),
+    strictMode: profile?.knowledge_strict_mode === true,
+    styleRules: styleRulesRes.data || [],
+    promptTemplates: (promptTemplatesRes.data || []) as PromptTemplate[]
+  };
+};
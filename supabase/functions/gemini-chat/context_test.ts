@@ -0,0 +1,158 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMemorySupabase } from './testing/memorySupabase.ts';
+import { loadGenerationContext, type ContextRequest } from './context.ts';
+
+const USER = 'user-1';
+const OTHER = 'user-2';
+
+const passage = (id: string, relevance_score: number) => ({
+  id,
+  document_id: `doc-${id}`,
+  document_title: 'FAQ',
+  source_type: 'text',
+  chunk_index: 0,
+  content: `Passage ${id}`,
+  relevance_score
+});
+
+const seed = () => createMemorySupabase({
+  tables: {
+    message_templates: [
+      { id: 'rarely-used', user_id: USER, usage_count: 1 },
+      { id: 'often-used', user_id: USER, usage_count: 5 },
+      { id: 'someone-else', user_id: OTHER, usage_count: 9 }
+    ],
+    conversations: [
+      { id: 'c1', user_id: USER, thread_id: 'thread-1', message_type: 'pricing', client_message: 'How much?', bot_response: '50 USD', created_at: '2026-10-01T10:00:00Z' },
+      { id: 'c2', user_id: USER, thread_id: null, message_type: 'revision', client_message: 'Change it', bot_response: 'Sure', created_at: '2026-10-02T10:00:00Z' },
+      { id: 'c3', user_id: OTHER, thread_id: 'thread-1', message_type: 'greeting', client_message: 'Not mine', bot_response: 'No', created_at: '2026-10-03T10:00:00Z' }
+    ],
+    profiles: [
+      { user_id: USER, fiverr_username: 'seller', knowledge_strict_mode: true, llm_provider: 'mock' },
+      { user_id: OTHER, fiverr_username: 'other', knowledge_strict_mode: false, llm_provider: 'gemini' }
+    ],
+    client_threads: [
+      { id: 'thread-1', user_id: USER, client_id: 'ana', client_name: 'Ana', fiverr_order_id: null, status: 'active' },
+      { id: 'thread-other', user_id: OTHER, client_id: 'eve', client_name: 'Eve', fiverr_order_id: null, status: 'active' }
+    ],
+    clients: [
+      { id: 'ana', user_id: USER, name: 'Ana' },
+      { id: 'ben', user_id: USER, name: 'Ben' },
+      { id: 'eve', user_id: OTHER, name: 'Eve' }
+    ],
+    gigs: [
+      { user_id: USER, title: 'Logo design', is_active: true },
+      { user_id: USER, title: 'Retired gig', is_active: false },
+      { user_id: USER, title: 'App icons', is_active: true },
+      { user_id: OTHER, title: 'Not mine', is_active: true }
+    ],
+    style_rules: [
+      { user_id: USER, rule: 'Do not use emojis', is_active: true, created_at: '2026-10-02' },
+      { user_id: USER, rule: 'Keep it short', is_active: true, created_at: '2026-10-01' },
+      { user_id: USER, rule: 'Switched off', is_active: false, created_at: '2026-10-03' }
+    ],
+    prompt_templates: [
+      { id: 'global', user_id: null, message_type: null, name: 'Default', version: 1, body: 'A', is_active: true },
+      { id: 'mine-v1', user_id: USER, message_type: 'pricing', name: 'Pricing', version: 1, body: 'B', is_active: false },
+      { id: 'mine-v2', user_id: USER, message_type: 'pricing', name: 'Pricing', version: 2, body: 'C', is_active: true },
+      { id: 'theirs', user_id: OTHER, message_type: null, name: 'Theirs', version: 1, body: 'D', is_active: true }
+    ]
+  },
+  rpc: {
+    find_similar_refined_responses: () => [{
+      original_client_message: 'How much for a logo?',
+      refined_response: 'The Basic package is 60 USD.',
+      language: null,
+      is_pinned: false,
+      similarity_score: 0.8
+    }],
+    find_relevant_gigs: () => [],
+    match_knowledge_chunks: () => [passage('relevant', 0.6), passage('noise', 0.1)]
+  }
+});
+
+const request = (overrides: Partial<ContextRequest> = {}): ContextRequest => ({
+  userId: USER,
+  clientMessage: 'How much for a logo?',
+  messageType: 'pricing',
+  language: 'es',
+  queryEmbedding: { model: 'local-hash-768', vectors: [[0.1, 0.2]] },
+  threadId: null,
+  clientId: null,
+  promptTemplateId: null,
+  ...overrides
+});
+
+Deno.test('loads only the requesting user\'s rows', async () => {
+  const { supabase } = seed();
+  const context = await loadGenerationContext(supabase, request());
+
+  assertEquals(context.templates.map(template => template.id), ['often-used', 'rarely-used']);
+  assertEquals(context.recentMessageTypes, ['revision', 'pricing']);
+  assertEquals(context.profile?.fiverr_username, 'seller');
+  assertEquals(context.gigTitles, ['App icons', 'Logo design']);
+  assertEquals(context.styleRules, [{ rule: 'Keep it short' }, { rule: 'Do not use emojis' }]);
+  assertEquals(context.promptTemplates.map(template => template.id), ['global', 'mine-v2']);
+  assertEquals(context.strictMode, true);
+  assertEquals(context.similarRefinedResponses.length, 1);
+});
+
+Deno.test('drops knowledge passages below the relevance threshold', async () => {
+  const { supabase } = seed();
+  const context = await loadGenerationContext(supabase, request());
+
+  assertEquals(context.knowledgePassages.map(item => item.id), ['relevant']);
+});
+
+Deno.test('thread history and the thread\'s client are loaded', async () => {
+  const { supabase } = seed();
+  const context = await loadGenerationContext(supabase, request({ threadId: 'thread-1' }));
+
+  assertEquals(context.thread?.client_name, 'Ana');
+  assertEquals(context.threadMessages.map(message => message.client_message), ['How much?']);
+  assertEquals(context.client?.name, 'Ana');
+});
+
+Deno.test('an explicitly selected client wins over the thread\'s client', async () => {
+  const { supabase } = seed();
+  const context = await loadGenerationContext(supabase, request({ threadId: 'thread-1', clientId: 'ben' }));
+
+  assertEquals(context.client?.name, 'Ben');
+});
+
+Deno.test('threads and clients of other users are ignored', async () => {
+  const { supabase } = seed();
+  const context = await loadGenerationContext(supabase, request({ threadId: 'thread-other', clientId: 'eve' }));
+
+  assertEquals(context.thread, null);
+  assertEquals(context.threadMessages, []);
+  assertEquals(context.client, null);
+});
+
+Deno.test('an explicit prompt template id loads that version even when inactive', async () => {
+  const { supabase } = seed();
+
+  const mine = await loadGenerationContext(supabase, request({ promptTemplateId: 'mine-v1' }));
+  assertEquals(mine.promptTemplates.map(template => template.id), ['mine-v1']);
+
+  const theirs = await loadGenerationContext(supabase, request({ promptTemplateId: 'theirs' }));
+  assertEquals(theirs.promptTemplates, []);
+});
+
+Deno.test('retrieval RPCs get the query embedding and language', async () => {
+  const { supabase, rpcCalls } = seed();
+  await loadGenerationContext(supabase, request());
+
+  const refined = rpcCalls.find(call => call.name === 'find_similar_refined_responses');
+  assertEquals(refined?.params, {
+    user_id_param: USER,
+    client_message_param: 'How much for a logo?',
+    message_type_param: 'pricing',
+    similarity_limit: 2,
+    query_embedding: '[0.1,0.2]',
+    embedding_model_param: 'local-hash-768',
+    language_param: 'es'
+  });
+  assertEquals(rpcCalls.find(call => call.name === 'match_knowledge_chunks')?.params.match_limit, 4);
+  assertEquals(rpcCalls.find(call => call.name === 'find_relevant_gigs')?.params.match_limit, 2);
+});
@@ -0,0 +1,25 @@
+// Guidelines for replying to clients who are upset or threatening to escalate (cancellation, refund,
+// bad review, dispute). Enabled by the app's de-escalation mode; they take priority over the general guidelines.
+
+const MAX_SIGNALS = 5;
+
+export const parseRiskSignals = (value: unknown): string[] => Array.isArray(value)
+  ? value.filter((signal): signal is string => typeof signal === 'string' && signal.trim() !== '')
+    .map(signal => signal.trim().substring(0, 60))
+    .slice(0, MAX_SIGNALS)
+  : [];
+
+export const buildDeescalationSection = (enabled: boolean, riskSignals: string[]) => {
+  if (!enabled) return '';
+
+  return `
+DE-ESCALATION MODE (the client is upset - these rules override the general guidelines below):
+${riskSignals.length > 0 ? `- Detected: ${riskSignals.join(', ')}\n` : ''}- Open by acknowledging the client's frustration in their own terms; no generic "sorry for any inconvenience"
+- Take ownership of what went wrong on the seller's side without blaming the client, Fiverr or circumstances
+- Never argue, get defensive, or mention reviews, ratings or the client's threat
+- Offer one or two concrete remedies (a fix with a specific time, an extra revision, a partial solution) and ask which they prefer
+- If a cancellation or refund is requested, do not promise or refuse it outright; offer to resolve it through Fiverr's Resolution Center if the fix doesn't work for them
+- Stay calm, short and sincere: no exclamation marks, no sales language, no upselling
+- End with a clear next step and when the client will hear back
+`;
+};
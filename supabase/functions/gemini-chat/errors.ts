@@ -0,0 +1,56 @@
+// Typed failures returned to the app as `{ error, code, retryable }` with a matching HTTP status
+// (src/lib/generationErrors.ts on the app side). Anything thrown that isn't a ChatError is `internal`.
+
+export const ERROR_CODES = ['auth', 'quota', 'safety_blocked', 'upstream_timeout', 'bad_input', 'upstream_error', 'internal'] as const;
+export type ErrorCode = typeof ERROR_CODES[number];
+
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  auth: 401,
+  quota: 429,
+  safety_blocked: 422,
+  upstream_timeout: 504,
+  bad_input: 400,
+  upstream_error: 502,
+  internal: 500
+};
+
+// Whether sending the same request again can succeed; the app only offers Retry for these
+const RETRYABLE: Record<ErrorCode, boolean> = {
+  auth: false,
+  quota: true,
+  safety_blocked: false,
+  upstream_timeout: true,
+  bad_input: false,
+  upstream_error: true,
+  internal: true
+};
+
+export class ChatError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, options: { retryable?: boolean; details?: Record<string, unknown> } = {}) {
+    super(message);
+    this.name = 'ChatError';
+    this.code = code;
+    this.retryable = options.retryable ?? RETRYABLE[code];
+    this.details = options.details;
+  }
+
+  get status() {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+export const toChatError = (error: unknown): ChatError =>
+  error instanceof ChatError
+    ? error
+    : new ChatError('internal', error instanceof Error ? error.message : String(error));
+
+export const toErrorBody = (error: ChatError) => ({
+  error: error.message,
+  code: error.code,
+  retryable: error.retryable,
+  ...(error.details ? { details: error.details } : {})
+});
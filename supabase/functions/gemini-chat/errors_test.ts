@@ -0,0 +1,41 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { ChatError, toChatError, toErrorBody } from './errors.ts';
+
+Deno.test('error codes map to HTTP statuses and retryability', () => {
+  const cases = [
+    new ChatError('auth', 'x'),
+    new ChatError('quota', 'x'),
+    new ChatError('safety_blocked', 'x'),
+    new ChatError('upstream_timeout', 'x'),
+    new ChatError('bad_input', 'x'),
+    new ChatError('upstream_error', 'x')
+  ];
+
+  assertEquals(cases.map(error => [error.code, error.status, error.retryable]), [
+    ['auth', 401, false],
+    ['quota', 429, true],
+    ['safety_blocked', 422, false],
+    ['upstream_timeout', 504, true],
+    ['bad_input', 400, false],
+    ['upstream_error', 502, true]
+  ]);
+  assertEquals(new ChatError('upstream_error', 'x', { retryable: false }).retryable, false);
+});
+
+Deno.test('unexpected errors become retryable internal errors', () => {
+  const failure = toChatError(new TypeError("Cannot read properties of undefined (reading 'id')"));
+
+  assertEquals(toErrorBody(failure), {
+    error: "Cannot read properties of undefined (reading 'id')",
+    code: 'internal',
+    retryable: true
+  });
+  assertEquals(failure.status, 500);
+});
+
+Deno.test('details are only included when present', () => {
+  const failure = new ChatError('safety_blocked', 'Blocked', { details: { reason: 'SAFETY' } });
+
+  assertEquals(toErrorBody(failure), { error: 'Blocked', code: 'safety_blocked', retryable: false, details: { reason: 'SAFETY' } });
+  assertEquals(toChatError(failure), failure);
+});
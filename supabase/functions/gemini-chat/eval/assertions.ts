@@ -0,0 +1,132 @@
+import { checkCompliance } from '../../_shared/policyCompliance.ts';
+import { detectLanguage } from '../../_shared/languageDetection.ts';
+import type { StructuredQuote } from '../pricing.ts';
+import { listGigPrices, type RelevantGig } from '../gigs.ts';
+
+// Rule-based checks for a generated reply. Policy rules are the same ones the response panel uses.
+
+export interface FixtureExpectations {
+  minWords?: number;
+  maxWords?: number;
+  // Defaults to true: every reply should move the conversation forward
+  nextSteps?: boolean;
+  // Prices the reply may mention on top of the quote, gig packages or catalogue and client message
+  allowedPrices?: number[];
+  mustInclude?: string[];
+  mustNotInclude?: string[];
+  // ISO 639-1 code the reply must be written in, by the app's stopword detection
+  language?: string;
+}
+
+export interface AssertionResult {
+  id: string;
+  passed: boolean;
+  detail: string;
+}
+
+const DEFAULT_MIN_WORDS = 20;
+const DEFAULT_MAX_WORDS = 250;
+
+const NEXT_STEP_PATTERNS = [
+  /next steps?/i,
+  /\blet me know\b/i,
+  /\bonce (?:you|i|we)\b/i,
+  /\b(?:could|can|would) you (?:share|send|confirm|provide|clarify)\b/i,
+  /\bplease (?:share|send|confirm|provide|accept)\b/i,
+  /\bi(?:'ll| will) (?:send|share|start|prepare|deliver|get back)\b/i,
+  /\?/
+];
+
+// "$120", "120 USD", "1,200.50 EUR", "45 dollars"
+const PRICE_PATTERN = /(?:[$€£]\s?(\d[\d,]*(?:\.\d{1,2})?))|(?:\b(\d[\d,]*(?:\.\d{1,2})?)\s?(?:USD|EUR|GBP|dollars?|euros?|pounds?)\b)/gi;
+
+export const extractPrices = (text: string) =>
+  [...text.matchAll(PRICE_PATTERN)].map(match => Number((match[1] || match[2]).replace(/,/g, '')));
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Every amount the reply may legitimately quote for this fixture. Like the prompt, matched gig packages
+// replace the catalogue as the price list whenever they have prices.
+export const collectAllowedPrices = (
+  clientMessage: string,
+  quote: StructuredQuote | null,
+  catalogue: unknown,
+  relevantGigs: RelevantGig[] = [],
+  extra: number[] = []
+) => {
+  const allowed = new Set<number>([...extra, ...extractPrices(clientMessage)]);
+  if (quote) {
+    allowed.add(quote.total);
+    quote.lineItems.forEach(item => allowed.add(item.price));
+  }
+  const gigPrices = listGigPrices(relevantGigs);
+  gigPrices.forEach(price => allowed.add(price));
+  if (gigPrices.length === 0 && catalogue && typeof catalogue === 'object') {
+    const { hourly_rate, packages = [], extras = [] } = catalogue as {
+      hourly_rate?: number;
+      packages?: { price?: number }[];
+      extras?: { price?: number }[];
+    };
+    [hourly_rate, ...packages.map(pkg => pkg.price), ...extras.map(extra => extra.price)]
+      .filter((price): price is number => typeof price === 'number' && price > 0)
+      .forEach(price => allowed.add(price));
+  }
+  return allowed;
+};
+
+export const runAssertions = (reply: string, expect: FixtureExpectations, allowedPrices: Set<number>): AssertionResult[] => {
+  const results: AssertionResult[] = [];
+
+  const violations = checkCompliance(reply);
+  results.push({
+    id: 'policy',
+    passed: violations.length === 0,
+    detail: violations.length === 0 ? 'No policy violations' : violations.map(v => `${v.label}: "${v.match}"`).join('; ')
+  });
+
+  const words = countWords(reply);
+  const minWords = expect.minWords ?? DEFAULT_MIN_WORDS;
+  const maxWords = expect.maxWords ?? DEFAULT_MAX_WORDS;
+  results.push({
+    id: 'length',
+    passed: words >= minWords && words <= maxWords,
+    detail: `${words} words (expected ${minWords}-${maxWords})`
+  });
+
+  if (expect.nextSteps !== false) {
+    const hasNextStep = NEXT_STEP_PATTERNS.some(pattern => pattern.test(reply));
+    results.push({
+      id: 'next_steps',
+      passed: hasNextStep,
+      detail: hasNextStep ? 'Reply ends with a next step or question' : 'No next step, call to action or question found'
+    });
+  }
+
+  const invented = extractPrices(reply).filter(price => !allowedPrices.has(price));
+  results.push({
+    id: 'no_invented_prices',
+    passed: invented.length === 0,
+    detail: invented.length === 0 ? 'All prices come from the quote, catalogue or client' : `Invented prices: ${invented.join(', ')}`
+  });
+
+  if (expect.language) {
+    const detected = detectLanguage(reply);
+    results.push({
+      id: 'language',
+      passed: detected === expect.language,
+      detail: `Detected ${detected} (expected ${expect.language})`
+    });
+  }
+
+  (expect.mustInclude || []).forEach(phrase => {
+    const found = reply.toLowerCase().includes(phrase.toLowerCase());
+    results.push({ id: `includes:${phrase}`, passed: found, detail: found ? 'Found' : 'Missing' });
+  });
+
+  (expect.mustNotInclude || []).forEach(phrase => {
+    const found = reply.toLowerCase().includes(phrase.toLowerCase());
+    results.push({ id: `excludes:${phrase}`, passed: !found, detail: found ? 'Present' : 'Absent' });
+  });
+
+  return results;
+};
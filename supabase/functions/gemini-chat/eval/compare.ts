@@ -0,0 +1,22 @@
+import { compareRuns, formatReport, hasRegressions } from './report.ts';
+import type { EvalRun } from './harness.ts';
+
+// Prints a markdown regression report for two runs written by run.ts and exits with 1 when the
+// head run regressed, so it can gate CI.
+//
+//   deno run --allow-read compare.ts results/base.json results/head.json
+
+const [basePath, headPath] = Deno.args;
+if (!basePath || !headPath) {
+  console.error('Usage: compare.ts <base run.json> <head run.json>');
+  Deno.exit(2);
+}
+
+const readRun = async (path: string): Promise<EvalRun> => JSON.parse(await Deno.readTextFile(path));
+
+const comparison = compareRuns(await readRun(basePath), await readRun(headPath));
+console.log(formatReport(comparison));
+
+if (hasRegressions(comparison)) {
+  Deno.exit(1);
+}
@@ -0,0 +1,126 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { resolveProvider } from '../providers.ts';
+import { collectAllowedPrices, extractPrices, runAssertions } from './assertions.ts';
+import { buildFixturePrompt, loadFixtures, runEval, type EvalRun } from './harness.ts';
+import { compareRuns, formatReport, hasRegressions } from './report.ts';
+
+// deno test --allow-read --allow-env supabase/functions/gemini-chat/
+
+const fixtures = await loadFixtures(new URL('./fixtures.json', import.meta.url));
+const fixture = (id: string) => fixtures.find(item => item.id === id)!;
+
+// The mock ignores the prompt, so this only checks the harness runs every fixture and reports per-fixture
+// results; whether the expectations themselves work is covered by the runAssertions tests below
+Deno.test('the harness runs every fixture with the mock provider and reports the results', async () => {
+  const run = await runEval(fixtures, { provider: resolveProvider('mock'), label: 'test' });
+
+  assertEquals(run.results.map(result => result.id), fixtures.map(item => item.id));
+  run.results.forEach(result => {
+    assert(result.reply.length > 0);
+    assert(result.assertions.length > 0);
+    assertEquals(result.passed, result.assertions.every(assertion => assertion.passed));
+  });
+  assertEquals(run.summary.total, fixtures.length);
+  assertEquals(run.summary.passed + run.summary.failed, fixtures.length);
+  assertEquals(run.summary.judgeAverage, null);
+});
+
+Deno.test('fixture context reaches the prompt', () => {
+  const quotePrompt = buildFixturePrompt(fixture('custom-offer-with-quote'));
+  assert(quotePrompt.includes('TOTAL: 290 USD'));
+
+  const cataloguePrompt = buildFixturePrompt(fixture('pricing-from-catalogue'));
+  assert(cataloguePrompt.includes('GIG PACKAGES'));
+
+  const voicePrompt = buildFixturePrompt(fixture('voice-and-style-rules'));
+  assert(voicePrompt.includes('Cheers, Sam'));
+  assert(voicePrompt.includes('Keep replies short and to the point'));
+  assert(voicePrompt.includes('Can you also make business cards?'));
+
+  assert(buildFixturePrompt(fixture('escalation-cancellation-threat')).includes('Cancellation threat'));
+  assert(buildFixturePrompt(fixture('spanish-client')).includes('Spanish'));
+});
+
+Deno.test('prices outside the quote, catalogue and client message are flagged', () => {
+  assertEquals(extractPrices('Basic is $60, Standard 1,200.50 USD or 45 dollars'), [60, 1200.5, 45]);
+
+  const allowed = collectAllowedPrices('My budget is $100', null, { packages: [{ price: 60 }], extras: [{ price: 25 }] });
+  const reply = 'The Basic package is $60 and source files are $25 extra. I can also do it for $85. Let me know!';
+  const check = runAssertions(reply, { minWords: 1 }, allowed).find(result => result.id === 'no_invented_prices')!;
+
+  assertEquals(check.passed, false);
+  assertEquals(check.detail, 'Invented prices: 85');
+});
+
+Deno.test('matched gig packages replace the catalogue as allowed prices', () => {
+  const gig = {
+    title: 'Logo design',
+    description: '',
+    category: null,
+    currency: 'USD',
+    packages: [{ price: 80 }],
+    faqs: [],
+    requirements: [],
+    relevance_score: 0.9
+  };
+  const allowed = collectAllowedPrices('Hi', null, { packages: [{ price: 60 }] }, [gig]);
+
+  assert(allowed.has(80));
+  assert(!allowed.has(60));
+});
+
+Deno.test('signature, quote total and reply language expectations', () => {
+  const expect = { minWords: 1, mustInclude: ['Cheers, Sam', '290'], language: 'es' };
+  const check = (reply: string) =>
+    Object.fromEntries(runAssertions(reply, expect, new Set([290])).map(result => [result.id, result.passed]));
+
+  const good = check('Hola, la tienda con los 20 productos cuesta $290 y la entrego en 6 días. ¿Te envío la oferta? Cheers, Sam');
+  assertEquals([good['includes:Cheers, Sam'], good['includes:290'], good.language], [true, true, true]);
+
+  const bad = check('Hi there, I can build the store for you. Could you share your timeline? Best regards');
+  assertEquals([bad['includes:Cheers, Sam'], bad['includes:290'], bad.language], [false, false, false]);
+});
+
+Deno.test('policy, next step and phrase assertions', () => {
+  const results = runAssertions('Sure, message me on WhatsApp and I can start.', { minWords: 1, mustNotInclude: ['whatsapp'] }, new Set());
+  const byId = Object.fromEntries(results.map(result => [result.id, result.passed]));
+
+  assertEquals(byId.policy, false);
+  assertEquals(byId.next_steps, false);
+  assertEquals(byId['excludes:whatsapp'], false);
+  assertEquals(byId.length, true);
+});
+
+const makeRun = (label: string, results: [string, boolean, number | null][]): EvalRun => ({
+  label,
+  provider: 'mock',
+  judge: null,
+  template: 'built-in',
+  createdAt: '2026-10-19T00:00:00.000Z',
+  results: results.map(([id, passed, score]) => ({
+    id,
+    messageType: 'question',
+    reply: '',
+    assertions: [{ id: 'length', passed, detail: '' }],
+    passed,
+    judge: score != null ? { score, reasoning: '' } : null
+  })),
+  summary: { total: results.length, passed: results.filter(([, passed]) => passed).length, failed: 0, judgeAverage: null }
+});
+
+Deno.test('compareRuns reports regressions, fixes and judge drops', () => {
+  const base = makeRun('base', [['a', true, 4], ['b', false, null], ['c', true, 5], ['gone', true, null]]);
+  const head = makeRun('head', [['a', false, 4], ['b', true, null], ['c', true, 3], ['new', true, null]]);
+  const comparison = compareRuns(base, head);
+
+  assertEquals(comparison.regressions, [{ id: 'a', failedAssertions: ['length'] }]);
+  assertEquals(comparison.fixes.map(change => change.id), ['b']);
+  assertEquals(comparison.judgeDrops, [{ id: 'c', base: 5, head: 3 }]);
+  assertEquals(comparison.added, ['new']);
+  assertEquals(comparison.removed, ['gone']);
+  assert(hasRegressions(comparison));
+  assert(formatReport(comparison).includes('a: now failing length'));
+
+  assert(!hasRegressions(compareRuns(base, base)));
+  assert(formatReport(compareRuns(base, base)).includes('No regressions.'));
+});
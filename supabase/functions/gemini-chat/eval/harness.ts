@@ -0,0 +1,167 @@
+import type { LLMProvider } from '../providers.ts';
+import { buildGenerationRequest, buildPromptVariables } from '../prompt.ts';
+import { DEFAULT_PROMPT_TEMPLATE, renderPromptTemplate } from '../promptTemplate.ts';
+import { parseStructuredQuote } from '../pricing.ts';
+import { parseVoiceSettings } from '../voice.ts';
+import { parseRiskSignals } from '../deescalation.ts';
+import { parseLanguageCode } from '../language.ts';
+import type { RelevantGig } from '../gigs.ts';
+import { collectAllowedPrices, runAssertions, type AssertionResult, type FixtureExpectations } from './assertions.ts';
+import { judgeReply, type JudgeScore } from './judge.ts';
+
+// Runs fixture client messages through the same prompt building and provider call as gemini-chat,
+// without a database: everything a request would load comes from the fixture.
+
+export interface EvalFixture {
+  id: string;
+  messageType: string;
+  clientMessage: string;
+  // Shapes as stored/sent by the app: quote builder output and profiles.gig_catalogue / voice_settings
+  quote?: unknown;
+  catalogue?: unknown;
+  // find_relevant_gigs rows; their packages take over from the catalogue as the price list
+  gigs?: RelevantGig[];
+  voice?: unknown;
+  styleRules?: string[];
+  refinedExamples?: { clientMessage: string; response: string }[];
+  deescalate?: boolean;
+  riskSignals?: string[];
+  replyLanguage?: string;
+  expect?: FixtureExpectations;
+}
+
+export interface FixtureResult {
+  id: string;
+  messageType: string;
+  reply: string;
+  assertions: AssertionResult[];
+  passed: boolean;
+  judge: JudgeScore | null;
+}
+
+export interface EvalRun {
+  label: string;
+  provider: string;
+  judge: string | null;
+  template: string;
+  createdAt: string;
+  results: FixtureResult[];
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    judgeAverage: number | null;
+  };
+}
+
+export interface EvalOptions {
+  provider: LLMProvider;
+  judge?: LLMProvider | null;
+  // Prompt template body to evaluate; defaults to the built-in prompt
+  template?: { name: string; body: string };
+  label?: string;
+}
+
+export const loadFixtures = async (path: string | URL): Promise<EvalFixture[]> => {
+  const fixtures = JSON.parse(await Deno.readTextFile(path));
+  if (!Array.isArray(fixtures)) {
+    throw new Error('Fixture file must contain an array');
+  }
+  fixtures.forEach((fixture, index) => {
+    if (!fixture?.id || !fixture.clientMessage || !fixture.messageType) {
+      throw new Error(`Fixture ${index} needs id, messageType and clientMessage`);
+    }
+  });
+  return fixtures;
+};
+
+export const buildFixturePrompt = (fixture: EvalFixture, templateBody = DEFAULT_PROMPT_TEMPLATE) =>
+  renderPromptTemplate(templateBody, buildPromptVariables({
+    clientMessage: fixture.clientMessage,
+    messageType: fixture.messageType,
+    profile: { fiverr_username: 'eval_seller', gig_catalogue: fixture.catalogue ?? {} },
+    templateCount: 0,
+    recentMessageTypes: [],
+    client: null,
+    thread: null,
+    threadMessages: [],
+    relevantGigs: fixture.gigs ?? [],
+    gigTitles: (fixture.gigs ?? []).map(gig => gig.title),
+    knowledgePassages: [],
+    strictMode: false,
+    structuredQuote: parseStructuredQuote(fixture.quote),
+    similarRefinedResponses: (fixture.refinedExamples || []).map(example => ({
+      original_client_message: example.clientMessage,
+      refined_response: example.response,
+      language: null,
+      is_pinned: false,
+      similarity_score: 1
+    })),
+    voice: parseVoiceSettings(fixture.voice),
+    styleRules: (fixture.styleRules || []).map(rule => ({ rule })),
+    deescalationMode: fixture.deescalate === true,
+    riskSignals: parseRiskSignals(fixture.riskSignals),
+    attachmentCount: 0,
+    requestedAttachments: 0,
+    responseLanguage: parseLanguageCode(fixture.replyLanguage)
+  }));
+
+const runFixture = async (fixture: EvalFixture, options: EvalOptions): Promise<FixtureResult> => {
+  const expect = fixture.expect || {};
+  let reply = '';
+  let assertions: AssertionResult[];
+
+  try {
+    const prompt = buildFixturePrompt(fixture, options.template?.body);
+    reply = await options.provider.generate(buildGenerationRequest(prompt, [], []));
+    const allowedPrices = collectAllowedPrices(
+      fixture.clientMessage,
+      parseStructuredQuote(fixture.quote),
+      fixture.catalogue,
+      fixture.gigs,
+      expect.allowedPrices
+    );
+    assertions = runAssertions(reply, expect, allowedPrices);
+  } catch (error) {
+    assertions = [{ id: 'generation', passed: false, detail: error instanceof Error ? error.message : String(error) }];
+  }
+
+  const judge = options.judge && reply
+    ? await judgeReply(options.judge, fixture.clientMessage, fixture.messageType, reply)
+    : null;
+
+  return {
+    id: fixture.id,
+    messageType: fixture.messageType,
+    reply,
+    assertions,
+    passed: assertions.every(assertion => assertion.passed),
+    judge
+  };
+};
+
+// Fixtures run one at a time so rate-limited providers aren't flooded
+export const runEval = async (fixtures: EvalFixture[], options: EvalOptions): Promise<EvalRun> => {
+  const results: FixtureResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await runFixture(fixture, options));
+  }
+
+  const scores = results.map(result => result.judge?.score).filter((score): score is number => score != null);
+  const passed = results.filter(result => result.passed).length;
+
+  return {
+    label: options.label || new Date().toISOString(),
+    provider: options.provider.name,
+    judge: options.judge?.name || null,
+    template: options.template?.name || 'built-in',
+    createdAt: new Date().toISOString(),
+    results,
+    summary: {
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      judgeAverage: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null
+    }
+  };
+};
@@ -0,0 +1,49 @@
+import type { LLMProvider } from '../providers.ts';
+
+// Optional LLM judge: scores a reply 1-5 against a fixed rubric. Rule-based assertions stay the
+// source of truth; the score only helps spot softer quality changes between runs.
+
+export interface JudgeScore {
+  score: number;
+  reasoning: string;
+}
+
+const buildJudgePrompt = (clientMessage: string, messageType: string, reply: string) => `You are reviewing a reply a Fiverr seller is about to send to a client.
+
+Score it from 1 (unusable) to 5 (excellent) on: answering what the client asked, clear expectations (scope, timeline, price only if known), a concrete next step, professional and warm tone, and concision.
+
+Return ONLY a JSON object: {"score": <1-5>, "reasoning": "<one or two sentences>"}
+
+MESSAGE TYPE: ${messageType}
+
+CLIENT MESSAGE:
+${clientMessage}
+
+SELLER REPLY:
+${reply}`;
+
+export const judgeReply = async (
+  judge: LLMProvider,
+  clientMessage: string,
+  messageType: string,
+  reply: string
+): Promise<JudgeScore | null> => {
+  try {
+    const raw = await judge.generate({
+      messages: [{ role: 'user', content: buildJudgePrompt(clientMessage, messageType, reply) }],
+      temperature: 0,
+      maxOutputTokens: 300
+    });
+    const json = raw.match(/\{[\s\S]*\}/);
+    if (!json) return null;
+
+    const parsed = JSON.parse(json[0]);
+    const score = Number(parsed.score);
+    if (!Number.isFinite(score) || score < 1 || score > 5) return null;
+
+    return { score, reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning : '' };
+  } catch (error) {
+    console.error('Judge failed:', error);
+    return null;
+  }
+};
@@ -0,0 +1,101 @@
+import type { EvalRun, FixtureResult } from './harness.ts';
+
+// Regression report between two eval runs: which fixtures started or stopped passing, and judge
+// score changes of at least JUDGE_DELTA.
+
+const JUDGE_DELTA = 1;
+
+export interface FixtureChange {
+  id: string;
+  failedAssertions: string[];
+}
+
+export interface JudgeChange {
+  id: string;
+  base: number;
+  head: number;
+}
+
+export interface RunComparison {
+  base: EvalRun;
+  head: EvalRun;
+  regressions: FixtureChange[];
+  fixes: FixtureChange[];
+  judgeDrops: JudgeChange[];
+  judgeGains: JudgeChange[];
+  added: string[];
+  removed: string[];
+}
+
+const failedIds = (result: FixtureResult) =>
+  result.assertions.filter(assertion => !assertion.passed).map(assertion => assertion.id);
+
+export const compareRuns = (base: EvalRun, head: EvalRun): RunComparison => {
+  const baseById = new Map(base.results.map(result => [result.id, result]));
+  const headById = new Map(head.results.map(result => [result.id, result]));
+  const comparison: RunComparison = { base, head, regressions: [], fixes: [], judgeDrops: [], judgeGains: [], added: [], removed: [] };
+
+  head.results.forEach(result => {
+    const before = baseById.get(result.id);
+    if (!before) {
+      comparison.added.push(result.id);
+      return;
+    }
+
+    if (before.passed && !result.passed) {
+      comparison.regressions.push({ id: result.id, failedAssertions: failedIds(result) });
+    } else if (!before.passed && result.passed) {
+      comparison.fixes.push({ id: result.id, failedAssertions: failedIds(before) });
+    }
+
+    if (before.judge && result.judge) {
+      const change = { id: result.id, base: before.judge.score, head: result.judge.score };
+      if (change.base - change.head >= JUDGE_DELTA) comparison.judgeDrops.push(change);
+      if (change.head - change.base >= JUDGE_DELTA) comparison.judgeGains.push(change);
+    }
+  });
+  comparison.removed = base.results.filter(result => !headById.has(result.id)).map(result => result.id);
+
+  return comparison;
+};
+
+export const hasRegressions = (comparison: RunComparison) =>
+  comparison.regressions.length > 0 || comparison.judgeDrops.length > 0;
+
+const passRate = (run: EvalRun) =>
+  run.summary.total > 0 ? `${Math.round((run.summary.passed / run.summary.total) * 100)}%` : '-';
+
+const judgeAverage = (run: EvalRun) => run.summary.judgeAverage != null ? run.summary.judgeAverage.toFixed(2) : '-';
+
+export const formatReport = (comparison: RunComparison) => {
+  const { base, head } = comparison;
+  const lines = [
+    '# Response quality regression report',
+    '',
+    '| | Base | Head |',
+    '|---|---|---|',
+    `| Run | ${base.label} | ${head.label} |`,
+    `| Provider / template | ${base.provider} / ${base.template} | ${head.provider} / ${head.template} |`,
+    `| Passed | ${base.summary.passed}/${base.summary.total} (${passRate(base)}) | ${head.summary.passed}/${head.summary.total} (${passRate(head)}) |`,
+    `| Judge average | ${judgeAverage(base)} | ${judgeAverage(head)} |`,
+    ''
+  ];
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`## ${title}`, '', ...items.map(item => `- ${item}`), '');
+  };
+
+  section('Regressions', comparison.regressions.map(change => `${change.id}: now failing ${change.failedAssertions.join(', ')}`));
+  section('Judge score drops', comparison.judgeDrops.map(change => `${change.id}: ${change.base} -> ${change.head}`));
+  section('Fixed', comparison.fixes.map(change => `${change.id}: was failing ${change.failedAssertions.join(', ')}`));
+  section('Judge score gains', comparison.judgeGains.map(change => `${change.id}: ${change.base} -> ${change.head}`));
+  section('New fixtures', comparison.added);
+  section('Removed fixtures', comparison.removed);
+
+  if (!hasRegressions(comparison)) {
+    lines.push('No regressions.');
+  }
+
+  return lines.join('\n');
+};
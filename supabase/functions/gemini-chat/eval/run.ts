@@ -0,0 +1,46 @@
+import { parse } from "https://deno.land/std@0.168.0/flags/mod.ts";
+import { resolveProvider } from '../providers.ts';
+import { loadFixtures, runEval } from './harness.ts';
+
+// Runs the fixture set through prompt building and generation and writes the run as JSON.
+//
+//   deno run --allow-read --allow-write --allow-env --allow-net run.ts [options]
+//
+//   --provider   provider to generate with (default: mock; real providers read their API keys from env)
+//   --judge      provider to score replies with; omitted = no LLM judge
+//   --fixtures   fixture file (default: fixtures.json next to this script)
+//   --template   file with a prompt template body to evaluate instead of the built-in prompt
+//   --label      name shown in reports (default: timestamp)
+//   --out        output file (default: results/<timestamp>.json)
+//
+// Compare two runs with compare.ts.
+
+const args = parse(Deno.args, {
+  string: ['provider', 'judge', 'fixtures', 'template', 'label', 'out'],
+  default: { provider: 'mock' }
+});
+
+const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+const fixtures = await loadFixtures(args.fixtures || new URL('./fixtures.json', import.meta.url));
+const template = args.template
+  ? { name: args.template, body: await Deno.readTextFile(args.template) }
+  : undefined;
+
+const run = await runEval(fixtures, {
+  provider: resolveProvider(args.provider),
+  judge: args.judge ? resolveProvider(args.judge) : null,
+  template,
+  label: args.label || timestamp
+});
+
+const out = args.out || new URL(`./results/${timestamp}.json`, import.meta.url);
+await Deno.mkdir(new URL('./results/', import.meta.url), { recursive: true });
+await Deno.writeTextFile(out, JSON.stringify(run, null, 2));
+
+run.results.filter(result => !result.passed).forEach(result => {
+  const failed = result.assertions.filter(assertion => !assertion.passed);
+  console.log(`FAIL ${result.id}: ${failed.map(assertion => `${assertion.id} (${assertion.detail})`).join('; ')}`);
+});
+console.log(`${run.summary.passed}/${run.summary.total} fixtures passed` +
+  (run.summary.judgeAverage != null ? `, judge average ${run.summary.judgeAverage.toFixed(2)}` : ''));
+console.log(`Saved ${out}`);
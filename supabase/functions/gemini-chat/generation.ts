@@ -0,0 +1,96 @@
+// Provider calls for a compiled generation request: the user's provider, alternative drafts in
+// different tones, and relaying a token stream to the browser as server-sent events.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
+import { resolveProvider, type LLMProvider, type LLMRequest } from './providers.ts';
+import { toChatError, toErrorBody } from './errors.ts';
+
+export const MAX_VARIANTS = 4;
+
+// Tone instructions used when generating alternative drafts (mirrors the toneStyles list in the app)
+const TONE_GUIDANCE: Record<string, string> = {
+  professional: 'Polished and businesslike, clear and to the point.',
+  warm: 'Friendly and personable, with genuine enthusiasm for the project.',
+  consultative: 'Advisory, asking clarifying questions and recommending the best approach.',
+  collaborative: 'Partnership-focused, inviting the client to shape the plan together.',
+  efficient: 'Direct and brief, leading with the key facts and next action.',
+  premium: 'High-end service feel, emphasising quality, care and added value.',
+};
+
+const DEFAULT_VARIANT_TONES = ['professional', 'warm', 'efficient', 'consultative'];
+
+const VARIANT_TEMPERATURE = 0.9;
+
+export const resolveUserProvider = async (supabase: SupabaseClient, userId: string) => {
+  const { data: profile } = await supabase.from('profiles').select('llm_provider').eq('user_id', userId).maybeSingle();
+  return resolveProvider(profile?.llm_provider);
+};
+
+export const clampVariantCount = (variants: unknown) =>
+  Math.min(Math.max(Math.floor(Number(variants)) || 1, 1), MAX_VARIANTS);
+
+// Own keys only, so names like "__proto__" or "constructor" don't count as tones
+const isKnownTone = (tone: unknown): tone is string =>
+  typeof tone === 'string' && Object.hasOwn(TONE_GUIDANCE, tone);
+
+// Requested tones in order, or the client's preferred tone followed by the defaults, cycled to the draft count.
+// Unknown tones are dropped; when none of the requested ones are known the defaults are used.
+export const resolveDraftTones = (variantCount: number, tones: unknown, preferredTone?: string | null): string[] => {
+  const requested = Array.isArray(tones) ? tones.filter(isKnownTone) : [];
+  const toneChoices = requested.length > 0
+    ? requested
+    : [...new Set([preferredTone, ...DEFAULT_VARIANT_TONES].filter(isKnownTone))];
+  return Array.from({ length: variantCount }, (_, idx) => toneChoices[idx % toneChoices.length]);
+};
+
+// Append a tone instruction to the final user turn so each draft takes a distinct approach
+export const withTone = (request: LLMRequest, tone: string): LLMRequest => {
+  const messages = [...request.messages];
+  const last = messages[messages.length - 1];
+  messages[messages.length - 1] = {
+    ...last,
+    content: `${last.content}\n\nTONE FOR THIS DRAFT: ${tone} - ${isKnownTone(tone) ? TONE_GUIDANCE[tone] : 'Match this tone throughout.'}`
+  };
+  return { ...request, messages };
+};
+
+export const generateDrafts = (provider: LLMProvider, request: LLMRequest, tones: string[]) =>
+  Promise.all(tones.map(async (tone) => ({
+    tone,
+    text: await provider.generate({ ...withTone(request, tone), temperature: VARIANT_TEMPERATURE })
+  })));
+
+// Relay provider text chunks as `{ text }` events, followed by a final `{ done }` event carrying the response metadata.
+// A failure mid-stream ends it with an `{ error, code, retryable }` event, the same shape as error responses.
+export const relayTextStream = (chunks: AsyncIterable<string>, metadata: Record<string, unknown>) => {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  const sendEvent = (controller: ReadableStreamDefaultController<Uint8Array>, payload: Record<string, unknown>) => {
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+
+        if (done) {
+          sendEvent(controller, { done: true, ...metadata });
+          controller.close();
+          return;
+        }
+
+        sendEvent(controller, { text: value });
+      } catch (error) {
+        console.error('Error relaying provider stream:', error);
+        sendEvent(controller, toErrorBody(toChatError(error)));
+        controller.close();
+      }
+    },
+    async cancel() {
+      // The client pressed Stop - stop pulling tokens from the provider as well
+      console.log('Client cancelled streaming response');
+      await iterator.return?.();
+    }
+  });
+};
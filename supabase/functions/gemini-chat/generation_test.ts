@@ -0,0 +1,82 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildMockResponse, resolveProvider, type LLMProvider, type LLMRequest } from './providers.ts';
+import { createMemorySupabase } from './testing/memorySupabase.ts';
+import { clampVariantCount, generateDrafts, relayTextStream, resolveDraftTones, resolveUserProvider, withTone } from './generation.ts';
+
+const request: LLMRequest = {
+  messages: [
+    { role: 'user', content: 'Earlier message' },
+    { role: 'assistant', content: 'Earlier reply' },
+    { role: 'user', content: 'SYSTEM PROMPT' }
+  ],
+  temperature: 0.7,
+  maxOutputTokens: 1000
+};
+
+Deno.test('variant count is clamped to 1-4', () => {
+  assertEquals([0, '3', 10, 'many', 2.7, undefined].map(clampVariantCount), [1, 3, 4, 1, 2, 1]);
+});
+
+Deno.test('draft tones cycle the requested tones or fall back to the client\'s tone and defaults', () => {
+  assertEquals(resolveDraftTones(3, ['warm'], 'premium'), ['warm', 'warm', 'warm']);
+  assertEquals(resolveDraftTones(3, null, 'premium'), ['premium', 'professional', 'warm']);
+  assertEquals(resolveDraftTones(2, [], 'professional'), ['professional', 'warm']);
+  assertEquals(resolveDraftTones(4, null, null), ['professional', 'warm', 'efficient', 'consultative']);
+  assertEquals(resolveDraftTones(2, ['__proto__', 'warm', 'toString'], null), ['warm', 'warm']);
+  assertEquals(resolveDraftTones(2, ['constructor'], 'hasOwnProperty'), ['professional', 'warm']);
+});
+
+Deno.test('withTone only changes the final turn', () => {
+  const toned = withTone(request, 'efficient');
+
+  assertEquals(toned.messages.slice(0, 2), request.messages.slice(0, 2));
+  assertEquals(toned.messages[2].content, 'SYSTEM PROMPT\n\nTONE FOR THIS DRAFT: efficient - Direct and brief, leading with the key facts and next action.');
+  assertEquals(request.messages[2].content, 'SYSTEM PROMPT');
+});
+
+Deno.test('each draft is generated with its own tone at a higher temperature', async () => {
+  const calls: LLMRequest[] = [];
+  const recorder: LLMProvider = {
+    name: 'recorder',
+    async generate(call) {
+      calls.push(call);
+      return `draft ${calls.length}`;
+    },
+    async *stream() {}
+  };
+
+  const drafts = await generateDrafts(recorder, request, ['warm', 'custom']);
+
+  assertEquals(drafts.map(draft => draft.tone), ['warm', 'custom']);
+  assertEquals(calls.map(call => call.temperature), [0.9, 0.9]);
+  assert(calls[0].messages[2].content.endsWith('TONE FOR THIS DRAFT: warm - Friendly and personable, with genuine enthusiasm for the project.'));
+  assert(calls[1].messages[2].content.endsWith('TONE FOR THIS DRAFT: custom - Match this tone throughout.'));
+});
+
+Deno.test('streams are relayed as text events followed by a done event', async () => {
+  const body = await new Response(relayTextStream(resolveProvider('mock').stream(request), { messageType: 'pricing' })).text();
+  const events = body.trim().split('\n\n').map(event => JSON.parse(event.replace(/^data: /, '')));
+  const last = events.pop();
+
+  assertEquals(events.map(event => event.text).join(''), buildMockResponse(request));
+  assertEquals(last, { done: true, messageType: 'pricing' });
+});
+
+Deno.test('stream errors end the relay with an error event', async () => {
+  async function* failing() {
+    yield 'Hello';
+    throw new Error('provider went away');
+  }
+
+  const body = await new Response(relayTextStream(failing(), {})).text();
+
+  assertEquals(body, 'data: {"text":"Hello"}\n\ndata: {"error":"provider went away","code":"internal","retryable":true}\n\n');
+});
+
+Deno.test('the user\'s provider comes from their profile', async () => {
+  const { supabase } = createMemorySupabase({
+    tables: { profiles: [{ user_id: 'user-1', llm_provider: 'mock' }] }
+  });
+
+  assertEquals((await resolveUserProvider(supabase, 'user-1')).name, 'mock');
+});
@@ -0,0 +1,71 @@
+// Prompt section grounding replies in the seller's real gigs (`gigs` table, ranked by find_relevant_gigs).
+
+export interface RelevantGig {
+  title: string;
+  description: string;
+  category: string | null;
+  currency: string;
+  packages: unknown;
+  faqs: unknown;
+  requirements: string[];
+  relevance_score: number;
+}
+
+interface GigPackage {
+  name?: string;
+  description?: string;
+  price?: number;
+  delivery_days?: number;
+  revisions?: number;
+}
+
+interface GigFaq {
+  question?: string;
+  answer?: string;
+}
+
+// Below this the best match is treated as unrelated; the titles are still listed so the model knows the offer
+const MIN_GIG_RELEVANCE = 0.2;
+const MAX_FAQS_PER_GIG = 5;
+
+export const selectMatchedGigs = (relevantGigs: RelevantGig[]) =>
+  relevantGigs.filter(gig => gig.relevance_score >= MIN_GIG_RELEVANCE);
+
+const pricedPackages = (gig: RelevantGig) =>
+  (Array.isArray(gig.packages) ? gig.packages as GigPackage[] : [])
+    .filter(pkg => typeof pkg.price === 'number' && pkg.price > 0);
+
+// Package prices the gig section puts in front of the model. When there are any, they are the prompt's
+// only price list and the profiles.gig_catalogue packages are left out so the two can't disagree.
+export const listGigPrices = (relevantGigs: RelevantGig[]) =>
+  selectMatchedGigs(relevantGigs).flatMap(gig => pricedPackages(gig).map(pkg => pkg.price!));
+
+const describeGig = (gig: RelevantGig) => {
+  const packages = pricedPackages(gig);
+  const faqs = (Array.isArray(gig.faqs) ? gig.faqs as GigFaq[] : [])
+    .filter(faq => faq.question && faq.answer)
+    .slice(0, MAX_FAQS_PER_GIG);
+
+  return `GIG: "${gig.title}"${gig.category ? ` (${gig.category})` : ''}
+${gig.description ? `Description: ${gig.description.substring(0, 600)}` : ''}
+${packages.length > 0 ? `Packages:
+${packages.map(pkg => `  - ${pkg.name}: ${pkg.price} ${gig.currency}, ${pkg.delivery_days ?? '?'} day delivery, ${pkg.revisions ?? 0} revision(s)${pkg.description ? ` - ${pkg.description.substring(0, 200)}` : ''}`).join('\n')}` : ''}
+${gig.requirements.length > 0 ? `Buyer must provide: ${gig.requirements.join('; ')}` : ''}
+${faqs.length > 0 ? `FAQ:
+${faqs.map(faq => `  Q: ${faq.question}\n  A: ${faq.answer!.substring(0, 300)}`).join('\n')}` : ''}`
+    .replace(/\n{2,}/g, '\n');
+};
+
+export const buildGigSection = (relevantGigs: RelevantGig[], allGigTitles: string[]) => {
+  if (allGigTitles.length === 0) return '';
+
+  const matched = selectMatchedGigs(relevantGigs);
+  const otherTitles = allGigTitles.filter(title => !matched.some(gig => gig.title === title));
+
+  return `
+SELLER'S GIGS (the only services this seller offers):
+${matched.length > 0 ? matched.map(describeGig).join('\n\n') : 'No gig closely matches this message.'}
+${otherTitles.length > 0 ? `Other gigs: ${otherTitles.slice(0, 10).map(title => `"${title}"`).join(', ')}` : ''}
+Only mention services, packages, prices, delivery times and revisions listed above. Use the FAQ answers when the client asks one of those questions. If the request isn't covered, say so honestly or offer a custom offer - never invent services or prices.
+`;
+};
@@ -1,5 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
+import { resolveProvider } from './providers.ts';
+import { embedTexts } from '../_shared/embeddings.ts';
+import { loadMessageAttachments, loadScreenshot } from './attachments.ts';
+import { parseStructuredQuote } from './pricing.ts';
+import { selectMatchedGigs } from './gigs.ts';
+import { toKnowledgeSources } from './knowledge.ts';
+import { buildClassificationPrompt, parseClassification } from './classification.ts';
+import { parseRiskSignals } from './deescalation.ts';
+import { buildRewritePrompt, REWRITE_INSTRUCTIONS } from './rewrite.ts';
+import { parseVoiceSettings } from './voice.ts';
+import { buildGenerationRequest, buildPromptVariables, compileSystemPrompt } from './prompt.ts';
+import { buildBackTranslationPrompt, parseLanguageCode } from './language.ts';
+import { findSimilarRefinedResponses, loadGenerationContext } from './context.ts';
+import { clampVariantCount, generateDrafts, relayTextStream, resolveDraftTones, resolveUserProvider } from './generation.ts';
+import { ChatError, toChatError, toErrorBody } from './errors.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,175 +23,339 @@ const corsHeaders = {
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const geminiApiKey = Deno.env.get('GOOGLE_GEMINI_API_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// Rewrite an outgoing draft so it passes the app's Fiverr policy check without changing its intent
+const buildComplianceRewritePrompt = (draft: string, violations: { label: string; match: string }[]) => `Rewrite the Fiverr message below so it complies with Fiverr's Terms of Service.
+
+FLAGGED ISSUES:
+${violations.map(violation => `- ${violation.label}: "${violation.match}"`).join('\n')}
+
+RULES:
+- Remove emails, phone numbers, external messaging apps (Skype, WhatsApp, Telegram...), external links and payment methods; keep all communication and payment on Fiverr
+- Never ask for a specific rating or offer anything in exchange for a review
+- Decline prohibited requests politely and offer a compliant alternative where possible
+- Keep the original meaning, tone, structure and formatting otherwise
+- Return only the rewritten message, no commentary
+
+MESSAGE:
+${draft}`;
+
+// Shown by the app as a clearly marked holding reply, never as a generated draft
+const FALLBACK_REPLY = "Thank you for your message! I understand your requirements and I'm here to help. Let me review the details and get back to you with a comprehensive response shortly.";
+
+const SCREENSHOT_OCR_PROMPT = `The attached files are screenshots of a Fiverr inbox or order page, or documents the client shared.
+Transcribe the most recent message(s) written by the client (not the seller) exactly as shown, preserving line breaks.
+If several screenshots show one conversation, combine them in order without repeating overlapping text.
+Leave out names, timestamps, buttons and other interface text. If there is no client message, return an empty response.
+Return only the transcribed text.`;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      throw new ChatError('bad_input', 'Request body must be a JSON object');
+    }
+
     const { 
       clientMessage, 
       messageType = 'custom_offer',
+      screenshotPath = null,
       screenshotUrl = null,
-      userContext = {}
-    } = await req.json();
+      attachmentIds = [],
+      quote = null,
+      stream = false,
+      variants = 1,
+      tones = null,
+      threadId = null,
+      clientId = null,
+      action = 'generate',
+      draft = '',
+      violations = [],
+      deescalate = false,
+      riskSignals = [],
+      clientLanguage = null,
+      replyLanguage = null,
+      rewrite = null,
+      voiceSettings = null,
+      promptTemplateId = null
+    } = body;
+
+    console.log('Processing request with refined response context');
 
-    console.log('Processing request with Gemini API and refined response context');
+    // screenshotUrl is the legacy name; it may hold an old public URL of a private-bucket object
+    const screenshotRef: string | null = screenshotPath || screenshotUrl;
+    const requestedAttachments = (Array.isArray(attachmentIds) ? attachmentIds.length : 0) + (screenshotRef ? 1 : 0);
+    const structuredQuote = parseStructuredQuote(quote);
+    const deescalationMode = deescalate === true;
+    const detectedLanguage = parseLanguageCode(clientLanguage);
+    const responseLanguage = parseLanguageCode(replyLanguage);
 
     // Get user info from JWT
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
-      throw new Error('No authorization header');
+      throw new ChatError('auth', 'No authorization header');
     }
 
     const token = authHeader.replace('Bearer ', '');
     const { data: { user }, error: userError } = await supabase.auth.getUser(token);
     
     if (userError || !user) {
-      throw new Error('Invalid user token');
+      throw new ChatError('auth', 'Your session has expired. Sign in again.');
+    }
+
+    if (action === 'compliance_rewrite') {
+      // Standalone rewrite of an existing draft; needs none of the retrieval context below
+      if (typeof draft !== 'string' || !draft.trim()) {
+        throw new ChatError('bad_input', 'Draft to rewrite is required');
+      }
+      const validViolations = Array.isArray(violations) && violations.every(violation =>
+        typeof violation?.label === 'string' && typeof violation?.match === 'string'
+      );
+      if (!validViolations) {
+        throw new ChatError('bad_input', 'Violations must be a list of { label, match }');
+      }
+
+      const provider = await resolveUserProvider(supabase, user.id);
+
+      console.log(`Rewriting draft for policy compliance with ${provider.name} provider`);
+
+      const generatedResponse = await provider.generate({
+        messages: [{ role: 'user', content: buildComplianceRewritePrompt(draft, violations) }],
+        temperature: 0.3,
+        maxOutputTokens: 1000
+      });
+
+      return new Response(JSON.stringify({ generatedResponse: generatedResponse.trim(), action }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Attachment rows by id, plus the legacy single screenshot reference
+    const loadAttachments = async () => {
+      const [attachments, screenshot] = await Promise.all([
+        loadMessageAttachments(supabase, user.id, Array.isArray(attachmentIds) ? attachmentIds : []),
+        screenshotRef ? loadScreenshot(supabase, user.id, screenshotRef) : Promise.resolve(null)
+      ]);
+      return screenshot ? [screenshot, ...attachments] : attachments;
+    };
+
+    if (action === 'rewrite_draft') {
+      // Own keys only, so "constructor" or "toString" can't pass as a rewrite
+      if (typeof rewrite !== 'string' || !Object.hasOwn(REWRITE_INSTRUCTIONS, rewrite)) {
+        throw new ChatError('bad_input', `Unknown rewrite: ${rewrite}`);
+      }
+      const instruction = REWRITE_INSTRUCTIONS[rewrite];
+      if (typeof draft !== 'string' || !draft.trim()) {
+        throw new ChatError('bad_input', 'Draft to rewrite is required');
+      }
+
+      const provider = await resolveUserProvider(supabase, user.id);
+      console.log(`Rewriting draft (${rewrite}) with ${provider.name} provider`);
+
+      const generatedResponse = await provider.generate({
+        messages: [{ role: 'user', content: buildRewritePrompt(draft, instruction) }],
+        temperature: rewrite === 'grammar' ? 0 : 0.5,
+        maxOutputTokens: 1500
+      });
+
+      return new Response(JSON.stringify({ generatedResponse: generatedResponse.trim(), action }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (action === 'back_translate') {
+      if (typeof draft !== 'string' || !draft.trim()) {
+        throw new ChatError('bad_input', 'Text to translate is required');
+      }
+
+      const provider = await resolveUserProvider(supabase, user.id);
+      const translation = await provider.generate({
+        messages: [{ role: 'user', content: buildBackTranslationPrompt(draft) }],
+        temperature: 0,
+        maxOutputTokens: 1500
+      });
+
+      return new Response(JSON.stringify({ translation: translation.trim(), action }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (action === 'classify_message') {
+      if (typeof clientMessage !== 'string' || !clientMessage.trim()) {
+        throw new ChatError('bad_input', 'Client message is required');
+      }
+
+      const provider = await resolveUserProvider(supabase, user.id);
+      const raw = await provider.generate({
+        messages: [{ role: 'user', content: buildClassificationPrompt(clientMessage) }],
+        temperature: 0,
+        maxOutputTokens: 300
+      });
+
+      const classification = parseClassification(raw);
+      if (!classification) {
+        throw new ChatError('upstream_error', 'Could not parse message classification');
+      }
+
+      return new Response(JSON.stringify({ classification, action }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (action === 'extract_screenshot_text') {
+      const attachments = await loadAttachments();
+      if (attachments.length === 0) {
+        throw new ChatError('bad_input', 'Attachments could not be loaded');
+      }
+
+      const provider = await resolveUserProvider(supabase, user.id);
+      console.log(`Extracting client message from ${attachments.length} attachment(s) with ${provider.name} provider`);
+
+      const extractedText = await provider.generate({
+        messages: [{ role: 'user', content: SCREENSHOT_OCR_PROMPT, attachments }],
+        temperature: 0,
+        maxOutputTokens: 1000
+      });
+
+      return new Response(JSON.stringify({ extractedText: extractedText.trim(), action }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (typeof clientMessage !== 'string' || !clientMessage.trim()) {
+      throw new ChatError('bad_input', 'Client message is required');
+    }
+
+    // Embed the incoming message so refined responses are matched by meaning rather than shared words
+    const queryEmbedding = await embedTexts([clientMessage]);
+    const retrievalQuery = { userId: user.id, clientMessage, messageType, language: detectedLanguage, queryEmbedding };
+
+    if (action === 'preview_refined_responses') {
+      const { data: matches, error } = await findSimilarRefinedResponses(supabase, retrievalQuery);
+      if (error) {
+        throw new ChatError('internal', `Failed to load refined responses: ${error.message}`);
+      }
+
+      return new Response(JSON.stringify({ matches: matches || [], action }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
     // Get user's templates, conversation history, and refined responses for enhanced AI context
-    const [templatesRes, conversationsRes, profileRes, refinedResponsesRes] = await Promise.all([
-      supabase.from('message_templates').select('*').eq('user_id', user.id).order('usage_count', { ascending: false }),
-      supabase.from('conversations').select('*').eq('user_id', user.id).order('created_at', { ascending: false }).limit(10),
-      supabase.from('profiles').select('*').eq('user_id', user.id).single(),
-      supabase.rpc('find_similar_refined_responses', {
-        user_id_param: user.id,
-        client_message_param: clientMessage,
-        message_type_param: messageType,
-        similarity_limit: 2
-      })
+    const [context, attachments] = await Promise.all([
+      loadGenerationContext(supabase, { ...retrievalQuery, threadId, clientId, promptTemplateId }),
+      loadAttachments()
     ]);
-
-    const templates = templatesRes.data || [];
-    const recentConversations = conversationsRes.data || [];
-    const profile = profileRes.data;
-    const similarRefinedResponses = refinedResponsesRes.data || [];
+    const { templates, profile, client, similarRefinedResponses, threadMessages, relevantGigs, knowledgePassages, strictMode, styleRules } = context;
 
     console.log(`Found ${similarRefinedResponses.length} similar refined responses for context`);
 
-    // Find best matching templates using AI scoring
-    const templateMatches = await Promise.all(
-      templates.slice(0, 5).map(async (template) => {
-        try {
-          const { data: score } = await supabase.rpc('calculate_template_match_score', {
-            template_id: template.id,
-            client_message: clientMessage,
-            message_context: { message_type: messageType, client_type: userContext.client_type }
-          });
-          return { template, score: score || 0 };
-        } catch (error) {
-          return { template, score: 0 };
-        }
-      })
-    );
-
-    const bestMatches = templateMatches
-      .filter(match => match.score > 0.3)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 3);
-
-    // Build enhanced context-aware prompt with refined response examples
-    let systemPrompt = `You are a professional Fiverr assistant helping to craft responses to client messages. 
-
-FIVERR CONTEXT:
-- You're helping a freelancer respond to clients professionally
-- Responses must be policy-compliant and maintain professional tone
-- Focus on clear communication, setting expectations, and building trust
-
-USER CONTEXT:
-- Fiverr Username: ${profile?.fiverr_username || 'Not set'}
-- User has ${templates.length} saved templates
-- Recent conversation patterns: ${recentConversations.slice(0,3).map(c => c.message_type).join(', ')}
-
-MESSAGE TYPE: ${messageType}
-
-REFINED RESPONSE EXAMPLES (Learn from these successful refined responses):
-${similarRefinedResponses.length > 0 ? 
-  similarRefinedResponses.map((resp, idx) => 
-    `Example ${idx + 1} (Similarity: ${(resp.similarity_score * 100).toFixed(0)}%):
-    Client Query: "${resp.original_client_message.substring(0, 100)}..."
-    Refined Response: "${resp.refined_response.substring(0, 300)}..."
-    
-    `
-  ).join('\n') : 
-  'No similar refined responses available - generate based on general guidelines.'}
-
-IMPORTANT: ${similarRefinedResponses.length > 0 ? 
-  'Use the refined response examples above as your primary style and formatting reference. These represent the user\'s preferred communication style for similar situations. Match their tone, structure, and approach.' : 
-  'Generate a response following standard professional guidelines.'}
-
-GUIDELINES:
-1. Be professional but warm and approachable
-2. Address client concerns directly
-3. Set clear expectations for deliverables and timelines
-4. Suggest next steps when appropriate
-5. Keep responses concise but complete
-6. Use a confident, expert tone
-${similarRefinedResponses.length > 0 ? 
-  '7. PRIORITY: Match the style and formatting patterns from the refined response examples above' : 
-  '7. Follow standard professional communication practices'}
-
-${screenshotUrl ? 'NOTE: The client has shared a screenshot - acknowledge this and reference it appropriately in your response.' : ''}
-
-Generate a professional response to this client message: "${clientMessage}"`;
-
-    console.log('Calling Gemini API with enhanced context');
-
-    // Call Google Gemini API
-    const geminiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: systemPrompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          maxOutputTokens: 1000,
-        }
-      })
+    const promptVariables = buildPromptVariables({
+      clientMessage,
+      messageType,
+      profile,
+      templateCount: templates.length,
+      recentMessageTypes: context.recentMessageTypes,
+      client,
+      thread: context.thread,
+      threadMessages,
+      relevantGigs,
+      gigTitles: context.gigTitles,
+      knowledgePassages,
+      strictMode,
+      structuredQuote,
+      similarRefinedResponses,
+      // Unsaved settings from the Voice settings preview take the place of the stored ones
+      voice: parseVoiceSettings(voiceSettings ?? profile?.voice_settings),
+      styleRules,
+      deescalationMode,
+      riskSignals: parseRiskSignals(riskSignals),
+      attachmentCount: attachments.length,
+      requestedAttachments,
+      responseLanguage
     });
 
-    if (!geminiResponse.ok) {
-      console.error('Gemini API error:', await geminiResponse.text());
-      throw new Error('Failed to generate response with Gemini');
+    const { promptTemplate, systemPrompt } = compileSystemPrompt(promptVariables, context.promptTemplates, promptTemplateId, messageType);
+
+    const provider = resolveProvider(profile?.llm_provider);
+    const llmRequest = buildGenerationRequest(systemPrompt, threadMessages, attachments);
+
+    const responseContext = {
+      provider: provider.name,
+      templatesUsed: templates.length,
+      conversationHistory: context.recentMessageTypes.length,
+      threadMessages: threadMessages.length,
+      clientProfile: client?.name || null,
+      screenshotAttached: attachments.length > 0,
+      attachmentsUsed: attachments.length,
+      quoteTotal: structuredQuote?.total ?? null,
+      gigsMatched: selectMatchedGigs(relevantGigs).map(gig => gig.title),
+      knowledgeSources: toKnowledgeSources(knowledgePassages),
+      strictMode,
+      deescalationMode,
+      styleRulesApplied: styleRules.length,
+      voiceApplied: promptVariables.voice !== '',
+      promptTemplate: { id: promptTemplate.id, name: promptTemplate.name, version: promptTemplate.version },
+      replyLanguage: responseLanguage || 'en',
+      similarRefinedResponses: similarRefinedResponses.length,
+      refinedResponseInfluence: similarRefinedResponses.length > 0
+    };
+
+    const variantCount = clampVariantCount(variants);
+
+    if (variantCount > 1) {
+      const draftTones = resolveDraftTones(variantCount, tones, client?.preferred_tone);
+
+      console.log(`Generating ${variantCount} drafts with ${provider.name} provider (${draftTones.join(', ')})`);
+
+      const drafts = await generateDrafts(provider, llmRequest, draftTones);
+
+      return new Response(JSON.stringify({
+        generatedResponse: drafts[0].text,
+        drafts,
+        messageType,
+        context: responseContext
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (stream) {
+      console.log(`Streaming response from ${provider.name} provider with enhanced context`);
+
+      return new Response(relayTextStream(provider.stream(llmRequest), { messageType, context: responseContext }), {
+        headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+      });
     }
 
-    const geminiData = await geminiResponse.json();
-    const generatedResponse = geminiData.candidates[0].content.parts[0].text;
+    console.log(`Calling ${provider.name} provider with enhanced context`);
+
+    const generatedResponse = await provider.generate(llmRequest);
 
     console.log('Generated response successfully with refined context');
 
     return new Response(JSON.stringify({ 
       generatedResponse,
       messageType,
-      context: {
-        templatesUsed: templates.length,
-        conversationHistory: recentConversations.length,
-        similarRefinedResponses: similarRefinedResponses.length,
-        refinedResponseInfluence: similarRefinedResponses.length > 0
-      }
+      context: responseContext
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
     console.error('Error in gemini-chat function:', error);
-    return new Response(JSON.stringify({ 
-      error: error.message,
-      fallback: "Thank you for your message! I understand your requirements and I'm here to help. Let me review the details and get back to you with a comprehensive response shortly."
+    const failure = toChatError(error);
+    return new Response(JSON.stringify({
+      ...toErrorBody(failure),
+      fallback: FALLBACK_REPLY
     }), {
-      status: 500,
+      status: failure.status,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
@@ -0,0 +1,53 @@
+// Prompt section with the seller's knowledge base passages (match_knowledge_chunks), plus the
+// source list returned to the app so the response panel can show what the answer drew on.
+
+export interface KnowledgePassage {
+  id: string;
+  document_id: string;
+  document_title: string;
+  source_type: string;
+  chunk_index: number;
+  content: string;
+  relevance_score: number;
+}
+
+export interface KnowledgeSource {
+  documentId: string;
+  title: string;
+  sourceType: string;
+  chunkIndex: number;
+  score: number;
+}
+
+// Passages below this are noise for the model; in strict mode they would also invite stretching facts
+const MIN_PASSAGE_RELEVANCE = 0.25;
+
+export const selectPassages = (passages: KnowledgePassage[]) =>
+  passages.filter(passage => passage.relevance_score >= MIN_PASSAGE_RELEVANCE);
+
+export const toKnowledgeSources = (passages: KnowledgePassage[]): KnowledgeSource[] =>
+  passages.map(passage => ({
+    documentId: passage.document_id,
+    title: passage.document_title,
+    sourceType: passage.source_type,
+    chunkIndex: passage.chunk_index,
+    score: Number(passage.relevance_score)
+  }));
+
+export const buildKnowledgeSection = (passages: KnowledgePassage[], strictMode: boolean) => {
+  if (passages.length === 0) {
+    return strictMode ? `
+KNOWLEDGE BASE: No passage in the seller's knowledge base covers this message.
+STRICT MODE: Do not state any facts about the seller's process, policies, availability or terms. Acknowledge the question and say you'll confirm the details shortly.
+` : '';
+  }
+
+  return `
+KNOWLEDGE BASE (facts from the seller's own notes, FAQ and documents):
+${passages.map((passage, idx) => `[${idx + 1}] ${passage.document_title}:
+${passage.content.substring(0, 1500)}`).join('\n\n')}
+${strictMode
+  ? 'STRICT MODE: Only state facts about the seller (process, policies, timelines, tools, terms) that appear in the passages above or the gig details. If the client asks about something they do not cover, say you will confirm and get back to them - never guess or invent.'
+  : 'Prefer these facts over general assumptions whenever they answer part of the client\'s message.'}
+`;
+};
@@ -0,0 +1,34 @@
+// Replying in the client's language. Codes are ISO 639-1, as detected by the app (see languages.ts there).
+
+export const parseLanguageCode = (value: unknown): string | null =>
+  typeof value === 'string' && /^[a-z]{2}$/.test(value.toLowerCase()) ? value.toLowerCase() : null;
+
+export const languageName = (code: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+export const buildLanguageSection = (replyLanguage: string | null) => {
+  if (!replyLanguage || replyLanguage === 'en') return '';
+
+  const name = languageName(replyLanguage);
+  return `
+REPLY LANGUAGE: ${name}
+- The client wrote in ${name}. Write the entire reply in natural, fluent ${name} as a native-speaking professional would.
+- The instructions, examples and facts in this prompt are in English: translate their content, don't quote them in English.
+- Keep names, prices, order IDs, gig titles and technical terms the client used unchanged.
+`;
+};
+
+export const buildBackTranslationPrompt = (text: string) => `Translate the Fiverr message below into English so the seller can check what it says.
+
+RULES:
+- Translate faithfully, keeping the meaning, tone and formatting (markdown, line breaks, lists)
+- Do not improve, shorten or comment on the message
+- Return only the English translation
+
+MESSAGE:
+${text}`;
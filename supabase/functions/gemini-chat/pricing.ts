@@ -0,0 +1,89 @@
+// Prompt section for priced replies: the structured quote from the quote builder, or the seller's
+// package catalogue (`profiles.gig_catalogue`) so the model never invents prices or delivery times.
+
+interface QuoteLineItem {
+  label: string;
+  price: number;
+  days: number;
+}
+
+export interface StructuredQuote {
+  currency: string;
+  packageName: string;
+  revisions: number;
+  lineItems: QuoteLineItem[];
+  total: number;
+  deliveryDays: number;
+}
+
+interface CataloguePackage {
+  name?: string;
+  description?: string;
+  price?: number;
+  delivery_days?: number;
+  revisions?: number;
+}
+
+interface CatalogueExtra {
+  name?: string;
+  price?: number;
+  extra_days?: number;
+}
+
+const PRICED_MESSAGE_TYPES = ['custom_offer', 'pricing'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// The quote comes from the browser; only a well-formed one is allowed to steer the numbers
+export const parseStructuredQuote = (raw: unknown): StructuredQuote | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const quote = raw as Record<string, unknown>;
+  const lineItems = Array.isArray(quote.lineItems) ? quote.lineItems : [];
+
+  if (!isNumber(quote.total) || !isNumber(quote.deliveryDays) || lineItems.length === 0) return null;
+
+  return {
+    currency: typeof quote.currency === 'string' ? quote.currency.slice(0, 3) : 'USD',
+    packageName: typeof quote.packageName === 'string' ? quote.packageName.slice(0, 100) : 'Custom',
+    revisions: isNumber(quote.revisions) ? quote.revisions : 0,
+    lineItems: lineItems
+      .filter((item): item is QuoteLineItem => !!item && isNumber(item.price) && typeof item.label === 'string')
+      .map(item => ({ label: item.label.slice(0, 100), price: item.price, days: isNumber(item.days) ? item.days : 0 })),
+    total: quote.total,
+    deliveryDays: quote.deliveryDays
+  };
+};
+
+const money = (amount: number, currency: string) => `${amount.toFixed(2).replace(/\.00$/, '')} ${currency}`;
+
+export const buildPricingSection = (messageType: string, quote: StructuredQuote | null, catalogue: unknown) => {
+  if (quote) {
+    return `
+QUOTE FOR THIS OFFER (use these exact numbers; do not change, round or add prices):
+- Package: ${quote.packageName}
+${quote.lineItems.map(item => `- ${item.label}: ${money(item.price, quote.currency)}${item.days > 0 ? ` (+${item.days} day${item.days !== 1 ? 's' : ''})` : ''}`).join('\n')}
+- TOTAL: ${money(quote.total, quote.currency)}
+- Delivery: ${quote.deliveryDays} day${quote.deliveryDays !== 1 ? 's' : ''}
+- Revisions included: ${quote.revisions}
+State the total price, delivery time and revisions clearly, and mention that a custom offer will be sent through Fiverr.
+`;
+  }
+
+  if (!PRICED_MESSAGE_TYPES.includes(messageType) || !catalogue || typeof catalogue !== 'object') return '';
+
+  const { currency = 'USD', hourly_rate, packages = [], extras = [] } = catalogue as {
+    currency?: string;
+    hourly_rate?: number;
+    packages?: CataloguePackage[];
+    extras?: CatalogueExtra[];
+  };
+  const priced = packages.filter(pkg => isNumber(pkg.price) && pkg.price > 0);
+  if (priced.length === 0 && !(isNumber(hourly_rate) && hourly_rate > 0)) return '';
+
+  return `
+GIG PACKAGES (only quote prices from this list; if the scope doesn't fit, suggest a custom offer instead of inventing numbers):
+${priced.map(pkg => `- ${pkg.name}: ${money(pkg.price!, currency)}, ${pkg.delivery_days ?? '?'} day delivery, ${pkg.revisions ?? 0} revision(s)${pkg.description ? ` - ${pkg.description.substring(0, 200)}` : ''}`).join('\n')}
+${extras.filter(extra => extra.name && isNumber(extra.price)).map(extra => `- Extra "${extra.name}": +${money(extra.price!, currency)}${extra.extra_days ? `, +${extra.extra_days} day(s)` : ''}`).join('\n')}
+${isNumber(hourly_rate) && hourly_rate > 0 ? `- Custom work: ${money(hourly_rate, currency)} per hour` : ''}
+`;
+};
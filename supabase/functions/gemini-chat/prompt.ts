@@ -0,0 +1,197 @@
+import type { LLMAttachment, LLMMessage, LLMRequest } from './providers.ts';
+import { buildPricingSection, type StructuredQuote } from './pricing.ts';
+import { buildGigSection, listGigPrices, type RelevantGig } from './gigs.ts';
+import { buildKnowledgeSection, type KnowledgePassage } from './knowledge.ts';
+import { buildDeescalationSection } from './deescalation.ts';
+import { buildStyleRulesSection } from './styleRules.ts';
+import { buildVoiceSection, type VoiceSettings } from './voice.ts';
+import { buildLanguageSection, languageName } from './language.ts';
+import { renderPromptTemplate, selectPromptTemplate, type PromptTemplate, type PromptVariables } from './promptTemplate.ts';
+import { ChatError } from './errors.ts';
+
+// Builds the sections of the generation prompt from everything loaded for a request. Kept free of
+// database and provider calls so the eval harness (eval/run.ts) compiles exactly the same prompt.
+
+export interface RefinedExample {
+  original_client_message: string;
+  refined_response: string;
+  language: string | null;
+  is_pinned: boolean;
+  similarity_score: number;
+}
+
+export interface ThreadMessage {
+  client_message: string;
+  bot_response: string;
+}
+
+export interface ClientRow {
+  name: string;
+  fiverr_username: string | null;
+  client_type: string | null;
+  country: string | null;
+  timezone: string | null;
+  budget_min: number | null;
+  budget_max: number | null;
+  currency: string | null;
+  past_orders: unknown;
+  preferred_tone: string | null;
+  notes: string | null;
+}
+
+export interface ThreadRow {
+  client_id: string | null;
+  client_name: string;
+  fiverr_order_id: string | null;
+  status: string;
+}
+
+export interface PromptContext {
+  clientMessage: string;
+  messageType: string;
+  // profiles row
+  profile: { fiverr_username?: string | null; gig_catalogue?: unknown } | null;
+  templateCount: number;
+  recentMessageTypes: string[];
+  client: ClientRow | null;
+  thread: ThreadRow | null;
+  threadMessages: ThreadMessage[];
+  relevantGigs: RelevantGig[];
+  gigTitles: string[];
+  knowledgePassages: KnowledgePassage[];
+  strictMode: boolean;
+  structuredQuote: StructuredQuote | null;
+  similarRefinedResponses: RefinedExample[];
+  voice: VoiceSettings;
+  styleRules: { rule: string }[];
+  deescalationMode: boolean;
+  riskSignals: string[];
+  attachmentCount: number;
+  requestedAttachments: number;
+  responseLanguage: string | null;
+}
+
+export const buildPromptVariables = ({
+  clientMessage,
+  messageType,
+  profile,
+  templateCount,
+  recentMessageTypes,
+  client,
+  thread,
+  threadMessages,
+  relevantGigs,
+  gigTitles,
+  knowledgePassages,
+  strictMode,
+  structuredQuote,
+  similarRefinedResponses,
+  voice,
+  styleRules,
+  deescalationMode,
+  riskSignals,
+  attachmentCount,
+  requestedAttachments,
+  responseLanguage
+}: PromptContext): PromptVariables => ({
+  profile: `USER CONTEXT:
+- Fiverr Username: ${profile?.fiverr_username || 'Not set'}
+- User has ${templateCount} saved templates
+- Recent conversation patterns: ${recentMessageTypes.slice(0, 3).join(', ')}`,
+  message_type: messageType,
+  client: client ? `
+CLIENT PROFILE:
+- Name: ${client.name}${client.fiverr_username ? ` (@${client.fiverr_username})` : ''}
+- Client Type: ${client.client_type || 'Unknown'}
+- Location: ${[client.country, client.timezone].filter(Boolean).join(', ') || 'Unknown'}
+- Budget Range: ${client.budget_min != null || client.budget_max != null ? `${client.budget_min ?? '?'}-${client.budget_max ?? '?'} ${client.currency}` : 'Unknown'}
+- Past Orders: ${Array.isArray(client.past_orders) && client.past_orders.length > 0 ?
+  client.past_orders.slice(-5).map((order: { title?: string; order_id?: string; amount?: number | null; status?: string }) =>
+    `${order.title || order.order_id}${order.amount != null ? ` (${order.amount} ${client.currency})` : ''}${order.status ? ` - ${order.status}` : ''}`
+  ).join('; ') :
+  'None - this is a new client'}
+- Preferred Tone: ${client.preferred_tone || 'Not specified'}
+${client.notes ? `- Notes: ${client.notes.substring(0, 500)}` : ''}
+Address the client by name, respect their preferred tone, and keep any pricing within their usual budget unless the scope clearly requires more.
+` : '',
+  thread: thread ? `
+THREAD CONTEXT:
+- Client: ${thread.client_name}
+- Fiverr Order ID: ${thread.fiverr_order_id || 'Not set'}
+- Order Status: ${thread.status}
+- ${threadMessages.length > 0 ?
+  `The earlier turns of this conversation are the ${threadMessages.length} previous client message(s) in this thread and the replies already sent. Stay consistent with everything already promised (prices, dates, deliverables, revisions) and do not repeat introductions.` :
+  'This is the first message in this thread.'}
+` : '',
+  gigs: buildGigSection(relevantGigs, gigTitles),
+  knowledge: buildKnowledgeSection(knowledgePassages, strictMode),
+  pricing: buildPricingSection(
+    messageType,
+    structuredQuote,
+    listGigPrices(relevantGigs).length > 0 ? null : profile?.gig_catalogue
+  ),
+  refined_examples: `REFINED RESPONSE EXAMPLES (Learn from these successful refined responses):
+${similarRefinedResponses.length > 0 ? 
+  similarRefinedResponses.map((resp, idx) => 
+    `Example ${idx + 1} (${resp.is_pinned ? 'Pinned by the seller' : `Similarity: ${(resp.similarity_score * 100).toFixed(0)}%`}${resp.language && resp.language !== 'en' ? `, ${languageName(resp.language)}` : ''}):
+    Client Query: "${resp.original_client_message.substring(0, 100)}..."
+    Refined Response: "${resp.refined_response.substring(0, 300)}..."
+    
+    `
+  ).join('\n') : 
+  'No similar refined responses available - generate based on general guidelines.'}
+
+IMPORTANT: ${similarRefinedResponses.length > 0 ? 
+  'Use the refined response examples above as your primary style and formatting reference. These represent the user\'s preferred communication style for similar situations. Match their tone, structure, and approach.' : 
+  'Generate a response following standard professional guidelines.'}`,
+  voice: buildVoiceSection(voice),
+  style_rules: buildStyleRulesSection(styleRules),
+  deescalation: buildDeescalationSection(deescalationMode, riskSignals),
+  guidelines: `GUIDELINES:
+1. Be professional but warm and approachable
+2. Address client concerns directly
+3. Set clear expectations for deliverables and timelines
+4. Suggest next steps when appropriate
+5. Keep responses concise but complete
+6. Use a confident, expert tone
+${similarRefinedResponses.length > 0 ? 
+  '7. PRIORITY: Match the style and formatting patterns from the refined response examples above' : 
+  '7. Follow standard professional communication practices'}`,
+  attachments: `${attachmentCount > 0
+  ? `NOTE: ${attachmentCount} file(s) the client shared (screenshots or PDF briefs) are attached. Read them and use any relevant details (requirements, references, earlier messages) in your response.`
+  : ''}
+${attachmentCount < requestedAttachments
+  ? 'NOTE: Some files the client shared could not be loaded - do not claim to have seen their contents.'
+  : ''}`,
+  language: buildLanguageSection(responseLanguage),
+  client_message: clientMessage
+});
+
+// A/B runs name the version explicitly; otherwise the most specific active template applies
+export const compileSystemPrompt = (
+  variables: PromptVariables,
+  promptTemplates: PromptTemplate[],
+  promptTemplateId: string | null,
+  messageType: string
+) => {
+  if (promptTemplateId && promptTemplates.length === 0) {
+    throw new ChatError('bad_input', 'Prompt template not found');
+  }
+  const promptTemplate = promptTemplateId ? promptTemplates[0] : selectPromptTemplate(promptTemplates, messageType);
+
+  return { promptTemplate, systemPrompt: renderPromptTemplate(promptTemplate.body, variables) };
+};
+
+// Prior thread messages become multi-turn history so the model sees what was already said
+export const buildGenerationRequest = (systemPrompt: string, threadMessages: ThreadMessage[], attachments: LLMAttachment[]): LLMRequest => {
+  const threadHistory: LLMMessage[] = threadMessages.flatMap((message) => [
+    { role: 'user' as const, content: message.client_message },
+    { role: 'assistant' as const, content: message.bot_response }
+  ]);
+
+  return {
+    messages: [...threadHistory, { role: 'user', content: systemPrompt, attachments: attachments.length > 0 ? attachments : undefined }],
+    temperature: 0.7,
+    maxOutputTokens: 1000,
+  };
+};
@@ -0,0 +1,83 @@
+// Versioned system prompts (prompt_templates). A template is plain text with {{variable}} slots that
+// are filled with the sections gemini-chat builds for each request; PROMPT_VARIABLES lists them.
+
+export const PROMPT_VARIABLES = [
+  'profile',
+  'message_type',
+  'client',
+  'thread',
+  'gigs',
+  'knowledge',
+  'pricing',
+  'refined_examples',
+  'voice',
+  'style_rules',
+  'deescalation',
+  'guidelines',
+  'attachments',
+  'language',
+  'client_message'
+] as const;
+
+export type PromptVariables = Record<typeof PROMPT_VARIABLES[number], string>;
+
+export interface PromptTemplate {
+  id: string | null;
+  user_id?: string | null;
+  message_type?: string | null;
+  name: string;
+  version: number;
+  body: string;
+}
+
+export const PROMPT_TEMPLATE_COLUMNS = 'id, user_id, message_type, name, version, body';
+
+// Same text as the global default seeded into prompt_templates; used if that row is missing
+export const DEFAULT_PROMPT_TEMPLATE = `You are a professional Fiverr assistant helping to craft responses to client messages.
+
+FIVERR CONTEXT:
+- You're helping a freelancer respond to clients professionally
+- Responses must be policy-compliant and maintain professional tone
+- Focus on clear communication, setting expectations, and building trust
+
+{{profile}}
+
+MESSAGE TYPE: {{message_type}}
+{{client}}{{thread}}{{gigs}}{{knowledge}}{{pricing}}
+{{refined_examples}}
+{{voice}}{{style_rules}}{{deescalation}}
+{{guidelines}}
+
+{{attachments}}
+{{language}}
+Generate a professional response to this client message: "{{client_message}}"`;
+
+export const BUILT_IN_PROMPT_TEMPLATE: PromptTemplate = {
+  id: null,
+  name: 'Built-in default',
+  version: 0,
+  body: DEFAULT_PROMPT_TEMPLATE
+};
+
+// Most specific wins: the user's own template for this message type, then the user's template for
+// all types, then the global ones in the same order
+export const selectPromptTemplate = (templates: PromptTemplate[], messageType: string): PromptTemplate => {
+  const rank = (template: PromptTemplate) =>
+    (template.user_id ? 2 : 0) + (template.message_type === messageType ? 1 : 0);
+
+  return templates
+    .filter(template => !template.message_type || template.message_type === messageType)
+    .sort((a, b) => rank(b) - rank(a) || b.version - a.version)[0] || BUILT_IN_PROMPT_TEMPLATE;
+};
+
+// Unknown variables render empty so a typo never reaches the model as literal braces. A template
+// that forgets the client message still gets it, otherwise the model has nothing to reply to.
+export const renderPromptTemplate = (body: string, variables: PromptVariables) => {
+  const rendered = body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name as keyof PromptVariables] : ''
+  );
+
+  return /\{\{\s*client_message\s*\}\}/.test(body)
+    ? rendered
+    : `${rendered}\n\nCLIENT MESSAGE:\n"${variables.client_message}"`;
+};
@@ -0,0 +1,149 @@
+import { assert, assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildGenerationRequest, buildPromptVariables, compileSystemPrompt, type PromptContext, type RefinedExample } from './prompt.ts';
+import { BUILT_IN_PROMPT_TEMPLATE, type PromptTemplate } from './promptTemplate.ts';
+import { parseVoiceSettings } from './voice.ts';
+
+const makeContext = (overrides: Partial<PromptContext> = {}): PromptContext => ({
+  clientMessage: 'Can you redesign my logo?',
+  messageType: 'custom_offer',
+  profile: { fiverr_username: 'seller' },
+  templateCount: 0,
+  recentMessageTypes: [],
+  client: null,
+  thread: null,
+  threadMessages: [],
+  relevantGigs: [],
+  gigTitles: [],
+  knowledgePassages: [],
+  strictMode: false,
+  structuredQuote: null,
+  similarRefinedResponses: [],
+  voice: parseVoiceSettings(null),
+  styleRules: [],
+  deescalationMode: false,
+  riskSignals: [],
+  attachmentCount: 0,
+  requestedAttachments: 0,
+  responseLanguage: null,
+  ...overrides
+});
+
+const example = (overrides: Partial<RefinedExample> = {}): RefinedExample => ({
+  original_client_message: 'Do you offer logo revisions?',
+  refined_response: 'Yes, every package includes revisions.',
+  language: null,
+  is_pinned: false,
+  similarity_score: 0.87,
+  ...overrides
+});
+
+Deno.test('refined examples are cut to 100 characters of query and 300 of response', () => {
+  const query = `${'q'.repeat(100)}QUERY_TAIL`;
+  const response = `${'r'.repeat(300)}RESPONSE_TAIL`;
+  const { refined_examples } = buildPromptVariables(makeContext({
+    similarRefinedResponses: [example({ original_client_message: query, refined_response: response })]
+  }));
+
+  assert(refined_examples.includes(`Client Query: "${'q'.repeat(100)}..."`));
+  assert(refined_examples.includes(`Refined Response: "${'r'.repeat(300)}..."`));
+  assert(!refined_examples.includes('QUERY_TAIL'));
+  assert(!refined_examples.includes('RESPONSE_TAIL'));
+});
+
+Deno.test('refined examples are labelled by similarity, pin and language', () => {
+  const { refined_examples, guidelines } = buildPromptVariables(makeContext({
+    similarRefinedResponses: [example(), example({ is_pinned: true, language: 'es' })]
+  }));
+
+  assert(refined_examples.includes('Example 1 (Similarity: 87%)'));
+  assert(refined_examples.includes('Example 2 (Pinned by the seller, Spanish)'));
+  assert(guidelines.includes('PRIORITY: Match the style'));
+});
+
+Deno.test('without refined examples the prompt falls back to general guidelines', () => {
+  const { refined_examples, guidelines } = buildPromptVariables(makeContext());
+
+  assert(refined_examples.includes('No similar refined responses available'));
+  assert(guidelines.includes('Follow standard professional communication practices'));
+});
+
+Deno.test('missing attachments are called out', () => {
+  const { attachments } = buildPromptVariables(makeContext({ attachmentCount: 1, requestedAttachments: 2 }));
+
+  assert(attachments.includes('1 file(s) the client shared'));
+  assert(attachments.includes('could not be loaded'));
+});
+
+Deno.test('unknown voice options fall back to no rule', () => {
+  const voice = parseVoiceSettings({ emoji_policy: 'constructor', format: 'toString', formality: 3 });
+  assertEquals([voice.emojiPolicy, voice.format], ['any', 'any']);
+  assertEquals(buildPromptVariables(makeContext({ voice })).voice, '');
+  assertEquals(parseVoiceSettings({ emoji_policy: 'none', format: 'plain' }).emojiPolicy, 'none');
+});
+
+Deno.test('matched gig packages replace the catalogue as the price list', () => {
+  const catalogue = { currency: 'USD', packages: [{ name: 'Basic', price: 50, delivery_days: 3 }] };
+  const gig = {
+    title: 'Logo design',
+    description: 'Minimal logos',
+    category: null,
+    currency: 'USD',
+    packages: [{ name: 'Starter', price: 80, delivery_days: 2 }],
+    faqs: [],
+    requirements: [],
+    relevance_score: 0.9
+  };
+
+  const withGig = buildPromptVariables(makeContext({ profile: { gig_catalogue: catalogue }, relevantGigs: [gig], gigTitles: [gig.title] }));
+  assertEquals(withGig.pricing, '');
+  assert(withGig.gigs.includes('Starter: 80 USD'));
+
+  const unmatched = buildPromptVariables(makeContext({
+    profile: { gig_catalogue: catalogue },
+    relevantGigs: [{ ...gig, relevance_score: 0.1 }],
+    gigTitles: [gig.title]
+  }));
+  assert(unmatched.pricing.includes('Basic: 50 USD'));
+  assert(!unmatched.gigs.includes('Starter'));
+});
+
+const template = (overrides: Partial<PromptTemplate>): PromptTemplate => ({
+  id: 'global',
+  user_id: null,
+  message_type: null,
+  name: 'Default',
+  version: 1,
+  body: 'GLOBAL {{message_type}}: {{client_message}}',
+  ...overrides
+});
+
+Deno.test('compileSystemPrompt renders the most specific active template', () => {
+  const variables = buildPromptVariables(makeContext());
+  const { promptTemplate, systemPrompt } = compileSystemPrompt(variables, [
+    template({}),
+    template({ id: 'mine', user_id: 'user-1', message_type: 'custom_offer', body: 'MINE {{message_type}}: {{client_message}}' })
+  ], null, 'custom_offer');
+
+  assertEquals(promptTemplate.id, 'mine');
+  assertEquals(systemPrompt, 'MINE custom_offer: Can you redesign my logo?');
+});
+
+Deno.test('compileSystemPrompt uses an explicit version and rejects unknown ones', () => {
+  const variables = buildPromptVariables(makeContext());
+
+  assertEquals(compileSystemPrompt(variables, [template({ id: 'v2' })], 'v2', 'pricing').promptTemplate.id, 'v2');
+  assertEquals(compileSystemPrompt(variables, [], null, 'pricing').promptTemplate, BUILT_IN_PROMPT_TEMPLATE);
+  assertThrows(() => compileSystemPrompt(variables, [], 'missing', 'pricing'), Error, 'Prompt template not found');
+});
+
+Deno.test('thread messages become alternating history before the prompt', () => {
+  const request = buildGenerationRequest('SYSTEM', [
+    { client_message: 'Hi', bot_response: 'Hello!' },
+    { client_message: 'Price?', bot_response: '50 USD' }
+  ], []);
+
+  assertEquals(request.messages.map(message => [message.role, message.content]), [
+    ['user', 'Hi'], ['assistant', 'Hello!'], ['user', 'Price?'], ['assistant', '50 USD'], ['user', 'SYSTEM']
+  ]);
+  assertEquals(request.messages[4].attachments, undefined);
+});
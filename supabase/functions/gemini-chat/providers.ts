@@ -0,0 +1,475 @@
+// LLM provider layer for gemini-chat.
+//
+// The prompt assembly in index.ts only talks to the `LLMProvider` interface, so vendors can be
+// swapped without touching it. The provider is picked per request: the user's profile setting
+// (`profiles.llm_provider`) wins, then the `LLM_PROVIDER` env var, then Gemini.
+//
+// Environment variables:
+// - gemini:    GOOGLE_GEMINI_API_KEY, GEMINI_MODEL (default gemini-1.5-flash)
+// - openai:    OPENAI_API_KEY, OPENAI_BASE_URL (default https://api.openai.com/v1), OPENAI_MODEL (default gpt-4o-mini)
+// - anthropic: ANTHROPIC_API_KEY, ANTHROPIC_MODEL (default claude-3-5-haiku-latest)
+// - ollama:    OLLAMA_BASE_URL (default http://localhost:11434), OLLAMA_MODEL (default llama3.1)
+// - mock:      no configuration, fully offline and deterministic
+// - all:       LLM_TIMEOUT_MS (default 60000) to wait for a provider to start answering
+//
+// Rate limits, 5xx responses, timeouts and network errors are retried with exponential backoff;
+// failures surface as a ChatError (errors.ts) so the app can tell quota, timeouts and safety blocks apart.
+//
+// Attachments (images and PDFs) are passed inline (base64) on a message; pick a vision-capable
+// model when sending them. Ollama only understands images, so PDFs are dropped for it.
+
+import { ChatError } from './errors.ts';
+
+export interface LLMAttachment {
+  mimeType: string;
+  data: string;
+  fileName?: string;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  attachments?: LLMAttachment[];
+}
+
+const isImage = (attachment: LLMAttachment) => attachment.mimeType.startsWith('image/');
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  generate(request: LLMRequest): Promise<string>;
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+export const PROVIDER_NAMES = ['gemini', 'openai', 'anthropic', 'ollama', 'mock'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+const env = (key: string, fallback = '') => Deno.env.get(key) || fallback;
+
+// Yields the payload of every `data:` line of a server-sent event stream
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trim();
+    }
+  }
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+    }
+
+    if (buffer.trim()) yield buffer;
+  } finally {
+    // Runs when the consumer stops early too, so the upstream connection gets closed
+    reader.cancel().catch(() => {});
+  }
+}
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// Rate limiting and overloaded models usually clear up within seconds; other statuses won't change on retry
+const TRANSIENT_STATUSES = [429, 500, 502, 503, 504];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Honours Retry-After (seconds) when the provider sends it, otherwise doubles with jitter
+export const backoffDelay = (attempt: number, retryAfter: string | null) => {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  }
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS) * (0.5 + Math.random() / 2);
+};
+
+// Providers wrap the reason as { error: { message } } or { error: "..." }
+const upstreamMessage = (body: string) => {
+  try {
+    const parsed = JSON.parse(body);
+    const message = typeof parsed.error === 'string' ? parsed.error : parsed.error?.message;
+    if (typeof message === 'string' && message) return message.substring(0, 300);
+  } catch {
+    // Not JSON - fall through to the raw text
+  }
+  return body.trim().substring(0, 300);
+};
+
+const toUpstreamError = (providerName: string, status: number, body: string) => {
+  const reason = upstreamMessage(body);
+
+  if (status === 429) {
+    return new ChatError('quota', `${providerName} rate limit or quota reached. Wait a minute and try again.`, { details: { status, reason } });
+  }
+  if (status === 401 || status === 403) {
+    return new ChatError('upstream_error', `${providerName} rejected the configured API key.`, { retryable: false, details: { status, reason } });
+  }
+  if (status === 408 || status === 504) {
+    return new ChatError('upstream_timeout', `${providerName} took too long to respond.`, { details: { status, reason } });
+  }
+  if (status >= 400 && status < 500) {
+    return new ChatError('bad_input', `${providerName} rejected the request${reason ? `: ${reason}` : ''}`, { details: { status, reason } });
+  }
+  return new ChatError('upstream_error', `Failed to generate response with ${providerName} (HTTP ${status})`, { details: { status, reason } });
+};
+
+const fetchWithTimeout = async (url: string, init: RequestInit) => {
+  const controller = new AbortController();
+  // Only waits for the response headers; a streamed body may legitimately take longer
+  const timer = setTimeout(() => controller.abort(), Number(env('LLM_TIMEOUT_MS', '60000')));
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const postJson = async (providerName: string, url: string, headers: Record<string, string>, body: unknown) => {
+  let lastError: ChatError | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await fetchWithTimeout(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (response.ok && response.body) {
+        return response;
+      }
+
+      const text = await response.text();
+      console.error(`${providerName} API error (attempt ${attempt + 1}, HTTP ${response.status}):`, text);
+      lastError = toUpstreamError(providerName, response.status, text);
+      if (!TRANSIENT_STATUSES.includes(response.status)) throw lastError;
+      retryAfter = response.headers.get('Retry-After');
+    } catch (error) {
+      if (error instanceof ChatError) throw error;
+
+      console.error(`${providerName} request failed (attempt ${attempt + 1}):`, error);
+      lastError = error instanceof DOMException && error.name === 'AbortError'
+        ? new ChatError('upstream_timeout', `${providerName} took too long to respond.`)
+        : new ChatError('upstream_error', `Could not reach ${providerName}.`);
+    }
+
+    if (attempt < MAX_ATTEMPTS - 1) {
+      await sleep(backoffDelay(attempt, retryAfter));
+    }
+  }
+
+  throw lastError!;
+};
+
+interface GeminiSafetyRating {
+  category?: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+export interface GeminiResponse {
+  candidates?: {
+    content?: { parts?: { text?: string }[] };
+    finishReason?: string;
+    safetyRatings?: GeminiSafetyRating[];
+  }[];
+  promptFeedback?: { blockReason?: string; safetyRatings?: GeminiSafetyRating[] };
+}
+
+// Finish reasons where Gemini withheld the reply rather than finishing it
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+// HARM_CATEGORY_DANGEROUS_CONTENT -> "dangerous content"
+const flaggedCategories = (ratings: GeminiSafetyRating[] = []) => ratings
+  .filter(rating => rating.blocked || rating.probability === 'HIGH' || rating.probability === 'MEDIUM')
+  .map(rating => (rating.category || '').replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' '))
+  .filter(Boolean);
+
+// Gemini answers a blocked prompt with no candidates and a promptFeedback.blockReason, and a
+// blocked reply with a candidate that has a blocking finishReason and no text
+export const explainGeminiBlock = (data: GeminiResponse): ChatError | null => {
+  const blockReason = data.promptFeedback?.blockReason;
+  if (blockReason) {
+    const categories = flaggedCategories(data.promptFeedback?.safetyRatings);
+    return new ChatError('safety_blocked',
+      `Gemini's safety filters blocked this request${categories.length > 0 ? ` (${categories.join(', ')})` : ''}. ` +
+      'Rephrase or remove the flagged part of the client message or attachments and try again, or switch to another model provider in settings.',
+      { details: { stage: 'prompt', reason: blockReason, categories } });
+  }
+
+  const candidate = data.candidates?.[0];
+  if (candidate?.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+    const categories = flaggedCategories(candidate.safetyRatings);
+    const explanation = candidate.finishReason === 'RECITATION'
+      ? 'Gemini stopped the reply because it closely matched existing published text.'
+      : `Gemini's safety filters stopped the reply${categories.length > 0 ? ` (${categories.join(', ')})` : ''}.`;
+    return new ChatError('safety_blocked', `${explanation} Try again, or rephrase the client message if it keeps happening.`,
+      { details: { stage: 'response', reason: candidate.finishReason, categories } });
+  }
+
+  return null;
+};
+
+const geminiProvider = (): LLMProvider => {
+  const apiKey = env('GOOGLE_GEMINI_API_KEY');
+  const model = env('GEMINI_MODEL', 'gemini-1.5-flash');
+  const baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}`;
+
+  const toBody = (request: LLMRequest) => ({
+    contents: request.messages.map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [
+        ...(message.attachments || []).map(file => ({ inline_data: { mime_type: file.mimeType, data: file.data } })),
+        { text: message.content }
+      ]
+    })),
+    generationConfig: {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+    }
+  });
+
+  const extractText = (data: GeminiResponse): string =>
+    data.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+
+  return {
+    name: 'gemini',
+    async generate(request) {
+      const response = await postJson('Gemini', `${baseUrl}:generateContent?key=${apiKey}`, {}, toBody(request));
+      const data: GeminiResponse = await response.json();
+      const text = extractText(data);
+      if (!text) {
+        throw explainGeminiBlock(data) || new ChatError('upstream_error', 'Gemini returned an empty response.');
+      }
+      return text;
+    },
+    async *stream(request) {
+      const response = await postJson('Gemini', `${baseUrl}:streamGenerateContent?alt=sse&key=${apiKey}`, {}, toBody(request));
+      for await (const data of readSseData(response.body!)) {
+        const chunk: GeminiResponse = JSON.parse(data);
+        const text = extractText(chunk);
+        if (text) yield text;
+
+        const blocked = explainGeminiBlock(chunk);
+        if (blocked) throw blocked;
+      }
+    }
+  };
+};
+
+const openAiProvider = (): LLMProvider => {
+  const apiKey = env('OPENAI_API_KEY');
+  const baseUrl = env('OPENAI_BASE_URL', 'https://api.openai.com/v1').replace(/\/$/, '');
+  const model = env('OPENAI_MODEL', 'gpt-4o-mini');
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const toPart = (file: LLMAttachment) => {
+    const dataUrl = `data:${file.mimeType};base64,${file.data}`;
+    return isImage(file)
+      ? { type: 'image_url', image_url: { url: dataUrl } }
+      : { type: 'file', file: { filename: file.fileName || 'attachment.pdf', file_data: dataUrl } };
+  };
+
+  const toMessage = (message: LLMMessage) => message.attachments?.length
+    ? {
+        role: message.role,
+        content: [
+          ...message.attachments.map(toPart),
+          { type: 'text', text: message.content }
+        ]
+      }
+    : { role: message.role, content: message.content };
+
+  const toBody = (request: LLMRequest, stream: boolean) => ({
+    model,
+    messages: request.messages.map(toMessage),
+    temperature: request.temperature,
+    max_tokens: request.maxOutputTokens,
+    stream
+  });
+
+  return {
+    name: 'openai',
+    async generate(request) {
+      const response = await postJson('OpenAI', `${baseUrl}/chat/completions`, headers, toBody(request, false));
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+    async *stream(request) {
+      const response = await postJson('OpenAI', `${baseUrl}/chat/completions`, headers, toBody(request, true));
+      for await (const data of readSseData(response.body!)) {
+        if (data === '[DONE]') break;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  };
+};
+
+const anthropicProvider = (): LLMProvider => {
+  const apiKey = env('ANTHROPIC_API_KEY');
+  const model = env('ANTHROPIC_MODEL', 'claude-3-5-haiku-latest');
+  const headers = { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' };
+
+  const toMessage = (message: LLMMessage) => message.attachments?.length
+    ? {
+        role: message.role,
+        content: [
+          ...message.attachments.map(file => ({
+            type: isImage(file) ? 'image' : 'document',
+            source: { type: 'base64', media_type: file.mimeType, data: file.data }
+          })),
+          { type: 'text', text: message.content }
+        ]
+      }
+    : { role: message.role, content: message.content };
+
+  const toBody = (request: LLMRequest, stream: boolean) => ({
+    model,
+    messages: request.messages.map(toMessage),
+    temperature: request.temperature,
+    max_tokens: request.maxOutputTokens,
+    stream
+  });
+
+  return {
+    name: 'anthropic',
+    async generate(request) {
+      const response = await postJson('Anthropic', 'https://api.anthropic.com/v1/messages', headers, toBody(request, false));
+      const data = await response.json();
+      return data.content?.map((block: { text?: string }) => block.text ?? '').join('') ?? '';
+    },
+    async *stream(request) {
+      const response = await postJson('Anthropic', 'https://api.anthropic.com/v1/messages', headers, toBody(request, true));
+      for await (const data of readSseData(response.body!)) {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.text) {
+          yield event.delta.text;
+        }
+      }
+    }
+  };
+};
+
+const ollamaProvider = (): LLMProvider => {
+  const baseUrl = env('OLLAMA_BASE_URL', 'http://localhost:11434').replace(/\/$/, '');
+  const model = env('OLLAMA_MODEL', 'llama3.1');
+
+  const toBody = (request: LLMRequest, stream: boolean) => ({
+    model,
+    // Ollama takes raw base64 images alongside the message text and has no document support
+    messages: request.messages.map(message => {
+      const images = (message.attachments || []).filter(isImage);
+      return {
+        role: message.role,
+        content: message.content,
+        ...(images.length ? { images: images.map(image => image.data) } : {})
+      };
+    }),
+    stream,
+    options: {
+      temperature: request.temperature,
+      num_predict: request.maxOutputTokens,
+    }
+  });
+
+  return {
+    name: 'ollama',
+    async generate(request) {
+      const response = await postJson('Ollama', `${baseUrl}/api/chat`, {}, toBody(request, false));
+      const data = await response.json();
+      return data.message?.content ?? '';
+    },
+    async *stream(request) {
+      // Ollama streams newline-delimited JSON rather than SSE
+      const response = await postJson('Ollama', `${baseUrl}/api/chat`, {}, toBody(request, true));
+      for await (const line of readLines(response.body!)) {
+        const chunk = JSON.parse(line);
+        if (chunk.message?.content) yield chunk.message.content;
+        if (chunk.done) break;
+      }
+    }
+  };
+};
+
+// Small stable hash so the mock output changes with the prompt but never between runs
+const fingerprint = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+export const buildMockResponse = (request: LLMRequest) => {
+  const prompt = request.messages.map(message => message.content).join('\n');
+
+  return `Hi there,
+
+Thank you for reaching out! I've reviewed your message carefully and I'd be glad to help with this.
+
+To make sure I deliver exactly what you need, could you share any reference material and your preferred timeline?
+
+**Next steps:** once I have those details, I'll confirm the scope and send over a plan.
+
+Best regards
+
+_(mock provider · ${fingerprint(prompt)})_`;
+};
+
+const mockProvider = (): LLMProvider => ({
+  name: 'mock',
+  async generate(request) {
+    return buildMockResponse(request);
+  },
+  async *stream(request) {
+    for (const token of buildMockResponse(request).split(/(?<=\s)/)) {
+      yield token;
+    }
+  }
+});
+
+const providerFactories: Record<ProviderName, () => LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  anthropic: anthropicProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+};
+
+const isProviderName = (name: unknown): name is ProviderName =>
+  typeof name === 'string' && (PROVIDER_NAMES as readonly string[]).includes(name);
+
+export const resolveProvider = (profilePreference?: string | null): LLMProvider => {
+  const envPreference = env('LLM_PROVIDER', 'gemini');
+  const name = isProviderName(profilePreference)
+    ? profilePreference
+    : isProviderName(envPreference) ? envPreference : 'gemini';
+
+  return providerFactories[name]();
+};
@@ -0,0 +1,132 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { backoffDelay, explainGeminiBlock, postJson, resolveProvider } from './providers.ts';
+import { ChatError } from './errors.ts';
+
+// Replaces fetch with canned responses (the last one repeats); a responder may throw to simulate a network error
+const stubFetch = (responders: (() => Response)[]) => {
+  const original = globalThis.fetch;
+  let calls = 0;
+  globalThis.fetch = (async () => responders[Math.min(calls++, responders.length - 1)]()) as typeof fetch;
+  return { calls: () => calls, restore: () => { globalThis.fetch = original; } };
+};
+
+// Retry-After: 0 keeps the backoff out of the test run time
+const status = (code: number, body = '{}') => () => new Response(body, { status: code, headers: { 'Retry-After': '0' } });
+const ok = (body: unknown) => () => new Response(JSON.stringify(body), { status: 200 });
+
+const request = { messages: [{ role: 'user' as const, content: 'Hi' }], temperature: 0.7, maxOutputTokens: 100 };
+
+Deno.test('transient provider errors are retried', async () => {
+  const fetchStub = stubFetch([status(503), status(500), ok({ fine: true })]);
+  try {
+    const response = await postJson('Gemini', 'https://example.test', {}, {});
+    assertEquals(await response.json(), { fine: true });
+    assertEquals(fetchStub.calls(), 3);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('a rate limit that does not clear becomes a quota error after three attempts', async () => {
+  const fetchStub = stubFetch([status(429, '{"error":{"message":"Resource has been exhausted"}}')]);
+  try {
+    const failure = await postJson('Gemini', 'https://example.test', {}, {}).catch(error => error);
+    assert(failure instanceof ChatError);
+    assertEquals([failure.code, failure.status, failure.retryable], ['quota', 429, true]);
+    assertEquals(failure.details?.reason, 'Resource has been exhausted');
+    assertEquals(fetchStub.calls(), 3);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('client errors are not retried', async () => {
+  const fetchStub = stubFetch([status(400, '{"error":{"message":"Request payload size exceeds the limit"}}')]);
+  try {
+    const failure = await postJson('Gemini', 'https://example.test', {}, {}).catch(error => error);
+    assertEquals(failure.code, 'bad_input');
+    assertEquals(failure.message, 'Gemini rejected the request: Request payload size exceeds the limit');
+    assertEquals(fetchStub.calls(), 1);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('a rejected API key is a non-retryable upstream error', async () => {
+  const fetchStub = stubFetch([status(403)]);
+  try {
+    const failure = await postJson('OpenAI', 'https://example.test', {}, {}).catch(error => error);
+    assertEquals([failure.code, failure.retryable], ['upstream_error', false]);
+    assertEquals(fetchStub.calls(), 1);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('network errors are retried', async () => {
+  const fetchStub = stubFetch([() => { throw new TypeError('connection reset'); }, ok({})]);
+  try {
+    await postJson('Ollama', 'https://example.test', {}, {});
+    assertEquals(fetchStub.calls(), 2);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('backoff honours Retry-After and is capped', () => {
+  assertEquals(backoffDelay(0, '2'), 2000);
+  assertEquals(backoffDelay(0, '120'), 8000);
+  const delay = backoffDelay(1, null);
+  assert(delay >= 500 && delay <= 1000);
+  assert(backoffDelay(10, null) <= 8000);
+});
+
+Deno.test('a blocked Gemini prompt is explained with the flagged categories', () => {
+  const blocked = explainGeminiBlock({
+    promptFeedback: {
+      blockReason: 'SAFETY',
+      safetyRatings: [
+        { category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH' },
+        { category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'NEGLIGIBLE' }
+      ]
+    }
+  });
+
+  assertEquals(blocked?.code, 'safety_blocked');
+  assertEquals(blocked?.retryable, false);
+  assert(blocked?.message.startsWith("Gemini's safety filters blocked this request (harassment)."));
+  assertEquals(blocked?.details, { stage: 'prompt', reason: 'SAFETY', categories: ['harassment'] });
+});
+
+Deno.test('a blocked Gemini reply is explained by its finish reason', () => {
+  const safety = explainGeminiBlock({
+    candidates: [{ finishReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'MEDIUM', blocked: true }] }]
+  });
+  assert(safety?.message.startsWith("Gemini's safety filters stopped the reply (dangerous content)."));
+
+  const recitation = explainGeminiBlock({ candidates: [{ finishReason: 'RECITATION' }] });
+  assert(recitation?.message.startsWith('Gemini stopped the reply because it closely matched existing published text.'));
+
+  assertEquals(explainGeminiBlock({ candidates: [{ finishReason: 'STOP', content: { parts: [{ text: 'Hi' }] } }] }), null);
+});
+
+Deno.test('Gemini with no candidates rejects with the safety explanation instead of an empty reply', async () => {
+  const fetchStub = stubFetch([ok({ promptFeedback: { blockReason: 'OTHER' } })]);
+  try {
+    const failure = await resolveProvider('gemini').generate(request).catch(error => error);
+    assertEquals(failure.code, 'safety_blocked');
+    assertEquals(failure.details.reason, 'OTHER');
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('Gemini with an empty, unblocked answer is a retryable upstream error', async () => {
+  const fetchStub = stubFetch([ok({ candidates: [{ finishReason: 'STOP', content: { parts: [] } }] })]);
+  try {
+    const failure = await resolveProvider('gemini').generate(request).catch(error => error);
+    assertEquals([failure.code, failure.retryable], ['upstream_error', true]);
+  } finally {
+    fetchStub.restore();
+  }
+});
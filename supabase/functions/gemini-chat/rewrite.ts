@@ -0,0 +1,25 @@
+// Targeted transformations of an existing draft (action "rewrite_draft"), triggered from the
+// app's RewriteToolbar. Keys mirror the toolbar's action list.
+
+export const REWRITE_INSTRUCTIONS: Record<string, string> = {
+  shorter: 'Make it noticeably shorter (about half the length). Keep every commitment, price, date and question; drop pleasantries and repetition.',
+  detailed: 'Make it more detailed: explain the approach, what is included and what happens next. Do not invent prices, dates or services that are not already in the message.',
+  warmer: 'Make the tone warmer and more personal, with genuine enthusiasm, while staying professional.',
+  formal: 'Make the tone more formal and businesslike. Remove slang, emojis and exclamation marks.',
+  bullets: 'Restructure the key points (scope, deliverables, timeline, questions) as a short markdown bullet list, keeping a one-line opening and closing.',
+  next_steps: 'Add a clear "Next steps" section at the end telling the client exactly what to do or send next and what the seller will do after that.',
+  grammar: 'Only fix grammar, spelling and punctuation. Do not change the wording, tone or structure otherwise.'
+};
+
+export const buildRewritePrompt = (draft: string, instruction: string) => `Rewrite the Fiverr message below.
+
+INSTRUCTION: ${instruction}
+
+RULES:
+- Keep the message in the language it is written in
+- Keep names, prices, order details and any {{placeholders}} exactly as they are
+- Keep the message compliant with Fiverr's Terms of Service (no contact details, external links or off-platform payments)
+- Return only the rewritten message, no commentary
+
+MESSAGE:
+${draft}`;
@@ -0,0 +1,12 @@
+// The user's explicit style rules (style_rules table), extracted from recurring edits or written by hand.
+
+const MAX_STYLE_RULES = 20;
+
+export const buildStyleRulesSection = (rules: { rule: string }[]) => {
+  if (rules.length === 0) return '';
+
+  return `
+STYLE RULES (the seller's own preferences - follow every one, they take priority over the examples above):
+${rules.slice(0, MAX_STYLE_RULES).map(({ rule }) => `- ${rule.substring(0, 300)}`).join('\n')}
+`;
+};
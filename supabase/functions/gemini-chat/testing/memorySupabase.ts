@@ -0,0 +1,121 @@
+// In-memory stand-in for the parts of the supabase-js client the gemini-chat modules use:
+// from().select/eq/is/in/or/order/limit/single/maybeSingle and rpc(). Tables are plain row arrays,
+// RPCs are handlers that receive the call parameters. Unit tests only; not a PostgREST emulator.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
+
+type Row = Record<string, unknown>;
+type RpcHandler = (params: Record<string, unknown>) => unknown;
+
+export interface MemorySupabaseOptions {
+  tables?: Record<string, Row[]>;
+  rpc?: Record<string, RpcHandler>;
+}
+
+export interface RpcCall {
+  name: string;
+  params: Record<string, unknown>;
+}
+
+// `or('user_id.eq.abc,user_id.is.null')` - only the eq/is operators the functions use
+const parseOrFilter = (expression: string) => {
+  const conditions = expression.split(',').map(condition => {
+    const [column, operator, ...rest] = condition.split('.');
+    const value = rest.join('.');
+    if (operator === 'is') return (row: Row) => (row[column] ?? null) === (value === 'null' ? null : value === 'true');
+    if (operator === 'eq') return (row: Row) => String(row[column]) === value;
+    throw new Error(`Unsupported or() operator: ${operator}`);
+  });
+  return (row: Row) => conditions.some(condition => condition(row));
+};
+
+const project = (row: Row, columns: string) => {
+  if (columns.trim() === '*') return { ...row };
+  return Object.fromEntries(columns.split(',').map(column => column.trim()).map(column => [column, row[column] ?? null]));
+};
+
+const queryTable = (rows: Row[]) => {
+  const filters: ((row: Row) => boolean)[] = [];
+  const sorts: { column: string; ascending: boolean }[] = [];
+  let columns = '*';
+  let limit = Infinity;
+  let mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  const run = () => {
+    const matched = rows.filter(row => filters.every(filter => filter(row)));
+    sorts.forEach(({ column, ascending }) => {
+      matched.sort((a, b) => {
+        const left = a[column] as string | number;
+        const right = b[column] as string | number;
+        if (left === right) return 0;
+        return (left < right ? -1 : 1) * (ascending ? 1 : -1);
+      });
+    });
+    const data = matched.slice(0, limit).map(row => project(row, columns));
+
+    if (mode === 'many') return { data, error: null };
+    if (data.length > 1) return { data: null, error: { message: 'Multiple rows returned' } };
+    if (data.length === 0 && mode === 'single') return { data: null, error: { message: 'No rows returned' } };
+    return { data: data[0] ?? null, error: null };
+  };
+
+  const builder = {
+    select(selected = '*') {
+      columns = selected;
+      return builder;
+    },
+    eq(column: string, value: unknown) {
+      filters.push(row => row[column] === value);
+      return builder;
+    },
+    is(column: string, value: null | boolean) {
+      filters.push(row => (row[column] ?? null) === value);
+      return builder;
+    },
+    in(column: string, values: unknown[]) {
+      filters.push(row => values.includes(row[column]));
+      return builder;
+    },
+    or(expression: string) {
+      filters.push(parseOrFilter(expression));
+      return builder;
+    },
+    order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+      // Later order() calls are tie-breakers, so they are applied first by the stable sort
+      sorts.unshift({ column, ascending });
+      return builder;
+    },
+    limit(count: number) {
+      limit = count;
+      return builder;
+    },
+    single() {
+      mode = 'single';
+      return builder;
+    },
+    maybeSingle() {
+      mode = 'maybeSingle';
+      return builder;
+    },
+    then<T>(resolve: (result: ReturnType<typeof run>) => T, reject?: (error: unknown) => T) {
+      return Promise.resolve().then(run).then(resolve, reject);
+    }
+  };
+
+  return builder;
+};
+
+export const createMemorySupabase = ({ tables = {}, rpc = {} }: MemorySupabaseOptions = {}) => {
+  const rpcCalls: RpcCall[] = [];
+
+  const client = {
+    from: (table: string) => queryTable(tables[table] || []),
+    rpc: async (name: string, params: Record<string, unknown> = {}) => {
+      rpcCalls.push({ name, params });
+      const handler = rpc[name];
+      if (!handler) return { data: null, error: { message: `Unknown function ${name}` } };
+      return { data: await handler(params), error: null };
+    }
+  };
+
+  return { supabase: client as unknown as SupabaseClient, rpcCalls };
+};
@@ -0,0 +1,84 @@
+// Prompt section for the seller's brand voice (`profiles.voice_settings`, edited in Voice settings).
+// It overrides the generic tone in GUIDELINES; unset fields add nothing.
+
+export interface VoiceSettings {
+  signature: string;
+  greetingStyle: string;
+  closingStyle: string;
+  emojiPolicy: string;
+  formality: number;
+  bannedPhrases: string[];
+  requiredPhrases: string[];
+  maxWords: number;
+  format: string;
+}
+
+const EMOJI_RULES: Record<string, string> = {
+  none: 'Never use emojis.',
+  sparing: 'Use at most one emoji, only where it feels natural.',
+  friendly: 'Use a few friendly emojis (2-3) to keep the message warm.'
+};
+
+const FORMAT_RULES: Record<string, string> = {
+  plain: 'Write plain text only: no markdown, asterisks, headings or bullet symbols.',
+  markdown: 'Use markdown formatting (bold for key points, bullet lists for deliverables and steps).'
+};
+
+const FORMALITY_RULES: Record<number, string> = {
+  1: 'Very casual and conversational, like messaging a friend; contractions and short sentences.',
+  2: 'Casual and friendly while staying professional.',
+  4: 'Formal and polished; no slang and few contractions.',
+  5: 'Very formal and businesslike; full sentences, no contractions, no slang.'
+};
+
+// Own keys only: a preview sending "constructor" must not pull function source into the prompt
+const option = (rules: Record<string, string>, value: unknown) =>
+  typeof value === 'string' && Object.hasOwn(rules, value) ? value : 'any';
+
+const text = (value: unknown, max: number) => typeof value === 'string' ? value.trim().substring(0, max) : '';
+
+const phrases = (value: unknown) => Array.isArray(value)
+  ? value.filter((phrase): phrase is string => typeof phrase === 'string' && phrase.trim() !== '')
+    .map(phrase => phrase.trim().substring(0, 200))
+    .slice(0, 20)
+  : [];
+
+// The settings come from the profile row or, for previews, straight from the browser
+export const parseVoiceSettings = (raw: unknown): VoiceSettings => {
+  const source = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  const formality = Math.round(Number(source.formality));
+  const maxWords = Math.round(Number(source.max_words));
+
+  return {
+    signature: text(source.signature, 300),
+    greetingStyle: text(source.greeting_style, 200),
+    closingStyle: text(source.closing_style, 200),
+    emojiPolicy: option(EMOJI_RULES, source.emoji_policy),
+    formality: formality >= 1 && formality <= 5 ? formality : 3,
+    bannedPhrases: phrases(source.banned_phrases),
+    requiredPhrases: phrases(source.required_phrases),
+    maxWords: Number.isFinite(maxWords) && maxWords > 0 ? maxWords : 0,
+    format: option(FORMAT_RULES, source.format)
+  };
+};
+
+export const buildVoiceSection = (voice: VoiceSettings) => {
+  const rules = [
+    FORMALITY_RULES[voice.formality] && `Tone: ${FORMALITY_RULES[voice.formality]}`,
+    voice.greetingStyle && `Open with a greeting in this style: "${voice.greetingStyle}"`,
+    voice.closingStyle && `Close with a line in this style: "${voice.closingStyle}"`,
+    voice.signature && `End the message with this exact signature on its own line(s):\n${voice.signature}`,
+    EMOJI_RULES[voice.emojiPolicy],
+    FORMAT_RULES[voice.format],
+    voice.maxWords > 0 && `Keep the reply under ${voice.maxWords} words.`,
+    voice.bannedPhrases.length > 0 && `Never use these phrases: ${voice.bannedPhrases.map(phrase => `"${phrase}"`).join(', ')}`,
+    voice.requiredPhrases.length > 0 && `Always include these phrases: ${voice.requiredPhrases.map(phrase => `"${phrase}"`).join(', ')}`
+  ].filter(Boolean);
+
+  if (rules.length === 0) return '';
+
+  return `
+SELLER VOICE (the seller's own settings - they override the general tone in the guidelines below):
+${rules.map(rule => `- ${rule}`).join('\n')}
+`;
+};
@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
+import { embedTexts, resolveEmbeddingProvider, toVectorLiteral } from '../_shared/embeddings.ts';
+
+// Backfills embeddings for rows that have none yet, or that were embedded by a different model.
+// Called by the app after saving (scoped to the signed-in user) and can be scheduled with the
+// service role key to sweep every user.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const MAX_BATCH_SIZE = 100;
+
+// Which text gets embedded for each table; refined responses and conversations are matched on the client message
+const EMBEDDING_SOURCES = {
+  refined_responses: {
+    columns: 'id, original_client_message',
+    toText: (row: Record<string, string>) => row.original_client_message
+  },
+  conversations: {
+    columns: 'id, client_message',
+    toText: (row: Record<string, string>) => row.client_message
+  },
+  message_templates: {
+    columns: 'id, title, template_content',
+    toText: (row: Record<string, string>) => `${row.title}\n${row.template_content}`
+  },
+  gigs: {
+    columns: 'id, title, category, description',
+    toText: (row: Record<string, string>) => [row.title, row.category, row.description].filter(Boolean).join('\n')
+  },
+  knowledge_chunks: {
+    columns: 'id, content',
+    toText: (row: Record<string, string>) => row.content
+  }
+} as const;
+
+type EmbeddingTable = keyof typeof EMBEDDING_SOURCES;
+
+// Own keys only, so prototype names like "constructor" aren't taken for a table
+const isEmbeddingTable = (table: unknown): table is EmbeddingTable =>
+  typeof table === 'string' && Object.hasOwn(EMBEDDING_SOURCES, table);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { tables = Object.keys(EMBEDDING_SOURCES), batchSize = 25 } = await req.json().catch(() => ({}));
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    // The service role key runs the job for all users; anything else must be a valid user token
+    const token = authHeader.replace('Bearer ', '');
+    let userId: string | null = null;
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !user) {
+        throw new Error('Invalid user token');
+      }
+      userId = user.id;
+    }
+
+    if (!Array.isArray(tables) || !tables.every(isEmbeddingTable)) {
+      return new Response(JSON.stringify({ error: `tables must be a list of: ${Object.keys(EMBEDDING_SOURCES).join(', ')}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const provider = resolveEmbeddingProvider();
+    const limit = Math.min(Math.max(Number(batchSize) || 25, 1), MAX_BATCH_SIZE);
+    const processed: Record<string, number> = {};
+    let remaining = false;
+
+    for (const table of tables) {
+      const source = EMBEDDING_SOURCES[table];
+
+      let query = supabase
+        .from(table)
+        .select(source.columns)
+        .or(`embedding.is.null,embedding_model.neq."${provider.model}"`)
+        .limit(limit);
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      const { data: rows, error } = await query;
+      if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+      if (!rows || rows.length === 0) {
+        processed[table] = 0;
+        continue;
+      }
+
+      const { model, vectors } = await embedTexts(rows.map(row => source.toText(row as Record<string, string>) || ''), provider);
+
+      await Promise.all(rows.map((row, index) =>
+        supabase
+          .from(table)
+          .update({ embedding: toVectorLiteral(vectors[index]), embedding_model: model })
+          .eq('id', (row as { id: string }).id)
+      ));
+
+      processed[table] = rows.length;
+      // A full batch means there may be more. After a local fallback the rows are retried on the next run
+      // instead, so a provider outage doesn't keep the caller looping.
+      remaining = remaining || (rows.length === limit && model === provider.model);
+    }
+
+    console.log('Embedding backfill processed:', processed);
+
+    return new Response(JSON.stringify({ model: provider.model, processed, remaining }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in generate-embeddings function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,5 @@
+-- Per-user LLM provider preference for the gemini-chat edge function
+-- NULL means "use the server default" (LLM_PROVIDER env var, falling back to Gemini)
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS llm_provider TEXT
+CHECK (llm_provider IN ('gemini', 'openai', 'anthropic', 'ollama', 'mock'));
@@ -0,0 +1,9 @@
+-- Record how a refined response came about so draft picks act as a preference signal
+ALTER TABLE public.refined_responses
+ADD COLUMN IF NOT EXISTS refinement_source TEXT NOT NULL DEFAULT 'manual_edit'
+  CHECK (refinement_source IN ('manual_edit', 'draft_pick', 'draft_merge')),
+ADD COLUMN IF NOT EXISTS chosen_tone TEXT,
+ADD COLUMN IF NOT EXISTS rejected_alternatives TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_refined_responses_user_source
+ON public.refined_responses(user_id, refinement_source);
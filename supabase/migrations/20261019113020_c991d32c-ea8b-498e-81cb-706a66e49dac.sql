@@ -0,0 +1,77 @@
+-- Client threads: group conversations by client / Fiverr order so replies can see the whole exchange
+CREATE TABLE public.client_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_name TEXT NOT NULL,
+  fiverr_order_id TEXT,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'in_progress', 'delivered', 'completed', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.client_threads ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own client threads" 
+ON public.client_threads 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own client threads" 
+ON public.client_threads 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own client threads" 
+ON public.client_threads 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own client threads" 
+ON public.client_threads 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_client_threads_updated_at
+BEFORE UPDATE ON public.client_threads
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_client_threads_user_updated 
+ON public.client_threads(user_id, updated_at DESC);
+
+-- Link conversations to a thread; messages within a thread are ordered by created_at
+ALTER TABLE public.conversations 
+ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES public.client_threads(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_thread_created 
+ON public.conversations(thread_id, created_at);
+
+-- Allow moving existing conversations into a thread
+CREATE POLICY "Users can update their own conversations" 
+ON public.conversations 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+-- Bump the thread's updated_at whenever a message is added so recent threads sort first
+CREATE OR REPLACE FUNCTION public.touch_client_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.thread_id IS NOT NULL THEN
+    UPDATE public.client_threads SET updated_at = now() WHERE id = NEW.thread_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_client_thread_on_conversation
+AFTER INSERT ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_client_thread();
@@ -0,0 +1,59 @@
+-- Client CRM: per-client profiles used to personalise generated responses
+CREATE TABLE public.clients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  fiverr_username TEXT,
+  country TEXT,
+  timezone TEXT,
+  client_type TEXT,
+  budget_min NUMERIC(10,2),
+  budget_max NUMERIC(10,2),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  preferred_tone TEXT,
+  notes TEXT,
+  -- [{ "order_id": "...", "title": "...", "amount": 120, "status": "completed", "date": "2026-01-31" }]
+  past_orders JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own clients" 
+ON public.clients 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own clients" 
+ON public.clients 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own clients" 
+ON public.clients 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own clients" 
+ON public.clients 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_clients_updated_at
+BEFORE UPDATE ON public.clients
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_clients_user_name 
+ON public.clients(user_id, name);
+
+CREATE INDEX IF NOT EXISTS idx_clients_search_gin 
+ON public.clients USING gin(to_tsvector('english', name || ' ' || COALESCE(fiverr_username, '') || ' ' || COALESCE(notes, '')));
+
+-- Threads can belong to a client profile
+ALTER TABLE public.client_threads 
+ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL;
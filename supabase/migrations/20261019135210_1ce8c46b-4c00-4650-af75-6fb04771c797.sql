@@ -0,0 +1,131 @@
+-- Semantic similarity with pgvector
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- 768 dimensions fits Gemini text-embedding-004, nomic-embed-text and the local hashed fallback.
+-- embedding_model records which provider produced a vector; vectors from different models are never compared.
+ALTER TABLE public.refined_responses
+ADD COLUMN IF NOT EXISTS embedding extensions.vector(768),
+ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS embedding extensions.vector(768),
+ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+ALTER TABLE public.message_templates
+ADD COLUMN IF NOT EXISTS embedding extensions.vector(768),
+ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_refined_responses_embedding 
+ON public.refined_responses USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_embedding 
+ON public.conversations USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE INDEX IF NOT EXISTS idx_templates_embedding 
+ON public.message_templates USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Rows still waiting for the backfill job
+CREATE INDEX IF NOT EXISTS idx_refined_responses_embedding_pending 
+ON public.refined_responses(user_id) WHERE embedding IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_embedding_pending 
+ON public.conversations(user_id) WHERE embedding IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_templates_embedding_pending 
+ON public.message_templates(user_id) WHERE embedding IS NULL;
+
+-- Editing the text invalidates the stored vector so the backfill job picks the row up again
+CREATE OR REPLACE FUNCTION public.reset_refined_response_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.original_client_message IS DISTINCT FROM OLD.original_client_message THEN
+    NEW.embedding := NULL;
+    NEW.embedding_model := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_refined_response_embedding
+BEFORE UPDATE ON public.refined_responses
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_refined_response_embedding();
+
+CREATE OR REPLACE FUNCTION public.reset_template_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title OR NEW.template_content IS DISTINCT FROM OLD.template_content THEN
+    NEW.embedding := NULL;
+    NEW.embedding_model := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_template_embedding
+BEFORE UPDATE ON public.message_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_template_embedding();
+
+-- Replace the space-split word overlap with vector search.
+-- Rows with a comparable embedding are scored by cosine similarity; rows not yet backfilled
+-- (or when no query embedding is available) fall back to punctuation-insensitive word overlap.
+DROP FUNCTION IF EXISTS public.find_similar_refined_responses(UUID, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.find_similar_refined_responses(
+  user_id_param UUID,
+  client_message_param TEXT,
+  message_type_param TEXT DEFAULT NULL,
+  similarity_limit INTEGER DEFAULT 3,
+  query_embedding extensions.vector(768) DEFAULT NULL,
+  embedding_model_param TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  original_client_message TEXT,
+  refined_response TEXT,
+  similarity_score NUMERIC
+) AS $$
+DECLARE
+  query_words TEXT[] := regexp_split_to_array(LOWER(client_message_param), '[^[:alnum:]]+');
+BEGIN
+  query_words := array_remove(query_words, '');
+
+  RETURN QUERY
+  SELECT 
+    rr.id,
+    rr.original_client_message,
+    rr.refined_response,
+    (
+      CASE 
+        WHEN rr.message_type = message_type_param THEN 0.3
+        ELSE 0.0
+      END +
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND rr.embedding IS NOT NULL
+          AND rr.embedding_model = embedding_model_param
+        THEN GREATEST(1 - (rr.embedding OPERATOR(extensions.<=>) query_embedding), 0) * 0.7
+        ELSE (
+          SELECT COUNT(DISTINCT word)::NUMERIC / GREATEST(
+            COALESCE(array_length(query_words, 1), 0),
+            COALESCE(array_length(array_remove(regexp_split_to_array(LOWER(rr.original_client_message), '[^[:alnum:]]+'), ''), 1), 0),
+            1
+          ) * 0.7
+          FROM unnest(query_words) AS word
+          WHERE word = ANY(regexp_split_to_array(LOWER(rr.original_client_message), '[^[:alnum:]]+'))
+        )
+      END
+    )::NUMERIC AS similarity_score
+  FROM public.refined_responses rr
+  WHERE rr.user_id = user_id_param
+  ORDER BY similarity_score DESC
+  LIMIT similarity_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,77 @@
+-- Template analytics: log every template / generated response use and record what happened next
+
+-- Generated replies that didn't draw on a saved template are logged too, so template_id becomes optional
+ALTER TABLE public.template_analytics 
+ALTER COLUMN template_id DROP NOT NULL;
+
+-- usage_group_id ties together the rows written for one sent reply (one row per template that shaped it)
+ALTER TABLE public.template_analytics 
+ADD COLUMN IF NOT EXISTS usage_group_id UUID NOT NULL DEFAULT gen_random_uuid(),
+ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS outcome_recorded_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.template_analytics 
+ADD CONSTRAINT template_analytics_conversion_outcome_check 
+CHECK (conversion_outcome IS NULL OR conversion_outcome IN ('order_won', 'revision', 'no_reply'));
+
+CREATE INDEX IF NOT EXISTS idx_template_analytics_pending_outcome 
+ON public.template_analytics(user_id, used_at DESC) WHERE conversion_outcome IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_template_analytics_usage_group 
+ON public.template_analytics(usage_group_id);
+
+-- Derive a 1-5 effectiveness score from the outcome unless one was given explicitly
+CREATE OR REPLACE FUNCTION public.score_template_outcome()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.conversion_outcome IS NOT NULL AND NEW.conversion_outcome IS DISTINCT FROM OLD.conversion_outcome THEN
+    NEW.outcome_recorded_at := COALESCE(NEW.outcome_recorded_at, now());
+    -- An explicit score set in the same statement wins
+    IF NEW.response_effectiveness IS NULL OR NEW.response_effectiveness IS NOT DISTINCT FROM OLD.response_effectiveness THEN
+      NEW.response_effectiveness := CASE NEW.conversion_outcome
+        WHEN 'order_won' THEN 5
+        WHEN 'revision' THEN 3
+        WHEN 'no_reply' THEN 1
+      END;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER score_template_outcome
+BEFORE INSERT OR UPDATE ON public.template_analytics
+FOR EACH ROW
+EXECUTE FUNCTION public.score_template_outcome();
+
+-- Keep message_templates.success_rating in step with the recorded outcomes
+CREATE OR REPLACE FUNCTION public.refresh_template_success_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected_template UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.template_id ELSE NEW.template_id END;
+BEGIN
+  IF affected_template IS NOT NULL THEN
+    UPDATE public.message_templates
+    SET success_rating = (
+      SELECT ROUND(AVG(response_effectiveness), 2)
+      FROM public.template_analytics
+      WHERE template_id = affected_template
+        AND response_effectiveness IS NOT NULL
+    )
+    WHERE id = affected_template;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_template_success_rating
+AFTER INSERT OR UPDATE OF response_effectiveness OR DELETE ON public.template_analytics
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_template_success_rating();
@@ -0,0 +1,3 @@
+-- Remember template variable values (e.g. project_name, timeline) per client so they prefill next time
+ALTER TABLE public.clients 
+ADD COLUMN IF NOT EXISTS template_values JSONB NOT NULL DEFAULT '{}'::jsonb;
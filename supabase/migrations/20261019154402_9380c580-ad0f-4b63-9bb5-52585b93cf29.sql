@@ -0,0 +1,56 @@
+-- Multiple attachments (screenshots and PDF briefs) per conversation.
+-- Files stay in the private 'screenshots' bucket under '<user id>/'; rows are created on upload
+-- and linked to the conversation when it is saved.
+CREATE TABLE public.conversation_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.conversation_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own attachments" 
+ON public.conversation_attachments 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own attachments" 
+ON public.conversation_attachments 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own attachments" 
+ON public.conversation_attachments 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own attachments" 
+ON public.conversation_attachments 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_attachments_conversation 
+ON public.conversation_attachments(conversation_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_attachments_user 
+ON public.conversation_attachments(user_id, created_at DESC);
+
+-- Carry existing single screenshots over. Older rows stored a public URL for the private bucket,
+-- so strip it down to the object path.
+INSERT INTO public.conversation_attachments (user_id, conversation_id, storage_path, file_name, mime_type, created_at)
+SELECT
+  c.user_id,
+  c.id,
+  regexp_replace(c.screenshot_url, '^.*/object/public/screenshots/', ''),
+  regexp_replace(c.screenshot_url, '^.*/', ''),
+  'image/' || COALESCE(NULLIF(LOWER(substring(c.screenshot_url from '\.([A-Za-z0-9]+)$')), 'jpg'), 'jpeg'),
+  c.created_at
+FROM public.conversations c
+WHERE c.screenshot_url IS NOT NULL AND c.screenshot_url <> '';
@@ -0,0 +1,5 @@
+-- Gig package catalogue used by the quote builder and custom offer generation.
+-- Shape: { currency, hourly_rate, packages: [{ tier, name, description, price, delivery_days, revisions }],
+--          extras: [{ id, name, price, extra_days }] }
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS gig_catalogue JSONB NOT NULL DEFAULT '{}'::jsonb;
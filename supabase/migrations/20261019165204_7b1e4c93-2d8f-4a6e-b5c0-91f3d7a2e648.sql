@@ -0,0 +1,140 @@
+-- Seller gigs: what the user actually offers, retrieved per client message to ground responses
+CREATE TABLE public.gigs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  category TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  gig_url TEXT,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  -- [{ "tier": "basic", "name": "Starter", "description": "...", "price": 50, "delivery_days": 3, "revisions": 1 }]
+  packages JSONB NOT NULL DEFAULT '[]',
+  -- [{ "question": "...", "answer": "..." }]
+  faqs JSONB NOT NULL DEFAULT '[]',
+  -- What the buyer has to provide before work starts
+  requirements TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  embedding extensions.vector(768),
+  embedding_model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.gigs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own gigs" 
+ON public.gigs 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own gigs" 
+ON public.gigs 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own gigs" 
+ON public.gigs 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own gigs" 
+ON public.gigs 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_gigs_updated_at
+BEFORE UPDATE ON public.gigs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_gigs_user_title 
+ON public.gigs(user_id, title);
+
+CREATE INDEX IF NOT EXISTS idx_gigs_embedding 
+ON public.gigs USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE INDEX IF NOT EXISTS idx_gigs_embedding_pending 
+ON public.gigs(user_id) WHERE embedding IS NULL;
+
+CREATE OR REPLACE FUNCTION public.reset_gig_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.tags IS DISTINCT FROM OLD.tags THEN
+    NEW.embedding := NULL;
+    NEW.embedding_model := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_gig_embedding
+BEFORE UPDATE ON public.gigs
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_gig_embedding();
+
+-- Active gigs ranked against a client message: cosine similarity when a comparable embedding
+-- exists, otherwise the share of message words found in the gig's title, category, tags and description.
+CREATE OR REPLACE FUNCTION public.find_relevant_gigs(
+  user_id_param UUID,
+  client_message_param TEXT,
+  match_limit INTEGER DEFAULT 2,
+  query_embedding extensions.vector(768) DEFAULT NULL,
+  embedding_model_param TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  currency TEXT,
+  packages JSONB,
+  faqs JSONB,
+  requirements TEXT[],
+  relevance_score NUMERIC
+) AS $$
+DECLARE
+  query_words TEXT[] := array_remove(regexp_split_to_array(LOWER(client_message_param), '[^[:alnum:]]+'), '');
+BEGIN
+  RETURN QUERY
+  SELECT 
+    g.id,
+    g.title,
+    g.description,
+    g.category,
+    g.currency,
+    g.packages,
+    g.faqs,
+    g.requirements,
+    (
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND g.embedding IS NOT NULL
+          AND g.embedding_model = embedding_model_param
+        THEN GREATEST(1 - (g.embedding OPERATOR(extensions.<=>) query_embedding), 0)
+        ELSE (
+          SELECT COUNT(DISTINCT word)::NUMERIC / GREATEST(COALESCE(array_length(query_words, 1), 0), 1)
+          FROM unnest(query_words) AS word
+          WHERE length(word) > 2
+            AND word = ANY(regexp_split_to_array(
+              LOWER(g.title || ' ' || COALESCE(g.category, '') || ' ' || array_to_string(g.tags, ' ') || ' ' || g.description),
+              '[^[:alnum:]]+'
+            ))
+        )
+      END
+    )::NUMERIC AS relevance_score
+  FROM public.gigs g
+  WHERE g.user_id = user_id_param AND g.is_active
+  ORDER BY relevance_score DESC
+  LIMIT match_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,141 @@
+-- Seller knowledge base: notes, FAQ entries and uploaded documents, split into chunks that
+-- gemini-chat retrieves per client message.
+CREATE TABLE public.knowledge_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  source_type TEXT NOT NULL DEFAULT 'note' CHECK (source_type IN ('note', 'faq', 'document')),
+  content TEXT NOT NULL,
+  file_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Chunks are rewritten whenever their document changes, so they never need an embedding reset
+CREATE TABLE public.knowledge_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.knowledge_documents(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding extensions.vector(768),
+  embedding_model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.knowledge_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own knowledge documents" 
+ON public.knowledge_documents 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own knowledge documents" 
+ON public.knowledge_documents 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own knowledge documents" 
+ON public.knowledge_documents 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own knowledge documents" 
+ON public.knowledge_documents 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own knowledge chunks" 
+ON public.knowledge_chunks 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own knowledge chunks" 
+ON public.knowledge_chunks 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own knowledge chunks" 
+ON public.knowledge_chunks 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own knowledge chunks" 
+ON public.knowledge_chunks 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_knowledge_documents_updated_at
+BEFORE UPDATE ON public.knowledge_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_user 
+ON public.knowledge_documents(user_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_document 
+ON public.knowledge_chunks(document_id, chunk_index);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_embedding 
+ON public.knowledge_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_embedding_pending 
+ON public.knowledge_chunks(user_id) WHERE embedding IS NULL;
+
+-- Strict mode: answers may only state facts found in the knowledge base
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS knowledge_strict_mode BOOLEAN NOT NULL DEFAULT false;
+
+-- Top passages for a client message, scored like find_relevant_gigs
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+  user_id_param UUID,
+  client_message_param TEXT,
+  match_limit INTEGER DEFAULT 4,
+  query_embedding extensions.vector(768) DEFAULT NULL,
+  embedding_model_param TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_title TEXT,
+  source_type TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  relevance_score NUMERIC
+) AS $$
+DECLARE
+  query_words TEXT[] := array_remove(regexp_split_to_array(LOWER(client_message_param), '[^[:alnum:]]+'), '');
+BEGIN
+  RETURN QUERY
+  SELECT 
+    kc.id,
+    kc.document_id,
+    kd.title,
+    kd.source_type,
+    kc.chunk_index,
+    kc.content,
+    (
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND kc.embedding IS NOT NULL
+          AND kc.embedding_model = embedding_model_param
+        THEN GREATEST(1 - (kc.embedding OPERATOR(extensions.<=>) query_embedding), 0)
+        ELSE (
+          SELECT COUNT(DISTINCT word)::NUMERIC / GREATEST(COALESCE(array_length(query_words, 1), 0), 1)
+          FROM unnest(query_words) AS word
+          WHERE length(word) > 2
+            AND word = ANY(regexp_split_to_array(LOWER(kd.title || ' ' || kc.content), '[^[:alnum:]]+'))
+        )
+      END
+    )::NUMERIC AS relevance_score
+  FROM public.knowledge_chunks kc
+  JOIN public.knowledge_documents kd ON kd.id = kc.document_id
+  WHERE kc.user_id = user_id_param
+  ORDER BY relevance_score DESC
+  LIMIT match_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,12 @@
+-- Labels detected for the client message when the conversation was generated.
+-- message_type keeps the type the user generated with; detected_message_type is what the classifier suggested.
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS detected_message_type TEXT,
+ADD COLUMN IF NOT EXISTS classification_confidence REAL,
+ADD COLUMN IF NOT EXISTS classification_source TEXT CHECK (classification_source IN ('llm', 'rules')),
+ADD COLUMN IF NOT EXISTS detected_intent TEXT,
+ADD COLUMN IF NOT EXISTS urgency TEXT CHECK (urgency IN ('low', 'normal', 'high')),
+ADD COLUMN IF NOT EXISTS sentiment TEXT CHECK (sentiment IN ('positive', 'neutral', 'negative')),
+ADD COLUMN IF NOT EXISTS requested_deliverables TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_conversations_detected_message_type ON public.conversations(user_id, detected_message_type);
@@ -0,0 +1,9 @@
+-- Escalation risk of the client message and whether the reply was generated in de-escalation mode
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS risk_score REAL,
+ADD COLUMN IF NOT EXISTS risk_signals TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS deescalation_mode BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_risk
+ON public.conversations(user_id, created_at DESC)
+WHERE risk_score >= 0.5;
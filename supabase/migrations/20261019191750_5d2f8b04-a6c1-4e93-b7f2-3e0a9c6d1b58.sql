@@ -0,0 +1,127 @@
+-- Client message language (ISO 639-1). On refined responses it is the language of the original
+-- client message, so examples are retrieved for clients writing in the same language.
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS language TEXT;
+
+ALTER TABLE public.refined_responses
+ADD COLUMN IF NOT EXISTS language TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_refined_responses_user_language
+ON public.refined_responses(user_id, language);
+
+-- Text search configuration per language; rows saved before detection existed were English
+CREATE OR REPLACE FUNCTION public.language_search_config(language_code TEXT)
+RETURNS regconfig
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (CASE COALESCE(language_code, 'en')
+    WHEN 'en' THEN 'english'
+    WHEN 'es' THEN 'spanish'
+    WHEN 'de' THEN 'german'
+    WHEN 'fr' THEN 'french'
+    WHEN 'pt' THEN 'portuguese'
+    WHEN 'it' THEN 'italian'
+    WHEN 'nl' THEN 'dutch'
+    WHEN 'ru' THEN 'russian'
+    WHEN 'ar' THEN 'arabic'
+    WHEN 'hi' THEN 'hindi'
+    WHEN 'tr' THEN 'turkish'
+    ELSE 'simple'
+  END)::regconfig;
+$$;
+
+-- Replace the English-only indexes with one vector stemmed in the conversation's language
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector(public.language_search_config(language), client_message || ' ' || bot_response)
+) STORED;
+
+DROP INDEX IF EXISTS public.idx_conversations_client_message_gin;
+DROP INDEX IF EXISTS public.idx_conversations_bot_response_gin;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_search_vector
+ON public.conversations USING gin(search_vector);
+
+-- Each row is matched with a query parsed in its own language, so "diseños" finds "diseño"
+-- in Spanish conversations while English ones still stem as before
+CREATE OR REPLACE FUNCTION public.search_conversations(
+  user_id_param UUID,
+  query_param TEXT,
+  match_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.id, ts_rank(c.search_vector, websearch_to_tsquery(public.language_search_config(c.language), query_param)) AS rank
+  FROM public.conversations c
+  WHERE c.user_id = user_id_param
+    AND c.search_vector @@ websearch_to_tsquery(public.language_search_config(c.language), query_param)
+  ORDER BY rank DESC
+  LIMIT match_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same scoring as before; examples in the client's language are preferred, other languages
+-- (and rows saved before detection) only fill the remaining slots
+DROP FUNCTION IF EXISTS public.find_similar_refined_responses(UUID, TEXT, TEXT, INTEGER, extensions.vector, TEXT);
+
+CREATE OR REPLACE FUNCTION public.find_similar_refined_responses(
+  user_id_param UUID,
+  client_message_param TEXT,
+  message_type_param TEXT DEFAULT NULL,
+  similarity_limit INTEGER DEFAULT 3,
+  query_embedding extensions.vector(768) DEFAULT NULL,
+  embedding_model_param TEXT DEFAULT NULL,
+  language_param TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  original_client_message TEXT,
+  refined_response TEXT,
+  language TEXT,
+  similarity_score NUMERIC
+) AS $$
+DECLARE
+  query_words TEXT[] := regexp_split_to_array(LOWER(client_message_param), '[^[:alnum:]]+');
+BEGIN
+  query_words := array_remove(query_words, '');
+
+  RETURN QUERY
+  SELECT 
+    rr.id,
+    rr.original_client_message,
+    rr.refined_response,
+    rr.language,
+    (
+      CASE 
+        WHEN rr.message_type = message_type_param THEN 0.3
+        ELSE 0.0
+      END +
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND rr.embedding IS NOT NULL
+          AND rr.embedding_model = embedding_model_param
+        THEN GREATEST(1 - (rr.embedding OPERATOR(extensions.<=>) query_embedding), 0) * 0.7
+        ELSE (
+          SELECT COUNT(DISTINCT word)::NUMERIC / GREATEST(
+            COALESCE(array_length(query_words, 1), 0),
+            COALESCE(array_length(array_remove(regexp_split_to_array(LOWER(rr.original_client_message), '[^[:alnum:]]+'), ''), 1), 0),
+            1
+          ) * 0.7
+          FROM unnest(query_words) AS word
+          WHERE word = ANY(regexp_split_to_array(LOWER(rr.original_client_message), '[^[:alnum:]]+'))
+        )
+      END
+    )::NUMERIC AS similarity_score
+  FROM public.refined_responses rr
+  WHERE rr.user_id = user_id_param
+  ORDER BY
+    (language_param IS NOT NULL AND COALESCE(rr.language, 'en') = language_param) DESC,
+    similarity_score DESC
+  LIMIT similarity_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,83 @@
+-- Curation of refined responses: pinned examples are always given to the model, disabled ones never are
+ALTER TABLE public.refined_responses
+ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS is_disabled BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_refined_responses_user_pinned
+ON public.refined_responses(user_id) WHERE is_pinned AND NOT is_disabled;
+
+-- Pinned rows come first and don't count towards similarity_limit. similarity_keywords
+-- found in the client message add to the score, so users can steer retrieval by hand.
+DROP FUNCTION IF EXISTS public.find_similar_refined_responses(UUID, TEXT, TEXT, INTEGER, extensions.vector, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.find_similar_refined_responses(
+  user_id_param UUID,
+  client_message_param TEXT,
+  message_type_param TEXT DEFAULT NULL,
+  similarity_limit INTEGER DEFAULT 3,
+  query_embedding extensions.vector(768) DEFAULT NULL,
+  embedding_model_param TEXT DEFAULT NULL,
+  language_param TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  original_client_message TEXT,
+  refined_response TEXT,
+  language TEXT,
+  is_pinned BOOLEAN,
+  similarity_score NUMERIC
+) AS $$
+DECLARE
+  query_words TEXT[] := regexp_split_to_array(LOWER(client_message_param), '[^[:alnum:]]+');
+  pinned_count INTEGER;
+BEGIN
+  query_words := array_remove(query_words, '');
+
+  SELECT COUNT(*) INTO pinned_count
+  FROM public.refined_responses rr
+  WHERE rr.user_id = user_id_param AND rr.is_pinned AND NOT rr.is_disabled;
+
+  RETURN QUERY
+  SELECT 
+    rr.id,
+    rr.original_client_message,
+    rr.refined_response,
+    rr.language,
+    rr.is_pinned,
+    (
+      CASE 
+        WHEN rr.message_type = message_type_param THEN 0.3
+        ELSE 0.0
+      END +
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND rr.embedding IS NOT NULL
+          AND rr.embedding_model = embedding_model_param
+        THEN GREATEST(1 - (rr.embedding OPERATOR(extensions.<=>) query_embedding), 0) * 0.7
+        ELSE (
+          SELECT COUNT(DISTINCT word)::NUMERIC / GREATEST(
+            COALESCE(array_length(query_words, 1), 0),
+            COALESCE(array_length(array_remove(regexp_split_to_array(LOWER(rr.original_client_message), '[^[:alnum:]]+'), ''), 1), 0),
+            1
+          ) * 0.7
+          FROM unnest(query_words) AS word
+          WHERE word = ANY(regexp_split_to_array(LOWER(rr.original_client_message), '[^[:alnum:]]+'))
+        )
+      END +
+      (
+        SELECT LEAST(COUNT(*) * 0.1, 0.2)
+        FROM unnest(COALESCE(rr.similarity_keywords, '{}')) AS keyword
+        WHERE TRIM(keyword) <> ''
+          AND POSITION(LOWER(TRIM(keyword)) IN LOWER(client_message_param)) > 0
+      )
+    )::NUMERIC AS similarity_score
+  FROM public.refined_responses rr
+  WHERE rr.user_id = user_id_param
+    AND NOT rr.is_disabled
+  ORDER BY
+    rr.is_pinned DESC,
+    (language_param IS NOT NULL AND COALESCE(rr.language, 'en') = language_param) DESC,
+    similarity_score DESC
+  LIMIT similarity_limit + pinned_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,5 @@
+-- Brand voice compiled into every gemini-chat prompt.
+-- Shape: { signature, greeting_style, closing_style, emoji_policy, formality (1-5),
+--          banned_phrases: [], required_phrases: [], max_words (0 = no limit), format }
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS voice_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,81 @@
+-- Versioned system prompts for gemini-chat. Rows with user_id NULL are global defaults (maintained
+-- with the service role); users add their own versions per message type or for all types (message_type NULL).
+-- Exactly one version per scope can be active; gemini-chat uses the most specific active one.
+CREATE TABLE public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_type TEXT,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  body TEXT NOT NULL,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access; global templates are readable by everyone
+CREATE POLICY "Users can view their own prompt templates" 
+ON public.prompt_templates 
+FOR SELECT 
+USING (auth.uid() = user_id OR user_id IS NULL);
+
+CREATE POLICY "Users can create their own prompt templates" 
+ON public.prompt_templates 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own prompt templates" 
+ON public.prompt_templates 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own prompt templates" 
+ON public.prompt_templates 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_prompt_templates_updated_at
+BEFORE UPDATE ON public.prompt_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_version
+ON public.prompt_templates(user_id, COALESCE(message_type, ''), version);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active
+ON public.prompt_templates(user_id, COALESCE(message_type, ''))
+WHERE is_active;
+
+-- Which prompt version produced a saved conversation, for comparing versions over time
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS prompt_template_id UUID REFERENCES public.prompt_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS prompt_template_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_prompt_template
+ON public.conversations(prompt_template_id);
+
+-- The prompt gemini-chat used as a string literal until now (DEFAULT_PROMPT_TEMPLATE in promptTemplate.ts)
+INSERT INTO public.prompt_templates (user_id, message_type, name, version, body, notes, is_active)
+VALUES (NULL, NULL, 'Default', 1, $prompt$You are a professional Fiverr assistant helping to craft responses to client messages.
+
+FIVERR CONTEXT:
+- You're helping a freelancer respond to clients professionally
+- Responses must be policy-compliant and maintain professional tone
+- Focus on clear communication, setting expectations, and building trust
+
+{{profile}}
+
+MESSAGE TYPE: {{message_type}}
+{{client}}{{thread}}{{gigs}}{{knowledge}}{{pricing}}
+{{refined_examples}}
+{{voice}}{{style_rules}}{{deescalation}}
+{{guidelines}}
+
+{{attachments}}
+{{language}}
+Generate a professional response to this client message: "{{client_message}}"$prompt$, 'Built-in prompt', true);
@@ -0,0 +1,50 @@
+-- Outcome rows may only point at the user's own templates; refresh_template_success_rating runs with
+-- definer rights, so an unchecked template_id would let anyone move another seller's success_rating
+DROP POLICY IF EXISTS "Users can create their own template analytics" ON public.template_analytics;
+DROP POLICY IF EXISTS "Users can update their own template analytics" ON public.template_analytics;
+
+CREATE POLICY "Users can create their own template analytics" 
+ON public.template_analytics FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    template_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.message_templates t WHERE t.id = template_id AND t.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their own template analytics" 
+ON public.template_analytics FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    template_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.message_templates t WHERE t.id = template_id AND t.user_id = auth.uid())
+  )
+);
+
+-- Only the template owner's own outcomes count towards its rating, including rows written before the policy above
+CREATE OR REPLACE FUNCTION public.refresh_template_success_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected_template UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.template_id ELSE NEW.template_id END;
+BEGIN
+  IF affected_template IS NOT NULL THEN
+    UPDATE public.message_templates t
+    SET success_rating = (
+      SELECT ROUND(AVG(ta.response_effectiveness), 2)
+      FROM public.template_analytics ta
+      WHERE ta.template_id = affected_template
+        AND ta.user_id = t.user_id
+        AND ta.response_effectiveness IS NOT NULL
+    )
+    WHERE t.id = affected_template;
+  END IF;
+  RETURN NULL;
+END;
+$$;
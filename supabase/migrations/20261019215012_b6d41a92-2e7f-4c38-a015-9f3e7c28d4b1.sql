@@ -0,0 +1,22 @@
+-- Attachment rows are signed by the service-role client, so the stored path must stay inside the owner's folder
+DROP POLICY IF EXISTS "Users can create their own attachments" ON public.conversation_attachments;
+DROP POLICY IF EXISTS "Users can update their own attachments" ON public.conversation_attachments;
+
+CREATE POLICY "Users can create their own attachments" 
+ON public.conversation_attachments 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND split_part(storage_path, '/', 1) = user_id::text
+  AND storage_path !~ '(^|/)\.{1,2}(/|$)|//|[%\\]'
+);
+
+CREATE POLICY "Users can update their own attachments" 
+ON public.conversation_attachments 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND split_part(storage_path, '/', 1) = user_id::text
+  AND storage_path !~ '(^|/)\.{1,2}(/|$)|//|[%\\]'
+);
@@ -0,0 +1,4 @@
+-- find_relevant_gigs runs with definer rights and trusts user_id_param, so browser roles could read any
+-- seller's gigs through it. Only gemini-chat calls it, with the service role.
+REVOKE EXECUTE ON FUNCTION public.find_relevant_gigs(UUID, TEXT, INTEGER, extensions.vector, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_relevant_gigs(UUID, TEXT, INTEGER, extensions.vector, TEXT) TO service_role;
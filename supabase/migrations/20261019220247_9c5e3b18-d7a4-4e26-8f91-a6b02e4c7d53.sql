@@ -0,0 +1,9 @@
+-- Both functions trusted user_id_param while running with definer rights, so any signed-in user could
+-- read another seller's conversations or refined responses by passing their id.
+
+-- Called from the browser; as invoker the conversations RLS policies limit it to the caller's rows
+ALTER FUNCTION public.search_conversations(UUID, TEXT, INTEGER) SECURITY INVOKER;
+
+-- Only gemini-chat calls this one, with the service role
+REVOKE EXECUTE ON FUNCTION public.find_similar_refined_responses(UUID, TEXT, TEXT, INTEGER, extensions.vector, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_similar_refined_responses(UUID, TEXT, TEXT, INTEGER, extensions.vector, TEXT, TEXT) TO service_role;
@@ -0,0 +1,71 @@
+-- Chunks may only point at the caller's own documents; otherwise a user could attach passages to
+-- someone else's document id and have them show up under that document's title
+DROP POLICY IF EXISTS "Users can create their own knowledge chunks" ON public.knowledge_chunks;
+DROP POLICY IF EXISTS "Users can update their own knowledge chunks" ON public.knowledge_chunks;
+
+CREATE POLICY "Users can create their own knowledge chunks" 
+ON public.knowledge_chunks 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.knowledge_documents kd WHERE kd.id = document_id AND kd.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own knowledge chunks" 
+ON public.knowledge_chunks 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.knowledge_documents kd WHERE kd.id = document_id AND kd.user_id = auth.uid())
+);
+
+-- Same scoring as before; the document must belong to the chunk's owner, including rows written before the policy above
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+  user_id_param UUID,
+  client_message_param TEXT,
+  match_limit INTEGER DEFAULT 4,
+  query_embedding extensions.vector(768) DEFAULT NULL,
+  embedding_model_param TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_title TEXT,
+  source_type TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  relevance_score NUMERIC
+) AS $$
+DECLARE
+  query_words TEXT[] := array_remove(regexp_split_to_array(LOWER(client_message_param), '[^[:alnum:]]+'), '');
+BEGIN
+  RETURN QUERY
+  SELECT 
+    kc.id,
+    kc.document_id,
+    kd.title,
+    kd.source_type,
+    kc.chunk_index,
+    kc.content,
+    (
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND kc.embedding IS NOT NULL
+          AND kc.embedding_model = embedding_model_param
+        THEN GREATEST(1 - (kc.embedding OPERATOR(extensions.<=>) query_embedding), 0)
+        ELSE (
+          SELECT COUNT(DISTINCT word)::NUMERIC / GREATEST(COALESCE(array_length(query_words, 1), 0), 1)
+          FROM unnest(query_words) AS word
+          WHERE length(word) > 2
+            AND word = ANY(regexp_split_to_array(LOWER(kd.title || ' ' || kc.content), '[^[:alnum:]]+'))
+        )
+      END
+    )::NUMERIC AS relevance_score
+  FROM public.knowledge_chunks kc
+  JOIN public.knowledge_documents kd ON kd.id = kc.document_id AND kd.user_id = kc.user_id
+  WHERE kc.user_id = user_id_param
+  ORDER BY relevance_score DESC
+  LIMIT match_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,15 @@
+-- The trigger runs with definer rights, so only bump the thread when it belongs to the conversation's owner;
+-- otherwise saving a message with someone else's thread id would reorder their threads
+CREATE OR REPLACE FUNCTION public.touch_client_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.thread_id IS NOT NULL THEN
+    UPDATE public.client_threads SET updated_at = now() WHERE id = NEW.thread_id AND user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;